@@ -0,0 +1,25 @@
+-- Migration 018: Subscription Currency & Quantity
+-- Description: Record which plan price a subscription bills against, and point
+--              subscriptions.plan_id at plans
+
+ALTER TABLE subscriptions
+  ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'NGN',
+  ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1,
+  ADD CONSTRAINT valid_subscription_currency CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD CONSTRAINT valid_subscription_quantity CHECK (quantity > 0);
+
+-- New subscriptions reference plans. NOT VALID leaves existing rows, which
+-- still point at subscription_plans, unchecked until they are moved onto
+-- plans and the constraint is validated.
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_plan_id_fkey;
+ALTER TABLE subscriptions
+  ADD CONSTRAINT subscriptions_plan_id_fkey
+  FOREIGN KEY (plan_id) REFERENCES plans(id) NOT VALID;
+
+-- Subscriptions are tenant-scoped through their customer
+CREATE INDEX idx_subscriptions_customer_test ON subscriptions(customer_id, test_mode);
+CREATE INDEX idx_subscriptions_created ON subscriptions(created_at DESC);
+
+-- Comments
+COMMENT ON COLUMN subscriptions.currency IS 'Currency of the plan price being billed';
+COMMENT ON COLUMN subscriptions.quantity IS 'Units billed against per_unit/tiered/volume prices';
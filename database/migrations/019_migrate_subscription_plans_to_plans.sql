@@ -0,0 +1,199 @@
+-- Migration 019: Move Subscriptions onto Plans
+-- Description: Backfill subscription_plans into plans, validate subscriptions.plan_id
+--              and rebuild analytics on the multi-currency prices JSONB
+
+BEGIN;
+
+-- ============================================================================
+-- BACKFILL: subscription_plans -> plans (ids are preserved so existing
+-- subscriptions keep pointing at the same plan)
+-- ============================================================================
+
+INSERT INTO plans (
+  id, application_id, external_id, name, description,
+  billing_interval, billing_interval_count, prices,
+  trial_period_days, features, metadata, status, test_mode,
+  created_at, updated_at, archived_at
+)
+SELECT
+  sp.id,
+  sp.application_id,
+  -- Keep plan_code as external_id unless a plan already claimed it
+  CASE WHEN EXISTS (
+    SELECT 1 FROM plans p
+    WHERE p.application_id = sp.application_id
+      AND p.external_id = sp.plan_code
+      AND p.test_mode = false
+  ) THEN NULL ELSE sp.plan_code END,
+  sp.name,
+  sp.description,
+  CASE sp.billing_interval WHEN 'yearly' THEN 'year' ELSE 'month' END,
+  1,
+  jsonb_build_array(jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'currency', sp.currency,
+    'unit_amount', sp.price_cents,
+    'pricing_model', 'flat'
+  )),
+  COALESCE(sp.trial_days, 0),
+  COALESCE(sp.features, '{}'::jsonb),
+  COALESCE(sp.metadata, '{}'::jsonb)
+    || jsonb_build_object('legacy_plan_code', sp.plan_code)
+    || CASE
+         WHEN sp.usage_pricing IS NOT NULL AND sp.usage_pricing != '{}'::jsonb
+         THEN jsonb_build_object('legacy_usage_pricing', sp.usage_pricing)
+         ELSE '{}'::jsonb
+       END,
+  CASE WHEN sp.active THEN 'active' ELSE 'archived' END,
+  false,
+  sp.created_at,
+  sp.updated_at,
+  CASE WHEN sp.active THEN NULL ELSE sp.updated_at END
+FROM subscription_plans sp
+WHERE NOT EXISTS (SELECT 1 FROM plans p WHERE p.id = sp.id);
+
+-- Subscriptions bill in the currency of the legacy plan they were created on
+UPDATE subscriptions s
+SET currency = sp.currency
+FROM subscription_plans sp
+WHERE s.plan_id = sp.id;
+
+-- ============================================================================
+-- FOREIGN KEY: subscriptions.plan_id -> plans(id), added NOT VALID in 018;
+-- every subscription now points at a backfilled plan
+-- ============================================================================
+
+ALTER TABLE subscriptions VALIDATE CONSTRAINT subscriptions_plan_id_fkey;
+
+-- ============================================================================
+-- PRICING: SQL mirror of planService.calculatePrice for reporting
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION plan_price_amount(
+  p_prices JSONB,
+  p_currency VARCHAR,
+  p_quantity INTEGER
+)
+RETURNS BIGINT AS $$
+DECLARE
+  price JSONB;
+  tier JSONB;
+  model TEXT;
+  total BIGINT := 0;
+  remaining BIGINT := p_quantity;
+  units BIGINT;
+BEGIN
+  SELECT p INTO price
+  FROM jsonb_array_elements(p_prices) p
+  WHERE p->>'currency' = p_currency
+  LIMIT 1;
+
+  IF price IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  model := COALESCE(price->>'pricing_model', 'flat');
+
+  IF model = 'flat' THEN
+    RETURN (price->>'unit_amount')::BIGINT;
+  END IF;
+
+  IF model = 'tiered' AND price->'tiers' IS NOT NULL THEN
+    FOR tier IN SELECT * FROM jsonb_array_elements(price->'tiers') LOOP
+      EXIT WHEN remaining <= 0;
+      IF tier->>'up_to' IS NULL THEN
+        units := remaining;
+      ELSE
+        units := LEAST(remaining, (tier->>'up_to')::BIGINT);
+      END IF;
+      total := total + units * (tier->>'unit_amount')::BIGINT
+                     + COALESCE((tier->>'flat_amount')::BIGINT, 0);
+      remaining := remaining - units;
+    END LOOP;
+    RETURN total;
+  END IF;
+
+  IF model = 'volume' AND price->'tiers' IS NOT NULL THEN
+    FOR tier IN SELECT * FROM jsonb_array_elements(price->'tiers') LOOP
+      IF tier->>'up_to' IS NULL OR p_quantity <= (tier->>'up_to')::BIGINT THEN
+        RETURN p_quantity * (tier->>'unit_amount')::BIGINT
+               + COALESCE((tier->>'flat_amount')::BIGINT, 0);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN (price->>'unit_amount')::BIGINT * p_quantity;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Normalize a per-period amount to a monthly amount
+CREATE OR REPLACE FUNCTION monthly_amount(
+  p_amount BIGINT,
+  p_interval VARCHAR,
+  p_interval_count INTEGER
+)
+RETURNS BIGINT AS $$
+  SELECT ROUND(
+    p_amount::NUMERIC * CASE p_interval
+      WHEN 'day' THEN 365.0 / 12
+      WHEN 'week' THEN 52.0 / 12
+      WHEN 'month' THEN 1
+      WHEN 'year' THEN 1.0 / 12
+    END / GREATEST(p_interval_count, 1)
+  )::BIGINT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- ANALYTICS: rebuild views on plans
+-- ============================================================================
+
+DROP MATERIALIZED VIEW IF EXISTS analytics_daily_metrics;
+DROP VIEW IF EXISTS analytics_subscription_metrics;
+
+-- MRR is reported per currency since plans are priced in several currencies
+CREATE MATERIALIZED VIEW analytics_daily_metrics AS
+SELECT
+  c.application_id,
+  s.currency,
+  DATE_TRUNC('day', NOW()) as metric_date,
+  COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'active') as active_subscriptions,
+  COUNT(DISTINCT s.id) FILTER (WHERE DATE(s.created_at) = CURRENT_DATE) as new_subscriptions,
+  COUNT(DISTINCT s.id) FILTER (WHERE DATE(s.cancelled_at) = CURRENT_DATE) as churned_subscriptions,
+  SUM(
+    monthly_amount(
+      plan_price_amount(p.prices, s.currency, s.quantity),
+      p.billing_interval,
+      p.billing_interval_count
+    )
+  ) FILTER (WHERE s.status = 'active') as mrr_cents
+FROM subscriptions s
+JOIN customers c ON s.customer_id = c.id
+JOIN plans p ON s.plan_id = p.id
+WHERE s.test_mode = false
+GROUP BY c.application_id, s.currency;
+
+CREATE UNIQUE INDEX idx_analytics_daily_metrics
+  ON analytics_daily_metrics(application_id, currency, metric_date);
+
+CREATE VIEW analytics_subscription_metrics AS
+SELECT
+  p.application_id,
+  p.id as plan_id,
+  p.external_id as plan_code,
+  p.name as plan_name,
+  COUNT(DISTINCT s.id) as subscription_count,
+  COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'active') as active_count,
+  COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'trialing') as trialing_count,
+  COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'past_due') as past_due_count,
+  AVG(EXTRACT(EPOCH FROM (s.cancelled_at - s.created_at))/86400) FILTER (WHERE s.cancelled_at IS NOT NULL) as avg_lifetime_days
+FROM subscriptions s
+JOIN plans p ON s.plan_id = p.id
+WHERE s.test_mode = false
+GROUP BY p.application_id, p.id, p.external_id, p.name;
+
+-- Comments
+COMMENT ON TABLE subscription_plans IS 'DEPRECATED: superseded by plans (see migration 019)';
+COMMENT ON MATERIALIZED VIEW analytics_daily_metrics IS 'Pre-computed daily MRR metrics per currency';
+COMMENT ON FUNCTION plan_price_amount(JSONB, VARCHAR, INTEGER) IS 'Price of a plan in a currency for a quantity (mirrors planService.calculatePrice)';
+
+COMMIT;
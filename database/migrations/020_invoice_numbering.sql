@@ -0,0 +1,48 @@
+-- Migration 020: Invoice Numbering
+-- Description: Tenant-scoped invoices with gapless per-application number sequences
+
+-- Invoices are tenant-scoped directly so numbers can be unique per application
+ALTER TABLE invoices ADD COLUMN application_id UUID REFERENCES applications(id);
+
+UPDATE invoices i
+SET application_id = c.application_id
+FROM customers c
+WHERE i.customer_id = c.id;
+
+ALTER TABLE invoices ALTER COLUMN application_id SET NOT NULL;
+
+-- Invoice numbers are unique per application and mode, not globally
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+ALTER TABLE invoices
+  ADD CONSTRAINT unique_invoice_number UNIQUE (application_id, test_mode, invoice_number);
+
+CREATE INDEX idx_invoices_app ON invoices(application_id, test_mode, created_at DESC);
+
+-- Number sequences (one row per application and mode)
+-- The row is locked by the allocating transaction, so a rolled-back invoice
+-- releases its number and sequences stay gapless.
+CREATE TABLE invoice_number_sequences (
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+
+  last_number INTEGER NOT NULL DEFAULT 0,
+
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  PRIMARY KEY (application_id, test_mode)
+);
+
+CREATE TRIGGER update_invoice_number_sequences_updated_at
+  BEFORE UPDATE ON invoice_number_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed sequences from invoices that already exist
+INSERT INTO invoice_number_sequences (application_id, test_mode, last_number)
+SELECT application_id, COALESCE(test_mode, false), COUNT(*)
+FROM invoices
+GROUP BY application_id, COALESCE(test_mode, false);
+
+-- Comments
+COMMENT ON TABLE invoice_number_sequences IS 'Gapless invoice number counters per application and mode';
+COMMENT ON COLUMN invoices.application_id IS 'Owning application (denormalized from customer)';
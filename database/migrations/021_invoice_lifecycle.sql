@@ -0,0 +1,18 @@
+-- Migration 021: Invoice Lifecycle
+-- Description: Draft invoices are numbered at finalization so sequences have no gaps
+
+-- Drafts have no number until they are finalized
+ALTER TABLE invoices ALTER COLUMN invoice_number DROP NOT NULL;
+
+ALTER TABLE invoices
+  ADD COLUMN days_until_due INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN finalized_at TIMESTAMP,
+  ADD COLUMN marked_uncollectible_at TIMESTAMP,
+  ADD CONSTRAINT valid_days_until_due CHECK (days_until_due >= 0),
+  ADD CONSTRAINT numbered_when_finalized CHECK (status = 'draft' OR invoice_number IS NOT NULL);
+
+CREATE INDEX idx_invoices_customer_status ON invoices(customer_id, status);
+
+-- Comments
+COMMENT ON COLUMN invoices.invoice_number IS 'Assigned from invoice_number_sequences when the invoice is finalized';
+COMMENT ON COLUMN invoices.days_until_due IS 'Due date offset from the issue date, applied at finalization';
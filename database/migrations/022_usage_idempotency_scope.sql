@@ -0,0 +1,15 @@
+-- Migration 022: Usage Idempotency Scope
+-- Description: Usage idempotency keys are unique per subscription instead of globally
+
+-- A global key let one tenant's keys collide with (and silently drop) another's
+ALTER TABLE usage_records DROP CONSTRAINT IF EXISTS usage_records_idempotency_key_key;
+DROP INDEX IF EXISTS idx_usage_idempotency;
+
+ALTER TABLE usage_records
+  ADD CONSTRAINT unique_usage_idempotency_key UNIQUE (subscription_id, idempotency_key);
+
+CREATE INDEX idx_usage_subscription_created ON usage_records(subscription_id, created_at DESC);
+
+-- Comments
+COMMENT ON COLUMN usage_records.idempotency_key IS 'Prevents duplicate usage recording (unique per subscription)';
+COMMENT ON COLUMN usage_records.period_start IS 'Start of the subscription period the usage is billed in';
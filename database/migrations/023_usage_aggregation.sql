@@ -0,0 +1,79 @@
+-- Migration 023: Usage Aggregation
+-- Description: Per-metric aggregation modes and metered plan prices
+
+-- How a metric's records are combined into one billable quantity per period
+ALTER TABLE usage_metrics
+  ADD COLUMN aggregation VARCHAR(30) NOT NULL DEFAULT 'sum',
+  ADD COLUMN unique_property VARCHAR(100),
+  ADD CONSTRAINT valid_aggregation CHECK (
+    aggregation IN ('sum', 'max', 'last_during_period', 'unique_count')
+  ),
+  ADD CONSTRAINT unique_count_has_property CHECK (
+    aggregation != 'unique_count' OR unique_property IS NOT NULL
+  );
+
+-- Metered prices (those with a metric_name) are billed from usage, so they
+-- no longer count towards a plan's recurring amount
+CREATE OR REPLACE FUNCTION plan_price_amount(
+  p_prices JSONB,
+  p_currency VARCHAR,
+  p_quantity INTEGER
+)
+RETURNS BIGINT AS $$
+DECLARE
+  price JSONB;
+  tier JSONB;
+  model TEXT;
+  total BIGINT := 0;
+  remaining BIGINT := p_quantity;
+  units BIGINT;
+BEGIN
+  SELECT p INTO price
+  FROM jsonb_array_elements(p_prices) p
+  WHERE p->>'currency' = p_currency
+    AND p->>'metric_name' IS NULL
+  LIMIT 1;
+
+  IF price IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  model := COALESCE(price->>'pricing_model', 'flat');
+
+  IF model = 'flat' THEN
+    RETURN (price->>'unit_amount')::BIGINT;
+  END IF;
+
+  IF model = 'tiered' AND price->'tiers' IS NOT NULL THEN
+    FOR tier IN SELECT * FROM jsonb_array_elements(price->'tiers') LOOP
+      EXIT WHEN remaining <= 0;
+      IF tier->>'up_to' IS NULL THEN
+        units := remaining;
+      ELSE
+        units := LEAST(remaining, (tier->>'up_to')::BIGINT);
+      END IF;
+      total := total + units * (tier->>'unit_amount')::BIGINT
+                     + COALESCE((tier->>'flat_amount')::BIGINT, 0);
+      remaining := remaining - units;
+    END LOOP;
+    RETURN total;
+  END IF;
+
+  IF model = 'volume' AND price->'tiers' IS NOT NULL THEN
+    FOR tier IN SELECT * FROM jsonb_array_elements(price->'tiers') LOOP
+      IF tier->>'up_to' IS NULL OR p_quantity <= (tier->>'up_to')::BIGINT THEN
+        RETURN p_quantity * (tier->>'unit_amount')::BIGINT
+               + COALESCE((tier->>'flat_amount')::BIGINT, 0);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN (price->>'unit_amount')::BIGINT * p_quantity;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Comments
+COMMENT ON COLUMN usage_metrics.aggregation IS 'sum, max, last_during_period or unique_count of records in a billing period';
+COMMENT ON COLUMN usage_metrics.unique_property IS 'Metadata key counted by unique_count aggregation';
+COMMENT ON COLUMN usage_records.invoice_id IS 'Invoice that billed this usage (set when invoiced = true)';
+COMMENT ON FUNCTION plan_price_amount(JSONB, VARCHAR, INTEGER) IS 'Licensed (non-metered) price of a plan in a currency for a quantity (mirrors planService.calculatePrice)';
@@ -0,0 +1,22 @@
+-- Migration 024: Payment Provider Credentials
+-- Description: Masked credential fingerprints, rotation and connection-test tracking
+
+ALTER TABLE payment_provider_configs
+  ADD COLUMN credentials_fingerprint VARCHAR(64),
+  ADD COLUMN credentials_hint VARCHAR(50),
+  ADD COLUMN rotated_at TIMESTAMP,
+  ADD COLUMN last_tested_at TIMESTAMP,
+  ADD COLUMN last_test_ok BOOLEAN,
+  ADD COLUMN last_test_message TEXT,
+  ADD COLUMN deactivated_at TIMESTAMP;
+
+-- A deactivated config can never be the default
+UPDATE payment_provider_configs SET is_default = false WHERE active = false AND is_default = true;
+
+ALTER TABLE payment_provider_configs
+  ADD CONSTRAINT default_provider_is_active CHECK (active = true OR is_default = false);
+
+-- Comments
+COMMENT ON COLUMN payment_provider_configs.credentials_encrypted IS 'armor(pgp_sym_encrypt(credentials JSON, ENCRYPTION_KEY))';
+COMMENT ON COLUMN payment_provider_configs.credentials_fingerprint IS 'Truncated SHA-256 of the credentials, to tell keys apart without exposing them';
+COMMENT ON COLUMN payment_provider_configs.credentials_hint IS 'Masked secret key (prefix and last 4 characters)';
@@ -0,0 +1,15 @@
+-- Migration 025: Invoice Payment Attempts
+-- Description: Attempt tracking for automatic invoice collection
+
+ALTER TABLE invoices
+  ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_payment_attempt_at TIMESTAMP;
+
+-- At most one attempt may be in flight per invoice, so a retry can never
+-- double-charge while the provider is still deciding
+CREATE UNIQUE INDEX idx_transactions_in_flight ON payment_transactions(invoice_id)
+  WHERE status IN ('pending', 'processing');
+
+-- Comments
+COMMENT ON COLUMN invoices.attempt_count IS 'Number of collection attempts made against this invoice';
+COMMENT ON COLUMN payment_transactions.idempotency_key IS 'inv_<invoice_id>_<attempt>; also sent to the provider as the charge reference';
@@ -0,0 +1,19 @@
+-- Migration 026: Dunning
+-- Description: Final dunning action and retry schedule integrity
+
+ALTER TABLE dunning_configs
+  ADD COLUMN final_action VARCHAR(20) NOT NULL DEFAULT 'cancel',
+  ADD CONSTRAINT valid_final_action CHECK (final_action IN ('cancel', 'mark_unpaid')),
+  ADD CONSTRAINT valid_retry_schedule CHECK (array_length(retry_schedule, 1) BETWEEN 1 AND 10),
+  ADD CONSTRAINT valid_suspend_after_attempts CHECK (suspend_after_attempts > 0),
+  ADD CONSTRAINT valid_cancel_after_days CHECK (cancel_after_days > 0);
+
+-- One retry per attempt number, so concurrent workers cannot double-schedule
+DROP INDEX IF EXISTS idx_retry_schedules_attempt;
+
+ALTER TABLE payment_retry_schedules
+  ADD CONSTRAINT unique_retry_attempt UNIQUE (invoice_id, attempt_number);
+
+-- Comments
+COMMENT ON COLUMN dunning_configs.final_action IS 'After cancel_after_days: cancel (subscription cancelled, invoice uncollectible) or mark_unpaid (subscription unpaid, invoice left open)';
+COMMENT ON COLUMN payment_retry_schedules.scheduled_for IS 'First failed attempt + retry_schedule[attempt_number] days';
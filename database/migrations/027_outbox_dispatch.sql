@@ -0,0 +1,15 @@
+-- Migration 027: Outbox Dispatch
+-- Description: Mode-scoped events and delivery lookups for the webhook dispatcher
+
+ALTER TABLE outbox_events
+  ADD COLUMN test_mode BOOLEAN NOT NULL DEFAULT false;
+
+-- The dispatcher skips endpoints that already received an event when retrying
+CREATE INDEX idx_webhook_deliveries_event_endpoint ON webhook_deliveries(outbox_event_id, webhook_endpoint_id)
+  WHERE success = true;
+
+CREATE INDEX idx_outbox_app_created ON outbox_events(application_id, test_mode, created_at DESC);
+
+-- Comments
+COMMENT ON COLUMN outbox_events.payload IS 'Event envelope as delivered to webhook endpoints';
+COMMENT ON COLUMN outbox_events.next_retry_at IS 'Next delivery attempt; while processing, the claim lease expiry';
@@ -0,0 +1,38 @@
+-- Migration 028: Webhook Endpoint Secrets
+-- Description: Secret rolling with an overlap window, endpoint deletion that keeps the delivery log,
+-- and test/live mode for endpoints so each receives only its own mode's events
+
+ALTER TABLE webhook_endpoints
+  ADD COLUMN previous_secret VARCHAR(255),
+  ADD COLUMN previous_secret_expires_at TIMESTAMP,
+  ADD COLUMN secret_rolled_at TIMESTAMP,
+  ADD COLUMN metadata JSONB DEFAULT '{}';
+
+ALTER TABLE webhook_endpoints
+  ADD CONSTRAINT previous_secret_has_expiry CHECK (
+    previous_secret IS NULL OR previous_secret_expires_at IS NOT NULL
+  );
+
+-- Endpoints created before this migration were managed with either key; treat them as live
+ALTER TABLE webhook_endpoints
+  ADD COLUMN test_mode BOOLEAN;
+
+UPDATE webhook_endpoints SET test_mode = false;
+
+ALTER TABLE webhook_endpoints
+  ALTER COLUMN test_mode SET NOT NULL;
+
+-- Deliveries outlive the endpoint they were sent to
+ALTER TABLE webhook_deliveries
+  DROP CONSTRAINT webhook_deliveries_webhook_endpoint_id_fkey,
+  ADD CONSTRAINT webhook_deliveries_webhook_endpoint_id_fkey
+    FOREIGN KEY (webhook_endpoint_id) REFERENCES webhook_endpoints(id) ON DELETE SET NULL;
+
+-- Indexes
+DROP INDEX IF EXISTS idx_webhook_endpoints_active;
+CREATE INDEX idx_webhook_endpoints_active ON webhook_endpoints(application_id, test_mode, active);
+
+-- Comments
+COMMENT ON COLUMN webhook_endpoints.test_mode IS 'Mode of the key that created the endpoint; only events of the same mode are delivered to it';
+COMMENT ON COLUMN webhook_endpoints.previous_secret IS 'Secret replaced by the last roll; deliveries are also signed with it until previous_secret_expires_at';
+COMMENT ON COLUMN webhook_endpoints.enabled_events IS 'Event types delivered to the endpoint; NULL or ''*'' = all events';
@@ -0,0 +1,20 @@
+-- Migration 029: Webhook Endpoint Health
+-- Description: Failure streak tracking and automatic disabling of failing endpoints
+
+ALTER TABLE webhook_endpoints
+  ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN failing_since TIMESTAMP,
+  ADD COLUMN disabled_at TIMESTAMP,
+  ADD COLUMN disabled_reason TEXT;
+
+-- Delivery log per endpoint, newest first
+CREATE INDEX idx_webhook_deliveries_endpoint_attempted ON webhook_deliveries(webhook_endpoint_id, attempted_at DESC);
+
+-- Event listing pages by (created_at, id)
+DROP INDEX idx_outbox_app_created;
+CREATE INDEX idx_outbox_app_created ON outbox_events(application_id, test_mode, created_at DESC, id DESC);
+
+-- Comments
+COMMENT ON COLUMN webhook_endpoints.consecutive_failures IS 'Failed deliveries since the last success; reset on success or re-enable';
+COMMENT ON COLUMN webhook_endpoints.failing_since IS 'First failure of the current streak';
+COMMENT ON COLUMN webhook_endpoints.disabled_at IS 'Set when the endpoint was disabled automatically after a sustained failure streak';
@@ -0,0 +1,19 @@
+-- Migration 030: Provider Webhooks
+-- Description: Per-application replay protection and provider reference lookups for inbound webhooks
+
+-- Provider event IDs are only unique within one provider account
+ALTER TABLE processed_webhooks DROP CONSTRAINT processed_webhooks_pkey;
+ALTER TABLE processed_webhooks
+  ADD COLUMN provider VARCHAR(50),
+  ADD COLUMN event_type VARCHAR(100),
+  ADD COLUMN outcome VARCHAR(50),
+  ADD PRIMARY KEY (application_id, webhook_id);
+
+CREATE INDEX idx_refunds_provider ON refunds(provider, provider_refund_id);
+
+CREATE UNIQUE INDEX unique_provider_dispute ON disputes(provider, provider_dispute_id)
+  WHERE provider_dispute_id IS NOT NULL;
+
+-- Comments
+COMMENT ON COLUMN processed_webhooks.webhook_id IS '<provider>:<provider event id>';
+COMMENT ON COLUMN processed_webhooks.outcome IS 'What the webhook changed, e.g. payment_succeeded or ignored';
@@ -0,0 +1,14 @@
+-- Migration 031: API Key Management
+-- Description: Display hints, revocation and rotation tracking for API keys managed over the API
+
+ALTER TABLE api_keys
+  ADD COLUMN key_hint VARCHAR(40),
+  ADD COLUMN revoked_at TIMESTAMP,
+  ADD COLUMN rotated_at TIMESTAMP,
+  ADD COLUMN replaced_by_key_id UUID REFERENCES api_keys(id);
+
+CREATE INDEX idx_api_keys_app_mode ON api_keys(application_id, key_type, created_at DESC);
+
+-- Comments
+COMMENT ON COLUMN api_keys.key_hint IS 'Prefix and last 4 characters, e.g. xbs_sk_test_…a1b2';
+COMMENT ON COLUMN api_keys.replaced_by_key_id IS 'Key issued by rotation; this key keeps working until expires_at (the grace period)';
@@ -0,0 +1,27 @@
+-- Migration 032: API Key Digest Lookup
+-- Description: Keyed SHA-256 digest so a presented key is found with one indexed lookup instead of bcrypt-comparing every key with the same prefix,
+-- and a 90-day deadline for matching keys created before it by bcrypt scan, so the fallback scan can be removed
+
+ALTER TABLE api_keys
+  ADD COLUMN key_digest CHAR(64);
+
+CREATE UNIQUE INDEX idx_api_keys_digest ON api_keys(key_digest) WHERE key_digest IS NOT NULL;
+
+-- Keys created before this migration have no digest until first successful use
+CREATE INDEX idx_api_keys_legacy ON api_keys(key_prefix) WHERE key_digest IS NULL AND active = true;
+
+-- A digest needs the full key, which only its owner has, so these keys cannot
+-- be backfilled here. A key used before the deadline gets its digest and loses
+-- the deadline; one still unused after it stops authenticating and has to be
+-- rotated (POST /v1/api_keys/:id/rotate). expires_at is left as the owner set it.
+ALTER TABLE api_keys
+  ADD COLUMN legacy_lookup_expires_at TIMESTAMP;
+
+UPDATE api_keys
+SET legacy_lookup_expires_at = NOW() + INTERVAL '90 days'
+WHERE key_digest IS NULL
+  AND active = true;
+
+-- Comments
+COMMENT ON COLUMN api_keys.key_digest IS 'HMAC-SHA256 of the full key (hex), keyed from ENCRYPTION_KEY; backfilled for legacy keys on first use';
+COMMENT ON COLUMN api_keys.legacy_lookup_expires_at IS 'Until when a key without a digest can still be matched by bcrypt scan; cleared when the digest is backfilled';
@@ -0,0 +1,14 @@
+-- Migration 033: Restricted API Keys
+-- Description: Restricted (xbs_rk_) keys carrying a per-resource permission set
+
+ALTER TABLE api_keys
+  DROP CONSTRAINT valid_key_role,
+  ADD CONSTRAINT valid_key_role CHECK (key_role IN ('publishable', 'secret', 'restricted')),
+  ADD COLUMN permissions TEXT[],
+  ADD CONSTRAINT restricted_key_has_permissions CHECK (
+    (key_role = 'restricted') = (permissions IS NOT NULL)
+  );
+
+-- Comments
+COMMENT ON COLUMN api_keys.key_role IS 'Publishable (frontend allowlist), secret (full access) or restricted (permissions only)';
+COMMENT ON COLUMN api_keys.permissions IS 'Restricted keys only, e.g. {customers:read,invoices:write}; write implies read';
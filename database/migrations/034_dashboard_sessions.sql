@@ -0,0 +1,31 @@
+-- Migration 034: Dashboard Sessions
+-- Description: Refresh-token sessions for dashboard users signing in with the application's email and password
+
+CREATE TABLE dashboard_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+
+  -- Current refresh token (SHA-256, hex); replaced on every refresh
+  refresh_token_digest CHAR(64) NOT NULL,
+
+  -- Client details at sign-in
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(45),
+
+  expires_at TIMESTAMP NOT NULL,
+  last_refreshed_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE UNIQUE INDEX idx_dashboard_sessions_refresh ON dashboard_sessions(refresh_token_digest);
+CREATE INDEX idx_dashboard_sessions_app ON dashboard_sessions(application_id, created_at DESC);
+
+-- Sign-in looks applications up case-insensitively
+CREATE INDEX idx_applications_email_lower ON applications(LOWER(email));
+
+-- Comments
+COMMENT ON TABLE dashboard_sessions IS 'Dashboard sign-in sessions; access tokens (JWT) reference the session and stop working once it is revoked';
+COMMENT ON COLUMN dashboard_sessions.refresh_token_digest IS 'SHA-256 of the opaque refresh token; the token itself is never stored';
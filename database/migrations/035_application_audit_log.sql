@@ -0,0 +1,28 @@
+-- Migration 035: Application Audit Log
+-- Description: Who changed which application settings, from what to what
+
+CREATE TABLE application_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+
+  action VARCHAR(50) NOT NULL, -- e.g. 'application.updated'
+
+  -- Who made the change
+  actor_type VARCHAR(20) NOT NULL,
+  actor_id UUID,
+  ip_address VARCHAR(45),
+
+  -- { field: { "from": old, "to": new } }
+  changes JSONB NOT NULL,
+
+  created_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_actor_type CHECK (actor_type IN ('api_key', 'dashboard_session'))
+);
+
+-- Indexes
+CREATE INDEX idx_application_audit_log_app ON application_audit_log(application_id, created_at DESC, id DESC);
+
+-- Comments
+COMMENT ON TABLE application_audit_log IS 'Append-only history of application settings changes';
+COMMENT ON COLUMN application_audit_log.actor_id IS 'API key or dashboard session that made the change';
@@ -0,0 +1,32 @@
+-- Migration 036: Idempotency Keys
+-- Description: Stored responses for requests sent with an Idempotency-Key header, so retries replay instead of repeating side effects
+
+CREATE TABLE idempotency_keys (
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  test_mode BOOLEAN NOT NULL,
+  idempotency_key VARCHAR(255) NOT NULL,
+
+  -- What the key was first used for
+  request_method VARCHAR(10) NOT NULL,
+  request_path VARCHAR(500) NOT NULL,
+  request_fingerprint CHAR(64) NOT NULL, -- SHA-256 of method, path and body
+
+  -- 'processing' while the first request runs, then 'completed'
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  response_status INTEGER,
+  response_body_encrypted TEXT, -- pgcrypto-encrypted JSON; may contain secrets
+
+  locked_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+
+  PRIMARY KEY (application_id, test_mode, idempotency_key),
+  CONSTRAINT valid_idempotency_status CHECK (status IN ('processing', 'completed'))
+);
+
+-- Indexes
+CREATE INDEX idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Comments
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key header records; replays return the stored response until expires_at';
+COMMENT ON COLUMN idempotency_keys.locked_at IS 'When the current attempt started; a processing row older than the lock timeout can be taken over by a retry';
@@ -0,0 +1,35 @@
+-- Migration 037: Subscription Plan Changes
+-- Description: Proration line items awaiting the next invoice, and plan changes scheduled for period end
+
+CREATE TABLE pending_invoice_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+
+  -- Invoice line item (see InvoiceLineItem); negative amounts are credits
+  line_item JSONB NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+
+  -- Set once the item has been billed
+  invoice_id UUID REFERENCES invoices(id),
+
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE subscriptions
+  ADD COLUMN scheduled_plan_id UUID REFERENCES plans(id),
+  ADD COLUMN scheduled_quantity INTEGER,
+  ADD CONSTRAINT valid_scheduled_change CHECK (
+    (scheduled_plan_id IS NULL AND scheduled_quantity IS NULL) OR
+    (scheduled_plan_id IS NOT NULL AND scheduled_quantity > 0)
+  );
+
+-- Indexes
+CREATE INDEX idx_pending_invoice_items_uninvoiced ON pending_invoice_items(subscription_id, created_at)
+  WHERE invoice_id IS NULL;
+
+-- Comments
+COMMENT ON TABLE pending_invoice_items IS 'Line items (e.g. prorations) added to the subscription''s next invoice';
+COMMENT ON COLUMN subscriptions.scheduled_plan_id IS 'Plan the subscription switches to when the current period ends';
+COMMENT ON COLUMN subscriptions.scheduled_quantity IS 'Quantity that applies with scheduled_plan_id';
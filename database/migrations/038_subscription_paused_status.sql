@@ -0,0 +1,4 @@
+-- Migration 038: Paused Subscription Status
+-- Description: Add 'paused' to subscription_status (on its own, as a new enum value cannot be used in the transaction that adds it)
+
+ALTER TYPE subscription_status ADD VALUE IF NOT EXISTS 'paused' AFTER 'suspended';
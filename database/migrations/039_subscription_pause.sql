@@ -0,0 +1,42 @@
+-- Migration 039: Subscription Pause & State Change Reasons
+-- Description: Pause settings for paused subscriptions, and record why each status transition happened
+
+ALTER TABLE subscriptions
+  ADD COLUMN pause_behavior VARCHAR(20),
+  ADD COLUMN paused_at TIMESTAMP,
+  ADD COLUMN resumes_at TIMESTAMP,
+  ADD CONSTRAINT valid_pause_behavior CHECK (
+    pause_behavior IN ('keep_as_draft', 'mark_uncollectible', 'void')
+  ),
+  ADD CONSTRAINT valid_pause CHECK (
+    (pause_behavior IS NULL AND paused_at IS NULL AND resumes_at IS NULL) OR
+    (pause_behavior IS NOT NULL AND paused_at IS NOT NULL)
+  );
+
+-- Paused subscriptions keep renewing (their invoices are handled per
+-- pause_behavior), so the renewal engine's index now covers them
+DROP INDEX IF EXISTS idx_subscriptions_period_end;
+CREATE INDEX idx_subscriptions_period_end ON subscriptions(current_period_end)
+  WHERE status IN ('active', 'trialing', 'paused');
+CREATE INDEX idx_subscriptions_resumes_at ON subscriptions(resumes_at)
+  WHERE resumes_at IS NOT NULL;
+
+-- The application sets xbs.state_change_reason (transaction-local) before
+-- changing a status; the trigger records it and clears it so it cannot leak
+-- into a later transition in the same transaction
+CREATE OR REPLACE FUNCTION log_subscription_state_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status != NEW.status THEN
+    INSERT INTO subscription_state_changes (subscription_id, from_status, to_status, reason)
+    VALUES (NEW.id, OLD.status, NEW.status, NULLIF(current_setting('xbs.state_change_reason', true), ''));
+    PERFORM set_config('xbs.state_change_reason', '', true);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Comments
+COMMENT ON COLUMN subscriptions.pause_behavior IS 'What happens to invoices generated while paused: keep_as_draft, mark_uncollectible or void';
+COMMENT ON COLUMN subscriptions.resumes_at IS 'When a paused subscription resumes automatically (NULL = until resumed)';
+COMMENT ON COLUMN subscription_state_changes.reason IS 'Why the status changed, e.g. trial_ended, payment_failed, pause_requested';
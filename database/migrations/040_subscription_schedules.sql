@@ -0,0 +1,48 @@
+-- Migration 040: Subscription Schedules
+-- Description: Ordered phases (plan, quantity, duration, discount) that the renewal engine steps a subscription through
+
+CREATE TABLE subscription_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+
+  -- active → completed (last phase ended), released (detached early) or
+  -- cancelled (subscription ended)
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  end_behavior VARCHAR(20) NOT NULL DEFAULT 'release',
+
+  -- [{ plan_id, quantity, iterations, discount }]; iterations = billing periods
+  phases JSONB NOT NULL,
+  current_phase INTEGER NOT NULL DEFAULT 0,
+  current_phase_start TIMESTAMP NOT NULL,
+  current_phase_end TIMESTAMP NOT NULL,
+
+  completed_at TIMESTAMP,
+  released_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+
+  metadata JSONB DEFAULT '{}'::jsonb,
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_schedule_status CHECK (status IN ('active', 'completed', 'released', 'cancelled')),
+  CONSTRAINT valid_schedule_end_behavior CHECK (end_behavior IN ('release', 'cancel')),
+  CONSTRAINT valid_schedule_phase CHECK (current_phase >= 0 AND current_phase < jsonb_array_length(phases))
+);
+
+-- Indexes
+CREATE UNIQUE INDEX idx_subscription_schedules_active ON subscription_schedules(subscription_id)
+  WHERE status = 'active';
+CREATE INDEX idx_subscription_schedules_app ON subscription_schedules(application_id, test_mode, created_at DESC);
+
+-- Trigger
+CREATE TRIGGER update_subscription_schedules_updated_at
+  BEFORE UPDATE ON subscription_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments
+COMMENT ON TABLE subscription_schedules IS 'Multi-phase plans for a subscription, applied by the renewal engine at phase boundaries';
+COMMENT ON COLUMN subscription_schedules.current_phase_end IS 'First renewal at or after this time moves the subscription to the next phase';
+COMMENT ON COLUMN subscription_schedules.end_behavior IS 'After the last phase: release (subscription continues on its own) or cancel';
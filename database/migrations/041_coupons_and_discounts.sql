@@ -0,0 +1,109 @@
+-- Migration 041: Coupons and Discounts
+-- Description: Coupons, customer-facing promotion codes, and the discounts they grant to subscriptions and customers
+
+CREATE TABLE coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+
+  -- Exactly one of percent_off or amounts_off ({ "NGN": 500000, "USD": 1000 },
+  -- smallest currency unit)
+  percent_off NUMERIC(5, 2),
+  amounts_off JSONB,
+
+  -- once (first invoice), repeating (duration_in_months) or forever
+  duration VARCHAR(20) NOT NULL,
+  duration_in_months INTEGER,
+
+  -- Inactive coupons cannot be redeemed; existing discounts continue
+  active BOOLEAN NOT NULL DEFAULT true,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+
+  metadata JSONB DEFAULT '{}'::jsonb,
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_coupon_discount CHECK (
+    (percent_off IS NOT NULL AND percent_off > 0 AND percent_off <= 100 AND amounts_off IS NULL) OR
+    (percent_off IS NULL AND amounts_off IS NOT NULL)
+  ),
+  CONSTRAINT valid_coupon_duration CHECK (
+    (duration IN ('once', 'forever') AND duration_in_months IS NULL) OR
+    (duration = 'repeating' AND duration_in_months > 0)
+  )
+);
+
+CREATE TABLE promotion_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+
+  -- Stored upper-case; customers enter it case-insensitively
+  code VARCHAR(50) NOT NULL,
+
+  -- Restricts redemption to one customer
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+
+  active BOOLEAN NOT NULL DEFAULT true,
+  max_redemptions INTEGER,
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP,
+
+  metadata JSONB DEFAULT '{}'::jsonb,
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_promotion_code_redemptions CHECK (
+    max_redemptions IS NULL OR (max_redemptions > 0 AND times_redeemed <= max_redemptions)
+  )
+);
+
+CREATE TABLE discounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  coupon_id UUID NOT NULL REFERENCES coupons(id),
+  promotion_code_id UUID REFERENCES promotion_codes(id),
+
+  -- Exactly one of subscription_id or customer_id
+  subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP,
+
+  -- Set when removed, replaced, or used up (duration 'once')
+  ended_at TIMESTAMP,
+
+  test_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_discount_target CHECK ((subscription_id IS NULL) <> (customer_id IS NULL))
+);
+
+-- Indexes
+CREATE INDEX idx_coupons_app ON coupons(application_id, test_mode, created_at DESC);
+CREATE UNIQUE INDEX idx_promotion_codes_code ON promotion_codes(application_id, test_mode, code);
+CREATE INDEX idx_promotion_codes_app ON promotion_codes(application_id, test_mode, created_at DESC);
+CREATE UNIQUE INDEX idx_discounts_subscription ON discounts(subscription_id)
+  WHERE subscription_id IS NOT NULL AND ended_at IS NULL;
+CREATE UNIQUE INDEX idx_discounts_customer ON discounts(customer_id)
+  WHERE customer_id IS NOT NULL AND ended_at IS NULL;
+
+-- Trigger
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_promotion_codes_updated_at
+  BEFORE UPDATE ON promotion_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments
+COMMENT ON TABLE coupons IS 'Percent-off or per-currency amount-off discounts with a duration';
+COMMENT ON TABLE promotion_codes IS 'Customer-facing codes that redeem a coupon, with optional redemption limit and expiry';
+COMMENT ON TABLE discounts IS 'A coupon applied to a subscription or customer; subscription discounts take precedence';
+COMMENT ON COLUMN discounts.ends_at IS 'End of a repeating discount; invoices for periods starting at or after it are not discounted';
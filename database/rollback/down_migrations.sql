@@ -35,7 +35,14 @@ DROP TABLE IF EXISTS payment_retry_schedules CASCADE;
 DROP TABLE IF EXISTS refunds CASCADE;
 DROP TABLE IF EXISTS payment_transactions CASCADE;
 
+-- Drop coupons and discounts
+DROP TABLE IF EXISTS discounts CASCADE;
+DROP TABLE IF EXISTS promotion_codes CASCADE;
+DROP TABLE IF EXISTS coupons CASCADE;
+
 -- Drop invoices
+DROP TABLE IF EXISTS pending_invoice_items CASCADE;
+DROP TABLE IF EXISTS invoice_number_sequences CASCADE;
 DROP TABLE IF EXISTS credit_notes CASCADE;
 DROP TABLE IF EXISTS invoices CASCADE;
 
@@ -44,6 +51,7 @@ DROP TABLE IF EXISTS usage_metrics CASCADE;
 DROP TABLE IF EXISTS usage_records CASCADE;
 
 -- Drop subscriptions
+DROP TABLE IF EXISTS subscription_schedules CASCADE;
 DROP TABLE IF EXISTS subscription_state_changes CASCADE;
 DROP TABLE IF EXISTS subscriptions CASCADE;
 
@@ -54,18 +62,26 @@ DROP TABLE IF EXISTS payment_methods CASCADE;
 DROP TABLE IF EXISTS customers CASCADE;
 
 -- Drop plans
+DROP TABLE IF EXISTS plans CASCADE;
 DROP TABLE IF EXISTS subscription_plans CASCADE;
 
 -- Drop payment providers
 DROP TABLE IF EXISTS payment_provider_configs CASCADE;
 
--- Drop API keys
+-- Drop idempotency keys
+DROP TABLE IF EXISTS idempotency_keys CASCADE;
+
+-- Drop API keys and dashboard sessions
+DROP TABLE IF EXISTS dashboard_sessions CASCADE;
 DROP TABLE IF EXISTS api_keys CASCADE;
 
 -- Drop applications
+DROP TABLE IF EXISTS application_audit_log CASCADE;
 DROP TABLE IF EXISTS applications CASCADE;
 
 -- Drop functions
+DROP FUNCTION IF EXISTS monthly_amount(BIGINT, VARCHAR, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS plan_price_amount(JSONB, VARCHAR, INTEGER) CASCADE;
 DROP FUNCTION IF EXISTS ensure_default_payment_method() CASCADE;
 DROP FUNCTION IF EXISTS ensure_single_default_payment_method() CASCADE;
 DROP FUNCTION IF EXISTS ensure_single_default_payment_provider() CASCADE;
@@ -1,10 +1,49 @@
--- Seed Data: Sample Subscription Plans
+-- Seed Data: Sample Plans
 -- Description: Create sample plans for each test application
 
+-- Helper: single flat price in one currency
+CREATE OR REPLACE FUNCTION pg_temp.flat_price(p_currency VARCHAR, p_amount INTEGER)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_array(jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'currency', p_currency,
+    'unit_amount', p_amount,
+    'pricing_model', 'flat'
+  ));
+$$ LANGUAGE sql;
+
+-- Helper: graduated metered price billed from a usage metric
+CREATE OR REPLACE FUNCTION pg_temp.metered_price(p_currency VARCHAR, p_metric VARCHAR, p_tiers JSONB)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_array(jsonb_build_object(
+    'id', uuid_generate_v4(),
+    'currency', p_currency,
+    'unit_amount', 0,
+    'pricing_model', 'tiered',
+    'tier_mode', 'graduated',
+    'tiers', p_tiers,
+    'metric_name', p_metric
+  ));
+$$ LANGUAGE sql;
+
+-- Define usage metrics for applications (metered prices below reference them)
+INSERT INTO usage_metrics (application_id, metric_name, display_name, unit, description, aggregation) VALUES
+  -- TaskFlow metrics
+  ('11111111-1111-1111-1111-111111111111', 'storage_gb', 'Storage', 'GB', 'Additional storage beyond plan limit', 'max'),
+  ('11111111-1111-1111-1111-111111111111', 'api_calls', 'API Calls', 'call', 'Number of API requests', 'sum'),
+  
+  -- PayServe metrics
+  ('22222222-2222-2222-2222-222222222222', 'transactions', 'Transactions', 'transaction', 'Payment transactions processed', 'sum'),
+  ('22222222-2222-2222-2222-222222222222', 'api_calls', 'API Calls', 'call', 'API requests made', 'sum'),
+  
+  -- EduPro metrics
+  ('33333333-3333-3333-3333-333333333333', 'students', 'Active Students', 'student', 'Number of active students', 'max'),
+  ('33333333-3333-3333-3333-333333333333', 'courses', 'Courses', 'course', 'Number of courses created', 'last_during_period');
+
 -- TaskFlow Plans (USD pricing)
-INSERT INTO subscription_plans (
-  application_id, plan_code, name, description, price_cents, currency, 
-  billing_interval, trial_days, features, usage_pricing, active
+INSERT INTO plans (
+  application_id, external_id, name, description, billing_interval,
+  billing_interval_count, prices, trial_period_days, features, status
 ) VALUES
   -- Free Plan
   (
@@ -12,13 +51,12 @@ INSERT INTO subscription_plans (
     'free',
     'Free',
     'Perfect for individuals getting started',
-    0,
-    'USD',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('USD', 0),
     0,
     '{"projects": 5, "users": 1, "storage_gb": 1, "support": "community"}',
-    '{}',
-    true
+    'active'
   ),
   -- Starter Plan
   (
@@ -26,13 +64,12 @@ INSERT INTO subscription_plans (
     'starter',
     'Starter',
     'For small teams',
-    2000, -- $20.00
-    'USD',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('USD', 2000), -- $20.00
     14,
     '{"projects": 25, "users": 5, "storage_gb": 10, "support": "email"}',
-    '{}',
-    true
+    'active'
   ),
   -- Pro Plan with Usage-Based Storage
   (
@@ -40,27 +77,20 @@ INSERT INTO subscription_plans (
     'pro',
     'Pro',
     'For growing teams',
-    5000, -- $50.00
-    'USD',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('USD', 5000) -- $50.00
+      || pg_temp.metered_price('USD', 'storage_gb',
+        '[{"up_to": 50, "unit_amount": 0}, {"up_to": 100, "unit_amount": 50}, {"up_to": null, "unit_amount": 30}]'),
     14,
     '{"projects": "unlimited", "users": 20, "storage_gb": 50, "support": "priority"}',
-    '{
-      "storage_gb": {
-        "tiers": [
-          {"up_to": 50, "unit_price_cents": 0},
-          {"up_to": 100, "unit_price_cents": 50},
-          {"up_to": null, "unit_price_cents": 30}
-        ]
-      }
-    }',
-    true
+    'active'
   );
 
 -- PayServe Plans (NGN pricing)
-INSERT INTO subscription_plans (
-  application_id, plan_code, name, description, price_cents, currency,
-  billing_interval, trial_days, features, usage_pricing, active
+INSERT INTO plans (
+  application_id, external_id, name, description, billing_interval,
+  billing_interval_count, prices, trial_period_days, features, status
 ) VALUES
   -- Basic Plan
   (
@@ -68,13 +98,12 @@ INSERT INTO subscription_plans (
     'basic',
     'Basic',
     'For small businesses',
-    1500000, -- ₦15,000
-    'NGN',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('NGN', 1500000), -- ₦15,000
     7,
     '{"transactions_limit": 100, "accounts": 1, "api_access": false}',
-    '{}',
-    true
+    'active'
   ),
   -- Business Plan with Transaction Fees
   (
@@ -82,22 +111,14 @@ INSERT INTO subscription_plans (
     'business',
     'Business',
     'For growing businesses',
-    5000000, -- ₦50,000
-    'NGN',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('NGN', 5000000) -- ₦50,000
+      || pg_temp.metered_price('NGN', 'transactions',
+        '[{"up_to": 1000, "unit_amount": 0}, {"up_to": 5000, "unit_amount": 10}, {"up_to": null, "unit_amount": 5}]'),
     14,
     '{"transactions_limit": 1000, "accounts": 5, "api_access": true}',
-    '{
-      "transactions": {
-        "tiers": [
-          {"up_to": 1000, "unit_price_cents": 0},
-          {"up_to": 5000, "unit_price_cents": 10},
-          {"up_to": null, "unit_price_cents": 5}
-        ],
-        "minimum_charge_cents": 0
-      }
-    }',
-    true
+    'active'
   ),
   -- Enterprise Plan
   (
@@ -105,19 +126,18 @@ INSERT INTO subscription_plans (
     'enterprise',
     'Enterprise',
     'For large organizations',
-    15000000, -- ₦150,000
-    'NGN',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('NGN', 15000000), -- ₦150,000
     30,
     '{"transactions_limit": "unlimited", "accounts": "unlimited", "api_access": true, "dedicated_support": true}',
-    '{}',
-    true
+    'active'
   );
 
 -- EduPro Plans (KES pricing)
-INSERT INTO subscription_plans (
-  application_id, plan_code, name, description, price_cents, currency,
-  billing_interval, trial_days, features, usage_pricing, active
+INSERT INTO plans (
+  application_id, external_id, name, description, billing_interval,
+  billing_interval_count, prices, trial_period_days, features, status
 ) VALUES
   -- Individual Educator
   (
@@ -125,13 +145,12 @@ INSERT INTO subscription_plans (
     'educator',
     'Educator',
     'For individual teachers',
-    200000, -- KSh 2,000
-    'KES',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('KES', 200000), -- KSh 2,000
     14,
     '{"students": 30, "courses": 5, "storage_gb": 5}',
-    '{}',
-    true
+    'active'
   ),
   -- Institution Plan with Per-Student Pricing
   (
@@ -139,38 +158,16 @@ INSERT INTO subscription_plans (
     'institution',
     'Institution',
     'For schools and institutions',
-    1000000, -- KSh 10,000 base
-    'KES',
-    'monthly',
+    'month',
+    1,
+    pg_temp.flat_price('KES', 1000000) -- KSh 10,000 base
+      || pg_temp.metered_price('KES', 'students',
+        '[{"up_to": 100, "unit_amount": 0}, {"up_to": 500, "unit_amount": 5000}, {"up_to": null, "unit_amount": 3000}]'),
     30,
     '{"students": 100, "courses": "unlimited", "storage_gb": 100, "teachers": 10}',
-    '{
-      "students": {
-        "tiers": [
-          {"up_to": 100, "unit_price_cents": 0},
-          {"up_to": 500, "unit_price_cents": 5000},
-          {"up_to": null, "unit_price_cents": 3000}
-        ],
-        "minimum_charge_cents": 0
-      }
-    }',
-    true
+    'active'
   );
 
--- Define usage metrics for applications
-INSERT INTO usage_metrics (application_id, metric_name, display_name, unit, description) VALUES
-  -- TaskFlow metrics
-  ('11111111-1111-1111-1111-111111111111', 'storage_gb', 'Storage', 'GB', 'Additional storage beyond plan limit'),
-  ('11111111-1111-1111-1111-111111111111', 'api_calls', 'API Calls', 'call', 'Number of API requests'),
-  
-  -- PayServe metrics
-  ('22222222-2222-2222-2222-222222222222', 'transactions', 'Transactions', 'transaction', 'Payment transactions processed'),
-  ('22222222-2222-2222-2222-222222222222', 'api_calls', 'API Calls', 'call', 'API requests made'),
-  
-  -- EduPro metrics
-  ('33333333-3333-3333-3333-333333333333', 'students', 'Active Students', 'student', 'Number of active students'),
-  ('33333333-3333-3333-3333-333333333333', 'courses', 'Courses', 'course', 'Number of courses created');
-
 -- Insert default dunning configurations
 INSERT INTO dunning_configs (
   application_id, retry_schedule, send_emails, suspend_after_attempts, cancel_after_days
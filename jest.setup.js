@@ -0,0 +1,10 @@
+// src/config/env.ts requires these at import time. Specs never reach a
+// database: services get a fake PoolClient and the pool is never connected.
+const os = require('os');
+const path = require('path');
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/xbs_test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+process.env.ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'test-encryption-key';
+process.env.LOG_LEVEL = 'error';
+process.env.LOG_FILE_PATH = path.join(os.tmpdir(), 'xbs-test', 'xbs.log');
@@ -7,7 +7,21 @@ import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import healthRoutes from './routes/health.routes';
 import customersRoutes from './routes/customers.routes';
 import plansRoutes from './routes/plans.routes';
-//import { env } from './config/env';
+import subscriptionsRoutes from './routes/subscriptions.routes';
+import subscriptionSchedulesRoutes from './routes/subscriptionSchedules.routes';
+import couponsRoutes from './routes/coupons.routes';
+import promotionCodesRoutes from './routes/promotionCodes.routes';
+import invoicesRoutes from './routes/invoices.routes';
+import usageMetricsRoutes from './routes/usageMetrics.routes';
+import paymentProvidersRoutes from './routes/paymentProviders.routes';
+import dunningRoutes from './routes/dunning.routes';
+import webhookEndpointsRoutes from './routes/webhookEndpoints.routes';
+import eventsRoutes from './routes/events.routes';
+import providerWebhooksRoutes from './routes/providerWebhooks.routes';
+import apiKeysRoutes from './routes/apiKeys.routes';
+import authRoutes from './routes/auth.routes';
+import applicationRoutes from './routes/application.routes';
+import { env } from './config/env';
 import { logger } from './utils/logger';
 
 /**
@@ -17,6 +31,11 @@ import { logger } from './utils/logger';
 export function createApp(): Application {
   const app = express();
 
+  // Only honour X-Forwarded-For from trusted proxies (addresses, CIDR ranges
+  // or loopback/linklocal/uniquelocal); with none configured req.ip is the
+  // socket address
+  app.set('trust proxy', env.TRUSTED_PROXIES.length > 0 ? env.TRUSTED_PROXIES : false);
+
   // ============================================================================
   // MIDDLEWARE
   // ============================================================================
@@ -30,7 +49,9 @@ export function createApp(): Application {
   // CORS
   app.use(corsMiddleware);
 
-  // Body parsing
+  // Body parsing (provider webhooks keep the raw body for signature checks;
+  // the JSON parser skips bodies that are already parsed)
+  app.use('/v1/provider_webhooks', express.raw({ type: '*/*', limit: '1mb' }));
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -50,6 +71,46 @@ export function createApp(): Application {
   // Plan management routes
   app.use('/v1/plans', plansRoutes);
 
+  // Subscription management routes
+  app.use('/v1/subscriptions', subscriptionsRoutes);
+
+  // Subscription schedule routes
+  app.use('/v1/subscription_schedules', subscriptionSchedulesRoutes);
+
+  // Coupon and promotion code routes
+  app.use('/v1/coupons', couponsRoutes);
+  app.use('/v1/promotion_codes', promotionCodesRoutes);
+
+  // Invoice management routes
+  app.use('/v1/invoices', invoicesRoutes);
+
+  // Usage metric definitions
+  app.use('/v1/usage_metrics', usageMetricsRoutes);
+
+  // Payment provider configuration routes
+  app.use('/v1/payment_providers', paymentProvidersRoutes);
+
+  // Dunning configuration routes
+  app.use('/v1/dunning_config', dunningRoutes);
+
+  // Webhook endpoint management routes
+  app.use('/v1/webhook_endpoints', webhookEndpointsRoutes);
+
+  // Event log and redelivery routes
+  app.use('/v1/events', eventsRoutes);
+
+  // Inbound payment provider webhooks
+  app.use('/v1/provider_webhooks', providerWebhooksRoutes);
+
+  // API key management routes
+  app.use('/v1/api_keys', apiKeysRoutes);
+
+  // Dashboard authentication routes
+  app.use('/v1/auth', authRoutes);
+
+  // Application settings routes
+  app.use('/v1/application', applicationRoutes);
+
   // API version prefix for future routes
   // app.use(`/${env.API_VERSION}`, apiRoutes);
 
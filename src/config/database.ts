@@ -81,6 +81,25 @@ class Database {
     return client;
   }
 
+  /**
+   * Run a callback inside a transaction
+   * Commits on success, rolls back and rethrows on error
+   */
+  public async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getClient();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Test database connection
    */
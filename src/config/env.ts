@@ -22,6 +22,7 @@ interface EnvironmentConfig {
   // API
   API_VERSION: string;
   API_RATE_LIMIT: number;
+  IDEMPOTENCY_KEY_TTL_HOURS: number;
 
   // Logging
   LOG_LEVEL: string;
@@ -29,12 +30,33 @@ interface EnvironmentConfig {
 
   // Security
   JWT_SECRET: string;
+  JWT_ACCESS_TTL_SECONDS: number;
+  DASHBOARD_SESSION_TTL_DAYS: number;
   ENCRYPTION_KEY: string;
   API_KEY_SALT_ROUNDS: number;
+  API_KEY_ROTATION_GRACE_HOURS: number;
+  API_KEY_CACHE_TTL_MS: number;
+  TRUSTED_PROXIES: string[];
 
   // CORS
   CORS_ORIGIN: string;
   CORS_CREDENTIALS: boolean;
+
+  // Payment providers
+  PAYMENT_PROVIDER_FAKE: boolean;
+  PAYMENT_PROVIDER_TIMEOUT_MS: number;
+
+  // Workers
+  WORKERS_ENABLED: boolean;
+  RENEWAL_WORKER_INTERVAL_MS: number;
+  RENEWAL_WORKER_BATCH_SIZE: number;
+  DUNNING_WORKER_INTERVAL_MS: number;
+  DUNNING_WORKER_BATCH_SIZE: number;
+  WEBHOOK_WORKER_INTERVAL_MS: number;
+  WEBHOOK_WORKER_BATCH_SIZE: number;
+  WEBHOOK_TIMEOUT_MS: number;
+  WEBHOOK_ALLOW_PRIVATE_URLS: boolean;
+  IDEMPOTENCY_CLEANUP_INTERVAL_MS: number;
 }
 
 /**
@@ -67,16 +89,39 @@ function validateEnv(): EnvironmentConfig {
 
     API_VERSION: process.env.API_VERSION || 'v1',
     API_RATE_LIMIT: parseInt(process.env.API_RATE_LIMIT || '100', 10),
+    IDEMPOTENCY_KEY_TTL_HOURS: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
 
     LOG_LEVEL: process.env.LOG_LEVEL || 'info',
     LOG_FILE_PATH: process.env.LOG_FILE_PATH || './logs/xbs.log',
 
     JWT_SECRET: process.env.JWT_SECRET!,
+    JWT_ACCESS_TTL_SECONDS: parseInt(process.env.JWT_ACCESS_TTL_SECONDS || '900', 10),
+    DASHBOARD_SESSION_TTL_DAYS: parseInt(process.env.DASHBOARD_SESSION_TTL_DAYS || '30', 10),
     ENCRYPTION_KEY: process.env.ENCRYPTION_KEY!,
     API_KEY_SALT_ROUNDS: parseInt(process.env.API_KEY_SALT_ROUNDS || '10', 10),
+    API_KEY_ROTATION_GRACE_HOURS: parseInt(process.env.API_KEY_ROTATION_GRACE_HOURS || '24', 10),
+    API_KEY_CACHE_TTL_MS: parseInt(process.env.API_KEY_CACHE_TTL_MS || '30000', 10),
+    TRUSTED_PROXIES: (process.env.TRUSTED_PROXIES || '')
+      .split(',')
+      .map((proxy) => proxy.trim())
+      .filter(Boolean),
 
     CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
-    CORS_CREDENTIALS: process.env.CORS_CREDENTIALS === 'true'
+    CORS_CREDENTIALS: process.env.CORS_CREDENTIALS === 'true',
+
+    PAYMENT_PROVIDER_FAKE: process.env.PAYMENT_PROVIDER_FAKE === 'true',
+    PAYMENT_PROVIDER_TIMEOUT_MS: parseInt(process.env.PAYMENT_PROVIDER_TIMEOUT_MS || '30000', 10),
+
+    WORKERS_ENABLED: process.env.WORKERS_ENABLED !== 'false',
+    RENEWAL_WORKER_INTERVAL_MS: parseInt(process.env.RENEWAL_WORKER_INTERVAL_MS || '60000', 10),
+    RENEWAL_WORKER_BATCH_SIZE: parseInt(process.env.RENEWAL_WORKER_BATCH_SIZE || '50', 10),
+    DUNNING_WORKER_INTERVAL_MS: parseInt(process.env.DUNNING_WORKER_INTERVAL_MS || '60000', 10),
+    DUNNING_WORKER_BATCH_SIZE: parseInt(process.env.DUNNING_WORKER_BATCH_SIZE || '50', 10),
+    WEBHOOK_WORKER_INTERVAL_MS: parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '5000', 10),
+    WEBHOOK_WORKER_BATCH_SIZE: parseInt(process.env.WEBHOOK_WORKER_BATCH_SIZE || '50', 10),
+    WEBHOOK_TIMEOUT_MS: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    WEBHOOK_ALLOW_PRIVATE_URLS: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+    IDEMPOTENCY_CLEANUP_INTERVAL_MS: parseInt(process.env.IDEMPOTENCY_CLEANUP_INTERVAL_MS || '3600000', 10)
   };
 }
 
@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { AuthContext } from '../services/authService';
+import { AuthorizationError } from '../utils/errors';
+import { requirePermission } from './authenticate';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() },
+}));
+
+function auth(overrides: Partial<AuthContext>): AuthContext {
+  return {
+    application_id: '11111111-1111-1111-1111-111111111111',
+    api_key_id: '22222222-2222-2222-2222-222222222222',
+    session_id: null,
+    key_type: 'rk',
+    key_role: 'restricted',
+    permissions: null,
+    test_mode: true,
+    default_currency: 'NGN',
+    timezone: 'Africa/Lagos',
+    webhook_url: null,
+    webhook_secret: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Run the middleware for one request and return what it passed to next()
+ */
+function run(resource: Parameters<typeof requirePermission>[0], method: string, path: string, context: AuthContext) {
+  const req = { method, baseUrl: '/v1', path, auth: context } as unknown as Request;
+  const next = jest.fn();
+  requirePermission(resource)(req, {} as Response, next);
+  return next.mock.calls[0][0];
+}
+
+describe('requirePermission', () => {
+  it('lets restricted keys read with a read permission but not write', () => {
+    const context = auth({ permissions: ['invoices:read'] });
+
+    expect(run('invoices', 'GET', '/invoices', context)).toBeUndefined();
+    expect(run('invoices', 'POST', '/invoices', context)).toEqual(
+      new AuthorizationError('This restricted key does not have the invoices:write permission')
+    );
+  });
+
+  it('refuses restricted keys resources they were not granted', () => {
+    const context = auth({ permissions: ['customers:write'] });
+
+    expect(run('invoices', 'GET', '/invoices', context)).toBeInstanceOf(AuthorizationError);
+  });
+
+  it('gives secret keys full access', () => {
+    expect(run('invoices', 'DELETE', '/invoices/inv_1', auth({ key_type: 'sk', key_role: 'secret' }))).toBeUndefined();
+  });
+
+  it('limits publishable keys to the allowlisted endpoints', () => {
+    const context = auth({ key_type: 'pk', key_role: 'publishable' });
+
+    expect(run('plans', 'GET', '/plans', context)).toBeUndefined();
+    expect(run('plans', 'POST', '/plans', context)).toEqual(
+      new AuthorizationError('Publishable keys cannot access this endpoint')
+    );
+  });
+});
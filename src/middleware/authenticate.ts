@@ -4,10 +4,21 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { validateApiKey, AuthContext } from '../services/authService';
-import { AuthenticationError } from '../utils/errors';
+import { validateApiKey, hasPermission, AuthContext, PermissionResource } from '../services/authService';
+import { validateAccessToken } from '../services/dashboardAuthService';
+import { AuthenticationError, AuthorizationError, ValidationError } from '../utils/errors';
+import { getClientIp } from '../utils/ip';
+import { isJwt } from '../utils/jwt';
 import logger from '../config/logger';
 
+// Endpoints publishable keys may call; everything else needs a secret or
+// suitably restricted key. Paths are matched against baseUrl + path.
+const PUBLISHABLE_KEY_ALLOWLIST: Array<{ method: string; path: RegExp }> = [
+  { method: 'GET', path: /^\/v1\/plans\/?$/ },
+  { method: 'GET', path: /^\/v1\/plans\/(external\/)?[^/]+\/?$/ },
+  { method: 'POST', path: /^\/v1\/plans\/[^/]+\/calculate\/?$/ },
+];
+
 /**
  * Extract Bearer token from Authorization header
  */
@@ -22,19 +33,26 @@ function extractBearerToken(req: Request): string | null {
 }
 
 /**
- * Get client IP address
+ * Resolve the bearer token to an auth context
+ * API keys carry their own mode; dashboard access tokens (JWTs) pick it with
+ * the XBS-Mode header (test unless set to live)
  */
-function getClientIp(req: Request): string {
-  const forwarded = req.headers['x-forwarded-for'];
-  if (typeof forwarded === 'string') {
-    return forwarded.split(',')[0].trim();
+async function resolveAuthContext(req: Request, token: string): Promise<AuthContext> {
+  if (!isJwt(token)) {
+    return validateApiKey(token, getClientIp(req));
+  }
+
+  const mode = req.headers['xbs-mode'];
+  if (mode !== undefined && mode !== 'test' && mode !== 'live') {
+    throw new ValidationError("XBS-Mode header must be 'test' or 'live'");
   }
-  return req.ip || req.socket.remoteAddress || 'unknown';
+
+  return validateAccessToken(token, mode !== 'live');
 }
 
 /**
  * Main authentication middleware
- * Requires valid API key, injects req.auth
+ * Requires valid API key or dashboard access token, injects req.auth
  */
 export async function authenticate(
   req: Request,
@@ -48,8 +66,7 @@ export async function authenticate(
       throw new AuthenticationError('Missing API key. Include Authorization: Bearer <api_key>');
     }
 
-    const clientIp = getClientIp(req);
-    const authContext = await validateApiKey(token, clientIp);
+    const authContext = await resolveAuthContext(req, token);
 
     // Inject into request
     req.auth = authContext;
@@ -80,8 +97,7 @@ export async function optionalAuth(
     const token = extractBearerToken(req);
 
     if (token) {
-      const clientIp = getClientIp(req);
-      const authContext = await validateApiKey(token, clientIp);
+      const authContext = await resolveAuthContext(req, token);
       req.auth = authContext;
       req.testMode = authContext.test_mode;
     }
@@ -156,10 +172,51 @@ export function scopedAuth(options: {
   };
 }
 
+/**
+ * Per-resource access control
+ * Secret keys have full access, restricted keys need `<resource>:read` (GET)
+ * or `<resource>:write` (anything else), publishable keys are limited to
+ * PUBLISHABLE_KEY_ALLOWLIST
+ */
+export function requirePermission(resource: PermissionResource) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      return next(new AuthenticationError('Authentication required'));
+    }
+
+    const access = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+
+    switch (req.auth.key_type) {
+      case 'sk':
+        return next();
+
+      case 'rk':
+        if (!hasPermission(req.auth.permissions, resource, access)) {
+          return next(
+            new AuthorizationError(`This restricted key does not have the ${resource}:${access} permission`)
+          );
+        }
+        return next();
+
+      default: {
+        const path = req.baseUrl + req.path;
+        const allowed = PUBLISHABLE_KEY_ALLOWLIST.some(
+          (entry) => entry.method === req.method && entry.path.test(path)
+        );
+        if (!allowed) {
+          return next(new AuthorizationError('Publishable keys cannot access this endpoint'));
+        }
+        return next();
+      }
+    }
+  };
+}
+
 export default {
   authenticate,
   optionalAuth,
   requireSecretKey,
   requireLiveMode,
   scopedAuth,
+  requirePermission,
 };
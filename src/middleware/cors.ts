@@ -28,13 +28,16 @@ export const corsMiddleware = cors({
     'Authorization',
     'X-Requested-With',
     'X-Correlation-ID',
-    'X-API-Version'
+    'X-API-Version',
+    'XBS-Mode',
+    'Idempotency-Key'
   ],
   exposedHeaders: [
     'X-Correlation-ID',
     'X-RateLimit-Limit',
     'X-RateLimit-Remaining',
-    'X-RateLimit-Reset'
+    'X-RateLimit-Reset',
+    'Idempotent-Replayed'
   ],
   maxAge: 86400 // 24 hours
 });
@@ -0,0 +1,81 @@
+/**
+ * Idempotency Middleware
+ * Makes mutating requests safe to retry with an Idempotency-Key header
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import idempotencyService from '../services/idempotencyService';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+const MAX_KEY_LENGTH = 255;
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Replay the stored response for a repeated Idempotency-Key, or record the
+ * response of the first request. Must run after authentication: keys are
+ * scoped to the application and mode. Server errors (5xx) are not stored, so
+ * the request can be retried with the same key.
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const key = req.header('Idempotency-Key');
+
+  if (key === undefined || SAFE_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  try {
+    if (!req.auth) {
+      throw new AuthenticationError('Authentication required');
+    }
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const scope = {
+      application_id: req.auth.application_id,
+      test_mode: req.auth.test_mode,
+      key,
+    };
+
+    const result = await idempotencyService.begin({
+      ...scope,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      body: req.body,
+    });
+
+    if (result.replay) {
+      res.set('Idempotent-Replayed', 'true');
+      res.status(result.status).json(result.body);
+      return;
+    }
+
+    // Persist the response before it is sent, so a retry arriving right
+    // after this response never sees the key as still processing
+    const sendJson = res.json.bind(res);
+    res.json = (body?: any): Response => {
+      const settle = res.statusCode >= 500
+        ? idempotencyService.release(scope)
+        : idempotencyService.complete(scope, res.statusCode, body);
+
+      settle
+        .catch((error) => {
+          logger.error('Failed to record idempotent response', { key, error: (error as Error).message });
+        })
+        .finally(() => sendJson(body));
+
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default idempotency;
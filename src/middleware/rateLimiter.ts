@@ -6,6 +6,7 @@
 import rateLimit from 'express-rate-limit';
 import { Request, Response } from 'express';
 import logger from '../config/logger';
+import { getClientIp } from '../utils/ip';
 
 /**
  * Generate rate limit key based on application
@@ -15,11 +16,7 @@ function getApplicationKey(req: Request): string {
     return `app:${req.auth.application_id}:${req.auth.key_type}`;
   }
   // Fallback to IP for unauthenticated requests
-  const forwarded = req.headers['x-forwarded-for'];
-  const ip = typeof forwarded === 'string'
-    ? forwarded.split(',')[0].trim()
-    : req.ip || 'unknown';
-  return `ip:${ip}`;
+  return `ip:${getClientIp(req)}`;
 }
 
 /**
@@ -87,14 +84,9 @@ export const authRateLimiter = rateLimit({
   max: 20,
   standardHeaders: true,
   legacyHeaders: false,
-  keyGenerator: (req: Request) => {
-    const forwarded = req.headers['x-forwarded-for'];
-    return typeof forwarded === 'string'
-      ? forwarded.split(',')[0].trim()
-      : req.ip || 'unknown';
-  },
+  keyGenerator: (req: Request) => getClientIp(req),
   handler: (req: Request, res: Response) => {
-    logger.warn('Auth rate limit exceeded', { ip: req.ip });
+    logger.warn('Auth rate limit exceeded', { ip: getClientIp(req) });
     res.status(429).json({
       error: {
         type: 'rate_limit_error',
@@ -0,0 +1,182 @@
+/**
+ * Fake Provider
+ * In-process provider for offline development and tests. Outcomes are driven
+ * by the payment method id:
+ *   contains "decline"      → failed (card_declined)
+ *   contains "insufficient" → failed (insufficient_funds)
+ *   contains "pending"      → pending
+ *   contains "error"        → throws ExternalServiceError (provider outage)
+ *   anything else           → succeeded
+ * Charges are idempotent per reference, like the real providers.
+ * Webhooks are signed with a secret generated per process, so only code in
+ * this process (signFakeWebhook) can produce events the provider accepts.
+ */
+
+import crypto from 'crypto';
+import {
+  ChargeParams,
+  ChargeResult,
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  ProviderWebhookEventType,
+  RefundParams,
+  RefundResult,
+  TokenizeParams,
+  TokenizedPaymentMethod,
+  WebhookHeaders,
+} from './types';
+import { getHeader, parseJsonBody, verifyHmac } from './http';
+import { ExternalServiceError } from '../utils/errors';
+
+export interface FakeCredentials {
+  webhook_secret?: string;
+}
+
+const FAKE_WEBHOOK_SECRET = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// Shared across instances so verify/refund see charges made by another resolution
+const charges = new Map<string, ChargeResult>();
+const refundedCents = new Map<string, number>();
+
+const KNOWN_EVENT_TYPES: ProviderWebhookEventType[] = [
+  'charge.succeeded', 'charge.failed', 'refund.succeeded', 'refund.failed',
+  'dispute.created', 'dispute.closed',
+];
+
+/**
+ * Clear recorded charges and refunds
+ */
+export function resetFakeProvider(): void {
+  charges.clear();
+  refundedCents.clear();
+}
+
+/**
+ * Sign a payload the way parseWebhook expects (for simulating webhooks)
+ */
+export function signFakeWebhook(rawBody: string, secret: string = FAKE_WEBHOOK_SECRET): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+function outcomeFor(paymentMethodId: string): Pick<ChargeResult, 'status' | 'failure_code' | 'failure_message'> {
+  if (paymentMethodId.includes('error')) {
+    throw new ExternalServiceError('fake provider unavailable', 'PROVIDER_UNAVAILABLE');
+  }
+  if (paymentMethodId.includes('decline')) {
+    return { status: 'failed', failure_code: 'card_declined', failure_message: 'Your card was declined' };
+  }
+  if (paymentMethodId.includes('insufficient')) {
+    return { status: 'failed', failure_code: 'insufficient_funds', failure_message: 'Insufficient funds' };
+  }
+  if (paymentMethodId.includes('pending')) {
+    return { status: 'pending', failure_code: null, failure_message: null };
+  }
+  return { status: 'succeeded', failure_code: null, failure_message: null };
+}
+
+export function createFakeProvider(credentials: FakeCredentials = {}): PaymentProvider {
+  const webhookSecret = credentials.webhook_secret || FAKE_WEBHOOK_SECRET;
+
+  return {
+    name: 'fake',
+
+    async charge(params: ChargeParams): Promise<ChargeResult> {
+      const existing = charges.get(params.reference);
+      if (existing) return existing;
+
+      const outcome = outcomeFor(params.payment_method.provider_payment_method_id);
+      const result: ChargeResult = {
+        ...outcome,
+        provider_transaction_id: `fake_tx_${crypto.randomBytes(8).toString('hex')}`,
+        amount_cents: params.amount_cents,
+        currency: params.currency,
+        raw: { provider: 'fake', reference: params.reference, status: outcome.status },
+      };
+
+      charges.set(params.reference, result);
+      return result;
+    },
+
+    async refund(params: RefundParams): Promise<RefundResult> {
+      const charge = Array.from(charges.values()).find(
+        (c) => c.provider_transaction_id === params.provider_transaction_id && c.status === 'succeeded'
+      );
+      const alreadyRefunded = refundedCents.get(params.provider_transaction_id) || 0;
+
+      if (!charge || alreadyRefunded + params.amount_cents > charge.amount_cents) {
+        return {
+          status: 'failed',
+          provider_refund_id: null,
+          failure_message: charge ? 'Refund exceeds charge amount' : 'Charge not found',
+          raw: { provider: 'fake' },
+        };
+      }
+
+      refundedCents.set(params.provider_transaction_id, alreadyRefunded + params.amount_cents);
+      return {
+        status: 'succeeded',
+        provider_refund_id: `fake_re_${crypto.randomBytes(8).toString('hex')}`,
+        failure_message: null,
+        raw: { provider: 'fake', reference: params.reference },
+      };
+    },
+
+    async tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod> {
+      return {
+        provider_payment_method_id: `fake_pm_${params.token}`,
+        type: params.type || 'card',
+        card_brand: 'visa',
+        card_last4: '4242',
+        card_exp_month: 12,
+        card_exp_year: new Date().getUTCFullYear() + 3,
+        card_fingerprint: crypto.createHash('sha256').update(params.token).digest('hex').slice(0, 16),
+        metadata: {},
+        raw: { provider: 'fake', token: params.token },
+      };
+    },
+
+    async testConnection(): Promise<ConnectionTestResult> {
+      return { ok: true, message: null };
+    },
+
+    async verify(reference: string): Promise<ChargeResult> {
+      return charges.get(reference) || {
+        status: 'failed',
+        provider_transaction_id: null,
+        amount_cents: 0,
+        currency: '',
+        failure_code: 'not_found',
+        failure_message: 'Charge not found',
+        raw: { provider: 'fake' },
+      };
+    },
+
+    parseWebhook(rawBody: Buffer, webhookHeaders: WebhookHeaders): ProviderWebhookEvent {
+      verifyHmac('fake', 'sha256', webhookSecret, rawBody, getHeader(webhookHeaders, 'x-fake-signature'));
+
+      const payload = parseJsonBody('fake', rawBody);
+      const data = payload.data || {};
+
+      return {
+        provider: 'fake',
+        type: KNOWN_EVENT_TYPES.includes(payload.type) ? payload.type : 'unknown',
+        provider_event_id: payload.id,
+        provider_event_type: payload.type,
+        provider_transaction_id: data.transaction_id || null,
+        reference: data.reference || null,
+        amount_cents: typeof data.amount === 'number' ? data.amount : null,
+        currency: data.currency || null,
+        failure_code: data.failure_code || null,
+        failure_message: data.failure_message || null,
+        provider_refund_id: data.refund_id || null,
+        provider_dispute_id: data.dispute_id || null,
+        dispute_reason: data.reason || null,
+        dispute_outcome: data.outcome || null,
+        data: payload,
+      };
+    },
+  };
+}
+
+export default createFakeProvider;
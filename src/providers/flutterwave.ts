@@ -0,0 +1,210 @@
+/**
+ * Flutterwave Adapter
+ * Charges saved card tokens via tokenized-charges (v3 API, decimal amounts).
+ * Docs: https://developer.flutterwave.com/docs
+ */
+
+import {
+  ChargeParams,
+  ChargeResult,
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  ProviderWebhookEventType,
+  RefundParams,
+  RefundResult,
+  TokenizeParams,
+  TokenizedPaymentMethod,
+  WebhookHeaders,
+} from './types';
+import {
+  getHeader,
+  parseJsonBody,
+  providerRequest,
+  safeCompare,
+  toConnectionTestResult,
+  toMajorUnits,
+  toMinorUnits,
+} from './http';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+
+export interface FlutterwaveCredentials {
+  secret_key: string;
+  webhook_hash?: string; // "Secret hash" set on the Flutterwave dashboard
+}
+
+const BASE_URL = 'https://api.flutterwave.com/v3';
+
+/**
+ * Map a Flutterwave transaction object to a charge result
+ */
+function toChargeResult(body: any, fallbackAmount: number, fallbackCurrency: string): ChargeResult {
+  const data = body?.data || {};
+  const status = data.status === 'successful'
+    ? 'succeeded'
+    : data.status === 'pending'
+      ? 'pending'
+      : 'failed';
+  const currency = data.currency || fallbackCurrency;
+
+  return {
+    status,
+    provider_transaction_id: data.id ? String(data.id) : null,
+    amount_cents: typeof data.amount === 'number' ? toMinorUnits(data.amount, currency) : fallbackAmount,
+    currency,
+    failure_code: status === 'failed' ? data.status || 'charge_failed' : null,
+    failure_message: status === 'failed'
+      ? data.processor_response || body?.message || 'Charge failed'
+      : null,
+    raw: body,
+  };
+}
+
+/**
+ * Map Flutterwave event names (and charge status) to normalized event types
+ */
+function toEventType(event: string, data: any): ProviderWebhookEventType {
+  if (event === 'charge.completed') {
+    return data.status === 'successful' ? 'charge.succeeded' : 'charge.failed';
+  }
+  if (event === 'refund.completed') {
+    return data.status === 'completed' ? 'refund.succeeded' : 'refund.failed';
+  }
+  return 'unknown';
+}
+
+export function createFlutterwaveProvider(credentials: FlutterwaveCredentials): PaymentProvider {
+  if (!credentials.secret_key) {
+    throw new ValidationError('Flutterwave credentials require secret_key');
+  }
+
+  const headers = { Authorization: `Bearer ${credentials.secret_key}` };
+
+  return {
+    name: 'flutterwave',
+
+    async charge(params: ChargeParams): Promise<ChargeResult> {
+      const response = await providerRequest('flutterwave', `${BASE_URL}/tokenized-charges`, {
+        method: 'POST',
+        headers,
+        json: {
+          token: params.payment_method.provider_payment_method_id,
+          email: params.customer.email,
+          amount: toMajorUnits(params.amount_cents, params.currency),
+          currency: params.currency,
+          tx_ref: params.reference,
+          narration: params.description,
+          meta: { ...params.metadata, xbs_customer_id: params.customer.id },
+        },
+      });
+
+      return toChargeResult(response.body, params.amount_cents, params.currency);
+    },
+
+    async refund(params: RefundParams): Promise<RefundResult> {
+      const response = await providerRequest(
+        'flutterwave',
+        `${BASE_URL}/transactions/${encodeURIComponent(params.provider_transaction_id)}/refund`,
+        {
+          method: 'POST',
+          headers,
+          json: {
+            amount: toMajorUnits(params.amount_cents, params.currency),
+            comments: params.reason,
+          },
+        }
+      );
+
+      const data = response.body?.data || {};
+      const failed = !response.ok || response.body?.status !== 'success';
+      return {
+        status: failed ? 'failed' : data.status === 'completed' ? 'succeeded' : 'pending',
+        provider_refund_id: data.id ? String(data.id) : null,
+        failure_message: failed ? response.body?.message || 'Refund failed' : null,
+        raw: response.body,
+      };
+    },
+
+    async tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod> {
+      // The card token is issued with the customer's first successful transaction (by id)
+      const response = await providerRequest(
+        'flutterwave',
+        `${BASE_URL}/transactions/${encodeURIComponent(params.token)}/verify`,
+        { headers }
+      );
+
+      const card = response.body?.data?.card;
+      if (!response.ok || !card?.token) {
+        throw new ValidationError('Flutterwave transaction has no reusable card token');
+      }
+
+      const [expMonth, expYear] = String(card.expiry || '').split('/');
+      return {
+        provider_payment_method_id: card.token,
+        type: 'card',
+        card_brand: card.type || null,
+        card_last4: card.last_4digits || null,
+        card_exp_month: expMonth ? parseInt(expMonth, 10) : null,
+        card_exp_year: expYear ? 2000 + parseInt(expYear, 10) : null,
+        card_fingerprint: card.first_6digits && card.last_4digits
+          ? `${card.first_6digits}${card.last_4digits}${card.expiry || ''}`
+          : null,
+        metadata: { issuer: card.issuer || null, country: card.country || null },
+        raw: response.body,
+      };
+    },
+
+    async testConnection(): Promise<ConnectionTestResult> {
+      const response = await providerRequest('flutterwave', `${BASE_URL}/balances`, { headers });
+      return toConnectionTestResult(response);
+    },
+
+    async verify(reference: string): Promise<ChargeResult> {
+      const response = await providerRequest(
+        'flutterwave',
+        `${BASE_URL}/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+        { headers }
+      );
+
+      return toChargeResult(response.body, 0, '');
+    },
+
+    parseWebhook(rawBody: Buffer, webhookHeaders: WebhookHeaders): ProviderWebhookEvent {
+      // Flutterwave echoes the dashboard secret hash in the verif-hash header
+      const signature = getHeader(webhookHeaders, 'verif-hash');
+      if (!credentials.webhook_hash || !signature || !safeCompare(signature, credentials.webhook_hash)) {
+        throw new AuthenticationError('Invalid flutterwave webhook signature', 'INVALID_SIGNATURE');
+      }
+
+      const payload = parseJsonBody('flutterwave', rawBody);
+      const data = payload.data || {};
+      const event = payload.event || payload['event.type'] || '';
+      const type = toEventType(event, data);
+      const currency = data.currency || null;
+      const isRefund = type === 'refund.succeeded' || type === 'refund.failed';
+      const amount = isRefund ? data.amount_refunded ?? data.amount : data.amount;
+
+      return {
+        provider: 'flutterwave',
+        type,
+        provider_event_id: `${event}:${data.id}:${data.status}`,
+        provider_event_type: event,
+        provider_transaction_id: isRefund
+          ? (data.tx_id ? String(data.tx_id) : null)
+          : (data.id ? String(data.id) : null),
+        reference: data.tx_ref || null,
+        amount_cents: typeof amount === 'number' && currency ? toMinorUnits(amount, currency) : null,
+        currency,
+        failure_code: type === 'charge.failed' ? data.status || 'charge_failed' : null,
+        failure_message: type === 'charge.failed' ? data.processor_response || null : null,
+        provider_refund_id: isRefund && data.id ? String(data.id) : null,
+        provider_dispute_id: null,
+        dispute_reason: null,
+        dispute_outcome: null,
+        data: payload,
+      };
+    },
+  };
+}
+
+export default createFlutterwaveProvider;
@@ -0,0 +1,166 @@
+/**
+ * Provider HTTP helpers
+ * Shared request, signature and amount utilities for provider adapters
+ */
+
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { AuthenticationError, ExternalServiceError, ValidationError } from '../utils/errors';
+import { ConnectionTestResult, ProviderName, WebhookHeaders } from './types';
+
+export interface ProviderResponse {
+  status: number;
+  ok: boolean;
+  body: any;
+}
+
+export interface ProviderRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  json?: any;
+  form?: Record<string, string | number | boolean | undefined>;
+}
+
+// Currencies without a minor unit (amounts are already whole units)
+const ZERO_DECIMAL_CURRENCIES = ['XOF', 'XAF', 'JPY', 'KRW', 'UGX', 'RWF'];
+
+/**
+ * Call a provider API with a timeout. Redirects are not followed, so requests
+ * only reach the adapter's fixed API host.
+ * Network failures, timeouts and 5xx responses throw ExternalServiceError;
+ * 4xx responses are returned so adapters can map declines to failed results.
+ */
+export async function providerRequest(
+  provider: ProviderName,
+  url: string,
+  options: ProviderRequestOptions = {}
+): Promise<ProviderResponse> {
+  const headers: Record<string, string> = { Accept: 'application/json', ...options.headers };
+  let body: string | undefined;
+
+  if (options.json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(options.json);
+  } else if (options.form) {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    const params = new URLSearchParams();
+    Object.entries(options.form).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+    body = params.toString();
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: options.method || 'GET',
+      headers,
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(env.PAYMENT_PROVIDER_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExternalServiceError(`${provider} request failed: ${reason}`, 'PROVIDER_UNAVAILABLE');
+  }
+
+  const text = await response.text();
+  let parsed: any = null;
+  if (text) {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = { raw: text };
+    }
+  }
+
+  if (response.status >= 500) {
+    throw new ExternalServiceError(
+      `${provider} returned HTTP ${response.status}`,
+      'PROVIDER_UNAVAILABLE'
+    );
+  }
+
+  return { status: response.status, ok: response.ok, body: parsed };
+}
+
+/**
+ * Interpret a read-only credential check (any 2xx means the key works)
+ */
+export function toConnectionTestResult(response: ProviderResponse): ConnectionTestResult {
+  if (response.ok) {
+    return { ok: true, message: null };
+  }
+
+  const body = response.body || {};
+  const message = body.error?.message || body.message || `HTTP ${response.status}`;
+  return { ok: false, message: String(message) };
+}
+
+/**
+ * Convert smallest-unit amounts to the decimal amounts some providers expect
+ */
+export function toMajorUnits(amountCents: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? amountCents : amountCents / 100;
+}
+
+/**
+ * Convert provider decimal amounts back to the smallest currency unit
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+/**
+ * Read a header case-insensitively (Express lowercases, tests may not)
+ */
+export function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  const key = Object.keys(headers).find((h) => h.toLowerCase() === name.toLowerCase());
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Constant-time string comparison for signatures
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verify a hex HMAC signature of the raw body
+ */
+export function verifyHmac(
+  provider: ProviderName,
+  algorithm: 'sha256' | 'sha512',
+  secret: string | undefined,
+  rawBody: Buffer,
+  signature: string | undefined
+): void {
+  if (!secret) {
+    throw new AuthenticationError(`${provider} webhook secret is not configured`, 'INVALID_SIGNATURE');
+  }
+  if (!signature) {
+    throw new AuthenticationError(`Missing ${provider} webhook signature`, 'INVALID_SIGNATURE');
+  }
+
+  const expected = crypto.createHmac(algorithm, secret).update(rawBody).digest('hex');
+  if (!safeCompare(expected, signature)) {
+    throw new AuthenticationError(`Invalid ${provider} webhook signature`, 'INVALID_SIGNATURE');
+  }
+}
+
+/**
+ * Parse a webhook body as JSON
+ */
+export function parseJsonBody(provider: ProviderName, rawBody: Buffer): any {
+  try {
+    return JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw new ValidationError(`Malformed ${provider} webhook payload`, 'INVALID_PAYLOAD');
+  }
+}
@@ -0,0 +1,37 @@
+import { createProvider } from './index';
+
+const API_HOSTS: Record<string, string> = {
+  stripe: 'https://api.stripe.com/',
+  paystack: 'https://api.paystack.co/',
+  flutterwave: 'https://api.flutterwave.com/',
+  xoropay: 'https://api.xoropay.com/',
+};
+
+let fetchMock: jest.SpyInstance;
+
+beforeEach(() => {
+  fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+});
+
+describe('createProvider', () => {
+  it.each(Object.keys(API_HOSTS))('%s only calls its own API host', async (name) => {
+    const provider = createProvider(name, {
+      secret_key: 'sk_live_0000',
+      base_url: 'http://169.254.169.254/latest/meta-data',
+    });
+
+    await provider.verify('inv_1_attempt_1');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url).startsWith(API_HOSTS[name])).toBe(true);
+    expect(init.redirect).toBe('error');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createProvider('acme', {})).toThrow('Unsupported payment provider: acme');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Payment Providers
+ * Adapter registry and per-application provider resolution
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { env, isProduction } from '../config/env';
+import logger from '../config/logger';
+import { ValidationError } from '../utils/errors';
+import { PaymentProvider, ProviderName } from './types';
+import { createPaystackProvider } from './paystack';
+import { createFlutterwaveProvider } from './flutterwave';
+import { createStripeProvider } from './stripe';
+import { createXoroPayProvider } from './xoropay';
+import { createFakeProvider } from './fake';
+
+export * from './types';
+
+type ProviderFactory = (credentials: any) => PaymentProvider;
+
+const PROVIDER_FACTORIES: Record<ProviderName, ProviderFactory> = {
+  paystack: createPaystackProvider,
+  flutterwave: createFlutterwaveProvider,
+  stripe: createStripeProvider,
+  xoropay: createXoroPayProvider,
+  fake: createFakeProvider,
+};
+
+export const SUPPORTED_PROVIDERS = Object.keys(PROVIDER_FACTORIES) as ProviderName[];
+
+// Provider configs hold one set of credentials, used for live mode. Test-mode
+// charges never reach a real provider and go through the fake one instead.
+export const TEST_MODE_PROVIDER: ProviderName = 'fake';
+
+/**
+ * Whether every application should use the in-process fake provider
+ */
+export function isFakeProviderEnabled(): boolean {
+  return env.PAYMENT_PROVIDER_FAKE && !isProduction;
+}
+
+/**
+ * Build an adapter from decrypted credentials
+ */
+export function createProvider(name: string, credentials: Record<string, any>): PaymentProvider {
+  const factory = PROVIDER_FACTORIES[name as ProviderName];
+  if (!factory) {
+    throw new ValidationError(`Unsupported payment provider: ${name}`);
+  }
+  return factory(credentials);
+}
+
+/**
+ * Load an active provider config with its credentials decrypted in the database
+ */
+async function loadProvider(
+  applicationId: string,
+  condition: string,
+  value: any,
+  client?: PoolClient
+): Promise<PaymentProvider | null> {
+  const sql = `SELECT provider_name,
+       pgp_sym_decrypt(dearmor(credentials_encrypted), $2)::jsonb AS credentials
+     FROM payment_provider_configs
+     WHERE application_id = $1 AND active = true AND ${condition}`;
+  const values = [applicationId, env.ENCRYPTION_KEY, value];
+  const result = client ? await client.query(sql, values) : await db.query(sql, values);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return createProvider(row.provider_name, row.credentials);
+}
+
+/**
+ * Resolve the application's default provider (the active is_default config)
+ */
+export async function getDefaultProvider(
+  applicationId: string,
+  client?: PoolClient
+): Promise<PaymentProvider> {
+  if (isFakeProviderEnabled()) {
+    return createFakeProvider();
+  }
+
+  const provider = await loadProvider(applicationId, 'is_default = $3', true, client);
+  if (!provider) {
+    logger.warn('No default payment provider configured', { applicationId });
+    throw new ValidationError('No default payment provider configured', 'NO_PAYMENT_PROVIDER');
+  }
+
+  return provider;
+}
+
+/**
+ * Resolve a specific provider for the application (e.g. for inbound webhooks)
+ */
+export async function getProvider(
+  applicationId: string,
+  providerName: string,
+  client?: PoolClient
+): Promise<PaymentProvider> {
+  if (providerName === 'fake') {
+    if (!isFakeProviderEnabled()) {
+      throw new ValidationError('The fake payment provider is disabled');
+    }
+    return createFakeProvider();
+  }
+
+  const provider = await loadProvider(applicationId, 'provider_name = $3', providerName, client);
+  if (!provider) {
+    throw new ValidationError(`Payment provider '${providerName}' is not configured`, 'NO_PAYMENT_PROVIDER');
+  }
+
+  return provider;
+}
+
+/**
+ * Resolve the provider that charges a payment method in the given mode:
+ * `providerName` in live mode, the test-mode provider in test mode
+ */
+export async function getProviderForMode(
+  applicationId: string,
+  providerName: string,
+  testMode: boolean,
+  client?: PoolClient
+): Promise<PaymentProvider> {
+  if (testMode) {
+    return createFakeProvider();
+  }
+  return getProvider(applicationId, providerName, client);
+}
+
+/**
+ * Modes whose payments an inbound webhook from `providerName` may settle.
+ * Real providers only see live-mode charges. The fake provider only takes
+ * webhooks while it is enabled for every application, which covers both modes.
+ */
+export function webhookModes(providerName: string): boolean[] {
+  return providerName === TEST_MODE_PROVIDER ? [true, false] : [false];
+}
+
+export default {
+  createProvider,
+  getDefaultProvider,
+  getProvider,
+  getProviderForMode,
+  webhookModes,
+  isFakeProviderEnabled,
+};
@@ -0,0 +1,189 @@
+/**
+ * Paystack Adapter
+ * Charges saved authorizations via charge_authorization.
+ * Docs: https://paystack.com/docs/api
+ */
+
+import {
+  ChargeParams,
+  ChargeResult,
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  ProviderWebhookEventType,
+  RefundParams,
+  RefundResult,
+  TokenizeParams,
+  TokenizedPaymentMethod,
+  WebhookHeaders,
+} from './types';
+import { getHeader, parseJsonBody, providerRequest, verifyHmac, toConnectionTestResult } from './http';
+import { ValidationError } from '../utils/errors';
+
+export interface PaystackCredentials {
+  secret_key: string;
+}
+
+const BASE_URL = 'https://api.paystack.co';
+
+const EVENT_TYPES: Record<string, ProviderWebhookEventType> = {
+  'charge.success': 'charge.succeeded',
+  'charge.failed': 'charge.failed',
+  'refund.processed': 'refund.succeeded',
+  'refund.failed': 'refund.failed',
+  'charge.dispute.create': 'dispute.created',
+  'charge.dispute.resolve': 'dispute.closed',
+};
+
+/**
+ * Map a Paystack transaction object to a charge result
+ */
+function toChargeResult(body: any, fallbackAmount: number, fallbackCurrency: string): ChargeResult {
+  const data = body?.data || {};
+  const status = data.status === 'success'
+    ? 'succeeded'
+    : ['pending', 'ongoing', 'processing', 'queued'].includes(data.status)
+      ? 'pending'
+      : 'failed';
+
+  return {
+    status,
+    provider_transaction_id: data.id ? String(data.id) : null,
+    amount_cents: data.amount ?? fallbackAmount,
+    currency: data.currency || fallbackCurrency,
+    failure_code: status === 'failed' ? data.status || 'charge_failed' : null,
+    failure_message: status === 'failed' ? data.gateway_response || body?.message || 'Charge failed' : null,
+    raw: body,
+  };
+}
+
+export function createPaystackProvider(credentials: PaystackCredentials): PaymentProvider {
+  if (!credentials.secret_key) {
+    throw new ValidationError('Paystack credentials require secret_key');
+  }
+
+  const headers = { Authorization: `Bearer ${credentials.secret_key}` };
+
+  return {
+    name: 'paystack',
+
+    async charge(params: ChargeParams): Promise<ChargeResult> {
+      const response = await providerRequest('paystack', `${BASE_URL}/transaction/charge_authorization`, {
+        method: 'POST',
+        headers,
+        json: {
+          authorization_code: params.payment_method.provider_payment_method_id,
+          email: params.customer.email,
+          amount: params.amount_cents,
+          currency: params.currency,
+          reference: params.reference,
+          metadata: { ...params.metadata, xbs_customer_id: params.customer.id },
+        },
+      });
+
+      return toChargeResult(response.body, params.amount_cents, params.currency);
+    },
+
+    async refund(params: RefundParams): Promise<RefundResult> {
+      const response = await providerRequest('paystack', `${BASE_URL}/refund`, {
+        method: 'POST',
+        headers,
+        json: {
+          transaction: params.provider_transaction_id,
+          amount: params.amount_cents,
+          currency: params.currency,
+          merchant_note: params.reason,
+        },
+      });
+
+      const data = response.body?.data || {};
+      const failed = !response.ok || data.status === 'failed';
+      return {
+        status: failed ? 'failed' : data.status === 'processed' ? 'succeeded' : 'pending',
+        provider_refund_id: data.id ? String(data.id) : null,
+        failure_message: failed ? response.body?.message || 'Refund failed' : null,
+        raw: response.body,
+      };
+    },
+
+    async tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod> {
+      // Paystack issues a reusable authorization on the customer's first successful transaction
+      const response = await providerRequest(
+        'paystack',
+        `${BASE_URL}/transaction/verify/${encodeURIComponent(params.token)}`,
+        { headers }
+      );
+
+      const authorization = response.body?.data?.authorization;
+      if (!response.ok || !authorization?.authorization_code || authorization.reusable === false) {
+        throw new ValidationError('Paystack transaction has no reusable authorization');
+      }
+
+      return {
+        provider_payment_method_id: authorization.authorization_code,
+        type: authorization.channel === 'bank' ? 'bank_account' : 'card',
+        card_brand: authorization.brand || authorization.card_type || null,
+        card_last4: authorization.last4 || null,
+        card_exp_month: authorization.exp_month ? parseInt(authorization.exp_month, 10) : null,
+        card_exp_year: authorization.exp_year ? parseInt(authorization.exp_year, 10) : null,
+        card_fingerprint: authorization.signature || null,
+        metadata: { bank: authorization.bank || null },
+        raw: response.body,
+      };
+    },
+
+    async testConnection(): Promise<ConnectionTestResult> {
+      const response = await providerRequest('paystack', `${BASE_URL}/balance`, { headers });
+      return toConnectionTestResult(response);
+    },
+
+    async verify(reference: string): Promise<ChargeResult> {
+      const response = await providerRequest(
+        'paystack',
+        `${BASE_URL}/transaction/verify/${encodeURIComponent(reference)}`,
+        { headers }
+      );
+
+      return toChargeResult(response.body, 0, '');
+    },
+
+    parseWebhook(rawBody: Buffer, webhookHeaders: WebhookHeaders): ProviderWebhookEvent {
+      // Paystack signs with HMAC-SHA512 of the body using the secret key
+      verifyHmac('paystack', 'sha512', credentials.secret_key, rawBody,
+        getHeader(webhookHeaders, 'x-paystack-signature'));
+
+      const payload = parseJsonBody('paystack', rawBody);
+      const data = payload.data || {};
+      const type = EVENT_TYPES[payload.event] || 'unknown';
+      const isRefund = type === 'refund.succeeded' || type === 'refund.failed';
+      const isDispute = type === 'dispute.created' || type === 'dispute.closed';
+      // Refund and dispute payloads nest the transaction (refunds only by reference)
+      const transaction = isRefund || isDispute ? data.transaction || {} : data;
+
+      return {
+        provider: 'paystack',
+        type,
+        provider_event_id: `${payload.event}:${data.id ?? transaction.reference}`,
+        provider_event_type: payload.event,
+        provider_transaction_id: transaction.id ? String(transaction.id) : null,
+        reference: transaction.reference || data.transaction_reference || null,
+        amount_cents: typeof data.amount === 'number'
+          ? data.amount
+          : typeof data.refund_amount === 'number' ? data.refund_amount : null,
+        currency: data.currency || null,
+        failure_code: payload.event === 'charge.failed' ? data.status || 'charge_failed' : null,
+        failure_message: payload.event === 'charge.failed' ? data.gateway_response || null : null,
+        provider_refund_id: isRefund ? String(data.id ?? data.refund_reference ?? '') || null : null,
+        provider_dispute_id: isDispute && data.id ? String(data.id) : null,
+        dispute_reason: isDispute ? data.category || data.reason || null : null,
+        // 'declined' means the dispute was rejected in the merchant's favour
+        dispute_outcome: type === 'dispute.closed'
+          ? (data.resolution === 'declined' ? 'won' : 'lost')
+          : null,
+        data: payload,
+      };
+    },
+  };
+}
+
+export default createPaystackProvider;
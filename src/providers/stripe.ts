@@ -0,0 +1,282 @@
+/**
+ * Stripe Adapter
+ * Charges saved payment methods off-session with confirmed PaymentIntents.
+ * Docs: https://stripe.com/docs/api
+ */
+
+import crypto from 'crypto';
+import {
+  ChargeParams,
+  ChargeResult,
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  ProviderWebhookEventType,
+  RefundParams,
+  RefundResult,
+  TokenizeParams,
+  TokenizedPaymentMethod,
+  WebhookHeaders,
+} from './types';
+import { getHeader, parseJsonBody, providerRequest, safeCompare, toConnectionTestResult } from './http';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+
+export interface StripeCredentials {
+  secret_key: string;
+  webhook_secret?: string; // whsec_... of the webhook endpoint
+}
+
+const BASE_URL = 'https://api.stripe.com/v1';
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const EVENT_TYPES: Record<string, ProviderWebhookEventType> = {
+  'payment_intent.succeeded': 'charge.succeeded',
+  'payment_intent.payment_failed': 'charge.failed',
+  'charge.dispute.created': 'dispute.created',
+  'charge.dispute.closed': 'dispute.closed',
+};
+
+const REFUND_EVENTS = ['refund.updated', 'charge.refund.updated', 'refund.failed'];
+
+/**
+ * Flatten metadata into Stripe's bracketed form keys
+ */
+function metadataFields(metadata: Record<string, any> = {}): Record<string, string> {
+  const fields: Record<string, string> = {};
+  Object.entries(metadata).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      fields[`metadata[${key}]`] = String(value);
+    }
+  });
+  return fields;
+}
+
+/**
+ * Map a PaymentIntent (or Stripe error body) to a charge result
+ */
+function toChargeResult(body: any, fallbackAmount: number, fallbackCurrency: string): ChargeResult {
+  if (body?.error) {
+    const intent = body.error.payment_intent || {};
+    return {
+      status: 'failed',
+      provider_transaction_id: intent.id || null,
+      amount_cents: fallbackAmount,
+      currency: fallbackCurrency,
+      failure_code: body.error.decline_code || body.error.code || 'charge_failed',
+      failure_message: body.error.message || 'Charge failed',
+      raw: body,
+    };
+  }
+
+  const status = body?.status === 'succeeded'
+    ? 'succeeded'
+    : body?.status === 'processing'
+      ? 'pending'
+      : 'failed';
+  const lastError = body?.last_payment_error;
+
+  return {
+    status,
+    provider_transaction_id: body?.id || null,
+    amount_cents: body?.amount ?? fallbackAmount,
+    currency: body?.currency ? String(body.currency).toUpperCase() : fallbackCurrency,
+    failure_code: status === 'failed'
+      ? lastError?.decline_code || lastError?.code ||
+        (body?.status === 'requires_action' ? 'authentication_required' : 'charge_failed')
+      : null,
+    failure_message: status === 'failed' ? lastError?.message || `PaymentIntent ${body?.status}` : null,
+    raw: body,
+  };
+}
+
+/**
+ * Map a Stripe event to a normalized type; refund events carry their outcome in status
+ */
+function toEventType(eventType: string, object: any): ProviderWebhookEventType {
+  if (REFUND_EVENTS.includes(eventType)) {
+    if (object.status === 'succeeded') return 'refund.succeeded';
+    if (object.status === 'failed' || object.status === 'canceled') return 'refund.failed';
+    return 'unknown';
+  }
+  return EVENT_TYPES[eventType] || 'unknown';
+}
+
+/**
+ * Verify a Stripe-Signature header (t=timestamp,v1=signature)
+ */
+function verifySignature(secret: string | undefined, rawBody: Buffer, header: string | undefined): void {
+  if (!secret || !header) {
+    throw new AuthenticationError('Invalid stripe webhook signature', 'INVALID_SIGNATURE');
+  }
+
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    throw new AuthenticationError('Invalid stripe webhook signature', 'INVALID_SIGNATURE');
+  }
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+  if (!(age <= SIGNATURE_TOLERANCE_SECONDS)) {
+    throw new AuthenticationError('Stripe webhook timestamp outside tolerance', 'INVALID_SIGNATURE');
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody.toString('utf8')}`)
+    .digest('hex');
+
+  if (!signatures.some((signature) => safeCompare(expected, signature))) {
+    throw new AuthenticationError('Invalid stripe webhook signature', 'INVALID_SIGNATURE');
+  }
+}
+
+export function createStripeProvider(credentials: StripeCredentials): PaymentProvider {
+  if (!credentials.secret_key) {
+    throw new ValidationError('Stripe credentials require secret_key');
+  }
+
+  const headers = { Authorization: `Bearer ${credentials.secret_key}` };
+
+  return {
+    name: 'stripe',
+
+    async charge(params: ChargeParams): Promise<ChargeResult> {
+      const response = await providerRequest('stripe', `${BASE_URL}/payment_intents`, {
+        method: 'POST',
+        headers: { ...headers, 'Idempotency-Key': params.reference },
+        form: {
+          amount: params.amount_cents,
+          currency: params.currency.toLowerCase(),
+          customer: params.payment_method.metadata?.stripe_customer_id,
+          payment_method: params.payment_method.provider_payment_method_id,
+          confirm: true,
+          off_session: true,
+          description: params.description,
+          ...metadataFields({
+            ...params.metadata,
+            xbs_reference: params.reference,
+            xbs_customer_id: params.customer.id,
+          }),
+        },
+      });
+
+      return toChargeResult(response.body, params.amount_cents, params.currency);
+    },
+
+    async refund(params: RefundParams): Promise<RefundResult> {
+      const response = await providerRequest('stripe', `${BASE_URL}/refunds`, {
+        method: 'POST',
+        headers: { ...headers, 'Idempotency-Key': params.reference },
+        form: {
+          payment_intent: params.provider_transaction_id,
+          amount: params.amount_cents,
+          ...metadataFields({ xbs_reference: params.reference, reason: params.reason }),
+        },
+      });
+
+      const body = response.body || {};
+      const failed = !!body.error || body.status === 'failed' || body.status === 'canceled';
+      return {
+        status: failed ? 'failed' : body.status === 'succeeded' ? 'succeeded' : 'pending',
+        provider_refund_id: body.id || null,
+        failure_message: failed ? body.error?.message || body.failure_reason || 'Refund failed' : null,
+        raw: body,
+      };
+    },
+
+    async tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod> {
+      // Off-session charges need the PaymentMethod attached to a Stripe customer
+      const customer = await providerRequest('stripe', `${BASE_URL}/customers`, {
+        method: 'POST',
+        headers,
+        form: {
+          email: params.customer.email,
+          name: params.customer.name || undefined,
+          ...metadataFields({ xbs_customer_id: params.customer.id }),
+        },
+      });
+      if (!customer.ok) {
+        throw new ValidationError(customer.body?.error?.message || 'Stripe customer creation failed');
+      }
+
+      const attached = await providerRequest(
+        'stripe',
+        `${BASE_URL}/payment_methods/${encodeURIComponent(params.token)}/attach`,
+        { method: 'POST', headers, form: { customer: customer.body.id } }
+      );
+      if (!attached.ok) {
+        throw new ValidationError(attached.body?.error?.message || 'Stripe payment method could not be attached');
+      }
+
+      const card = attached.body.card || {};
+      return {
+        provider_payment_method_id: attached.body.id,
+        type: attached.body.type === 'card' ? 'card' : 'bank_account',
+        card_brand: card.brand || null,
+        card_last4: card.last4 || null,
+        card_exp_month: card.exp_month || null,
+        card_exp_year: card.exp_year || null,
+        card_fingerprint: card.fingerprint || null,
+        metadata: { stripe_customer_id: customer.body.id },
+        raw: attached.body,
+      };
+    },
+
+    async testConnection(): Promise<ConnectionTestResult> {
+      const response = await providerRequest('stripe', `${BASE_URL}/balance`, { headers });
+      return toConnectionTestResult(response);
+    },
+
+    async verify(reference: string): Promise<ChargeResult> {
+      const query = encodeURIComponent(`metadata['xbs_reference']:'${reference.replace(/'/g, "\\'")}'`);
+      const response = await providerRequest(
+        'stripe',
+        `${BASE_URL}/payment_intents/search?query=${query}&limit=1`,
+        { headers }
+      );
+
+      const intent = response.body?.data?.[0];
+      if (!intent) {
+        return toChargeResult({ error: { code: 'not_found', message: 'PaymentIntent not found' } }, 0, '');
+      }
+      return toChargeResult(intent, 0, '');
+    },
+
+    parseWebhook(rawBody: Buffer, webhookHeaders: WebhookHeaders): ProviderWebhookEvent {
+      verifySignature(credentials.webhook_secret, rawBody, getHeader(webhookHeaders, 'stripe-signature'));
+
+      const payload = parseJsonBody('stripe', rawBody);
+      const object = payload.data?.object || {};
+      const type = toEventType(payload.type, object);
+      const lastError = object.last_payment_error;
+      const isDispute = object.object === 'dispute';
+
+      return {
+        provider: 'stripe',
+        type,
+        provider_event_id: payload.id,
+        provider_event_type: payload.type,
+        provider_transaction_id: object.object === 'payment_intent'
+          ? object.id
+          : object.payment_intent || null,
+        reference: object.metadata?.xbs_reference || null,
+        amount_cents: typeof object.amount === 'number' ? object.amount : null,
+        currency: object.currency ? String(object.currency).toUpperCase() : null,
+        failure_code: type === 'charge.failed' ? lastError?.decline_code || lastError?.code || null : null,
+        failure_message: type === 'charge.failed' ? lastError?.message || null : null,
+        provider_refund_id: object.object === 'refund' ? object.id : null,
+        provider_dispute_id: isDispute ? object.id : null,
+        dispute_reason: isDispute ? object.reason || null : null,
+        // warning_closed: an inquiry closed without becoming a chargeback
+        dispute_outcome: type === 'dispute.closed'
+          ? (object.status === 'lost' ? 'lost' : 'won')
+          : null,
+        data: payload,
+      };
+    },
+  };
+}
+
+export default createStripeProvider;
@@ -0,0 +1,140 @@
+/**
+ * Payment Provider Types
+ * Common interface implemented by every payment provider adapter.
+ * Amounts are always in the smallest currency unit (kobo, cents); adapters
+ * convert to whatever the provider expects.
+ */
+
+export type ProviderName = 'xoropay' | 'stripe' | 'paystack' | 'flutterwave' | 'fake';
+
+export type PaymentMethodType = 'card' | 'bank_account' | 'mobile_money';
+
+export type ProviderChargeStatus = 'succeeded' | 'pending' | 'failed';
+
+export type ProviderRefundStatus = 'succeeded' | 'pending' | 'failed';
+
+export type ProviderDisputeOutcome = 'won' | 'lost';
+
+export type ProviderWebhookEventType =
+  | 'charge.succeeded'
+  | 'charge.failed'
+  | 'refund.succeeded'
+  | 'refund.failed'
+  | 'dispute.created'
+  | 'dispute.closed'
+  | 'unknown';
+
+export interface ProviderCustomer {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+export interface ProviderPaymentMethod {
+  provider_payment_method_id: string;
+  type: PaymentMethodType;
+  metadata?: Record<string, any>;
+}
+
+export interface ChargeParams {
+  amount_cents: number;
+  currency: string;
+  customer: ProviderCustomer;
+  payment_method: ProviderPaymentMethod;
+  reference: string; // Idempotency key, also used to look the charge up later
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ChargeResult {
+  status: ProviderChargeStatus;
+  provider_transaction_id: string | null;
+  amount_cents: number;
+  currency: string;
+  failure_code: string | null;
+  failure_message: string | null;
+  raw: any;
+}
+
+export interface RefundParams {
+  provider_transaction_id: string;
+  amount_cents: number;
+  currency: string;
+  reference: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  status: ProviderRefundStatus;
+  provider_refund_id: string | null;
+  failure_message: string | null;
+  raw: any;
+}
+
+export interface TokenizeParams {
+  customer: ProviderCustomer;
+  token: string; // Provider-side token from the client SDK or first transaction
+  type?: PaymentMethodType;
+}
+
+export interface TokenizedPaymentMethod {
+  provider_payment_method_id: string;
+  type: PaymentMethodType;
+  card_brand: string | null;
+  card_last4: string | null;
+  card_exp_month: number | null;
+  card_exp_year: number | null;
+  card_fingerprint: string | null;
+  metadata: Record<string, any>;
+  raw: any;
+}
+
+export interface ProviderWebhookEvent {
+  provider: ProviderName;
+  type: ProviderWebhookEventType;
+  provider_event_id: string;
+  provider_event_type: string;
+  provider_transaction_id: string | null;
+  reference: string | null;
+  amount_cents: number | null;
+  currency: string | null;
+  failure_code: string | null;
+  failure_message: string | null;
+  provider_refund_id: string | null; // refund.* events
+  provider_dispute_id: string | null; // dispute.* events
+  dispute_reason: string | null;
+  dispute_outcome: ProviderDisputeOutcome | null; // dispute.closed only
+  data: any;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string | null;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface PaymentProvider {
+  readonly name: ProviderName;
+
+  /** Charge a saved payment method off-session */
+  charge(params: ChargeParams): Promise<ChargeResult>;
+
+  /** Refund all or part of a successful charge */
+  refund(params: RefundParams): Promise<RefundResult>;
+
+  /** Exchange a client-side token for a reusable payment method */
+  tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod>;
+
+  /** Check the credentials with a read-only API call */
+  testConnection(): Promise<ConnectionTestResult>;
+
+  /** Look up a charge by the reference it was created with */
+  verify(reference: string): Promise<ChargeResult>;
+
+  /**
+   * Verify a webhook signature against the raw request body and normalize the
+   * event. Throws AuthenticationError when the signature does not match.
+   */
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): ProviderWebhookEvent;
+}
@@ -0,0 +1,187 @@
+/**
+ * XoroPay Adapter
+ * Charges saved payment-method tokens via the XoroPay REST API (smallest-unit
+ * amounts, bearer secret key, HMAC-SHA256 signed webhooks).
+ */
+
+import {
+  ChargeParams,
+  ChargeResult,
+  ConnectionTestResult,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  ProviderWebhookEventType,
+  RefundParams,
+  RefundResult,
+  TokenizeParams,
+  TokenizedPaymentMethod,
+  WebhookHeaders,
+} from './types';
+import { getHeader, parseJsonBody, providerRequest, verifyHmac, toConnectionTestResult } from './http';
+import { ValidationError } from '../utils/errors';
+
+export interface XoroPayCredentials {
+  secret_key: string;
+  webhook_secret?: string;
+}
+
+const BASE_URL = 'https://api.xoropay.com/v1';
+
+const EVENT_TYPES: Record<string, ProviderWebhookEventType> = {
+  'charge.succeeded': 'charge.succeeded',
+  'charge.failed': 'charge.failed',
+  'refund.succeeded': 'refund.succeeded',
+  'refund.failed': 'refund.failed',
+  'dispute.created': 'dispute.created',
+  'dispute.closed': 'dispute.closed',
+};
+
+/**
+ * Map a XoroPay charge object (or error body) to a charge result
+ */
+function toChargeResult(body: any, fallbackAmount: number, fallbackCurrency: string): ChargeResult {
+  const charge = body?.data || {};
+  const status = charge.status === 'succeeded'
+    ? 'succeeded'
+    : charge.status === 'pending'
+      ? 'pending'
+      : 'failed';
+
+  return {
+    status,
+    provider_transaction_id: charge.id || null,
+    amount_cents: charge.amount ?? fallbackAmount,
+    currency: charge.currency || fallbackCurrency,
+    failure_code: status === 'failed' ? charge.failure_code || body?.error?.code || 'charge_failed' : null,
+    failure_message: status === 'failed'
+      ? charge.failure_message || body?.error?.message || 'Charge failed'
+      : null,
+    raw: body,
+  };
+}
+
+export function createXoroPayProvider(credentials: XoroPayCredentials): PaymentProvider {
+  if (!credentials.secret_key) {
+    throw new ValidationError('XoroPay credentials require secret_key');
+  }
+
+  const headers = { Authorization: `Bearer ${credentials.secret_key}` };
+
+  return {
+    name: 'xoropay',
+
+    async charge(params: ChargeParams): Promise<ChargeResult> {
+      const response = await providerRequest('xoropay', `${BASE_URL}/charges`, {
+        method: 'POST',
+        headers: { ...headers, 'Idempotency-Key': params.reference },
+        json: {
+          amount: params.amount_cents,
+          currency: params.currency,
+          payment_method: params.payment_method.provider_payment_method_id,
+          customer_email: params.customer.email,
+          reference: params.reference,
+          description: params.description,
+          metadata: { ...params.metadata, xbs_customer_id: params.customer.id },
+        },
+      });
+
+      return toChargeResult(response.body, params.amount_cents, params.currency);
+    },
+
+    async refund(params: RefundParams): Promise<RefundResult> {
+      const response = await providerRequest('xoropay', `${BASE_URL}/refunds`, {
+        method: 'POST',
+        headers: { ...headers, 'Idempotency-Key': params.reference },
+        json: {
+          charge: params.provider_transaction_id,
+          amount: params.amount_cents,
+          reason: params.reason,
+        },
+      });
+
+      const refund = response.body?.data || {};
+      const failed = !response.ok || refund.status === 'failed';
+      return {
+        status: failed ? 'failed' : refund.status === 'succeeded' ? 'succeeded' : 'pending',
+        provider_refund_id: refund.id || null,
+        failure_message: failed ? response.body?.error?.message || 'Refund failed' : null,
+        raw: response.body,
+      };
+    },
+
+    async tokenize(params: TokenizeParams): Promise<TokenizedPaymentMethod> {
+      const response = await providerRequest('xoropay', `${BASE_URL}/payment_methods`, {
+        method: 'POST',
+        headers,
+        json: {
+          token: params.token,
+          type: params.type || 'card',
+          customer_email: params.customer.email,
+        },
+      });
+
+      const method = response.body?.data;
+      if (!response.ok || !method?.id) {
+        throw new ValidationError(response.body?.error?.message || 'XoroPay could not save the payment method');
+      }
+
+      return {
+        provider_payment_method_id: method.id,
+        type: method.type || params.type || 'card',
+        card_brand: method.card?.brand || null,
+        card_last4: method.card?.last4 || null,
+        card_exp_month: method.card?.exp_month || null,
+        card_exp_year: method.card?.exp_year || null,
+        card_fingerprint: method.card?.fingerprint || null,
+        metadata: {},
+        raw: response.body,
+      };
+    },
+
+    async testConnection(): Promise<ConnectionTestResult> {
+      const response = await providerRequest('xoropay', `${BASE_URL}/balance`, { headers });
+      return toConnectionTestResult(response);
+    },
+
+    async verify(reference: string): Promise<ChargeResult> {
+      const response = await providerRequest(
+        'xoropay',
+        `${BASE_URL}/charges/reference/${encodeURIComponent(reference)}`,
+        { headers }
+      );
+
+      return toChargeResult(response.body, 0, '');
+    },
+
+    parseWebhook(rawBody: Buffer, webhookHeaders: WebhookHeaders): ProviderWebhookEvent {
+      verifyHmac('xoropay', 'sha256', credentials.webhook_secret, rawBody,
+        getHeader(webhookHeaders, 'x-xoropay-signature'));
+
+      const payload = parseJsonBody('xoropay', rawBody);
+      const data = payload.data || {};
+      const type = EVENT_TYPES[payload.type] || 'unknown';
+      const isRefund = type === 'refund.succeeded' || type === 'refund.failed';
+      const isDispute = type === 'dispute.created' || type === 'dispute.closed';
+
+      return {
+        provider: 'xoropay',
+        type,
+        provider_event_id: payload.id,
+        provider_event_type: payload.type,
+        provider_transaction_id: data.charge || data.id || null,
+        reference: data.reference || null,
+        amount_cents: typeof data.amount === 'number' ? data.amount : null,
+        currency: data.currency || null,
+        failure_code: type === 'charge.failed' ? data.failure_code || null : null,
+        failure_message: type === 'charge.failed' ? data.failure_message || null : null,
+        provider_refund_id: isRefund ? data.id || null : null,
+        provider_dispute_id: isDispute ? data.id || null : null,
+        dispute_reason: isDispute ? data.reason || null : null,
+        dispute_outcome: type === 'dispute.closed' && ['won', 'lost'].includes(data.status) ? data.status : null,
+        data: payload,
+      };
+    },
+  };
+}
+
+export default createXoroPayProvider;
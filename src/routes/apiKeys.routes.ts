@@ -0,0 +1,90 @@
+/**
+ * API Key Routes
+ * Secret-key-only endpoints for creating, listing, revoking and rotating keys
+ */
+
+import { Router, Request, Response } from 'express';
+import authService from '../services/authService';
+import { authenticate, requireSecretKey } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Keys can only be managed with a secret key, and only within its own mode
+router.use(authenticate);
+router.use(requireSecretKey);
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/api_keys
+ * Create a key (the response is the only time the full key is shown)
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const apiKey = await authService.createApiKey(req.auth!.application_id, req.testMode!, req.body);
+    res.status(201).json({ data: apiKey });
+  })
+);
+
+/**
+ * GET /v1/api_keys
+ * List keys in the current mode
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const keys = await authService.listApiKeys(req.auth!.application_id, {
+      testMode: req.testMode!,
+      includeRevoked: req.query.include_revoked === 'true',
+    });
+    res.json({ data: keys, has_more: false });
+  })
+);
+
+/**
+ * GET /v1/api_keys/:id
+ * Get key by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const apiKey = await authService.getApiKey(req.auth!.application_id, req.params.id, req.testMode!);
+    res.json({ data: apiKey });
+  })
+);
+
+/**
+ * POST /v1/api_keys/:id/revoke
+ * Revoke a key immediately
+ */
+router.post(
+  '/:id/revoke',
+  asyncHandler(async (req: Request, res: Response) => {
+    const apiKey = await authService.revokeApiKey(req.auth!.application_id, req.params.id, {
+      testMode: req.testMode!,
+      currentKeyId: req.auth!.api_key_id ?? undefined,
+    });
+    res.json({ data: apiKey });
+  })
+);
+
+/**
+ * POST /v1/api_keys/:id/rotate
+ * Issue a replacement key; the old key keeps working for grace_period_hours
+ */
+router.post(
+  '/:id/rotate',
+  asyncHandler(async (req: Request, res: Response) => {
+    const apiKey = await authService.rotateApiKey(req.auth!.application_id, req.params.id, {
+      testMode: req.testMode!,
+      gracePeriodHours: req.body?.grace_period_hours,
+    });
+    res.json({ data: apiKey });
+  })
+);
+
+export default router;
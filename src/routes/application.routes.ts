@@ -0,0 +1,73 @@
+/**
+ * Application Routes
+ * Settings for the authenticated application and their audit trail
+ */
+
+import { Router, Request, Response } from 'express';
+import applicationService, { AuditActor } from '../services/applicationService';
+import { authenticate, requireSecretKey } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getClientIp } from '../utils/ip';
+
+const router = Router();
+
+// Settings are managed with a secret key or from a dashboard session
+router.use(authenticate);
+router.use(requireSecretKey);
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * Who is making the change, for the audit log
+ */
+function auditActor(req: Request): AuditActor {
+  return req.auth!.session_id
+    ? { type: 'dashboard_session', id: req.auth!.session_id, ip: getClientIp(req) }
+    : { type: 'api_key', id: req.auth!.api_key_id, ip: getClientIp(req) };
+}
+
+/**
+ * GET /v1/application
+ * Get the application's settings
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await applicationService.getById(req.auth!.application_id);
+    res.json({ data: application });
+  })
+);
+
+/**
+ * PATCH /v1/application
+ * Update name, currencies, timezone or invoice branding (invoice_config is merged)
+ */
+router.patch(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const application = await applicationService.update(req.auth!.application_id, req.body, auditActor(req));
+    res.json({ data: application });
+  })
+);
+
+/**
+ * GET /v1/application/audit_log
+ * List settings changes, newest first
+ */
+router.get(
+  '/audit_log',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { limit, starting_after } = req.query;
+
+    const result = await applicationService.listAuditLog(req.auth!.application_id, {
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      starting_after: starting_after as string,
+    });
+
+    res.json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,75 @@
+/**
+ * Dashboard Auth Routes
+ * Sign-up, log-in, token refresh and log-out for application owners
+ */
+
+import { Router, Request, Response } from 'express';
+import dashboardAuthService, { ClientInfo } from '../services/dashboardAuthService';
+import { authRateLimiter } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getClientIp } from '../utils/ip';
+
+const router = Router();
+
+// Credential endpoints are rate limited by IP
+router.use(authRateLimiter);
+
+/**
+ * Client details recorded on the session
+ */
+function clientInfo(req: Request): ClientInfo {
+  return {
+    userAgent: req.headers['user-agent'],
+    ip: getClientIp(req),
+  };
+}
+
+/**
+ * POST /v1/auth/signup
+ * Create an application and return a dashboard session
+ */
+router.post(
+  '/signup',
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await dashboardAuthService.signup(req.body, clientInfo(req));
+    res.status(201).json({ data: session });
+  })
+);
+
+/**
+ * POST /v1/auth/login
+ * Log in with email and password
+ */
+router.post(
+  '/login',
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await dashboardAuthService.login(req.body, clientInfo(req));
+    res.json({ data: session });
+  })
+);
+
+/**
+ * POST /v1/auth/refresh
+ * Exchange a refresh token for a new access and refresh token
+ */
+router.post(
+  '/refresh',
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await dashboardAuthService.refresh(req.body?.refresh_token);
+    res.json({ data: session });
+  })
+);
+
+/**
+ * POST /v1/auth/logout
+ * Revoke the session the refresh token belongs to
+ */
+router.post(
+  '/logout',
+  asyncHandler(async (req: Request, res: Response) => {
+    await dashboardAuthService.logout(req.body?.refresh_token);
+    res.json({ data: { object: 'dashboard_session', revoked: true } });
+  })
+);
+
+export default router;
@@ -0,0 +1,93 @@
+/**
+ * Coupon Routes
+ * Percent-off or per-currency amount-off coupons
+ */
+
+import { Router, Request, Response } from 'express';
+import couponService from '../services/couponService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('coupons'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/coupons
+ * Create a coupon with percent_off or amounts_off and a duration (once,
+ * repeating with duration_in_months, forever)
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const coupon = await couponService.create(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: coupon });
+  })
+);
+
+/**
+ * GET /v1/coupons
+ * List coupons with pagination
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await couponService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      active: req.query.active !== undefined ? req.query.active === 'true' : undefined,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/coupons/:id
+ * Get coupon by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const coupon = await couponService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: coupon });
+  })
+);
+
+/**
+ * PATCH /v1/coupons/:id
+ * Update name, metadata or active (inactive coupons cannot be redeemed)
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const coupon = await couponService.update(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        name: req.body.name,
+        active: req.body.active,
+        metadata: req.body.metadata,
+      }
+    );
+    res.json({ data: coupon });
+  })
+);
+
+export default router;
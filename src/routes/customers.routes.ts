@@ -5,8 +5,10 @@
 
 import { Router, Request, Response } from 'express';
 import customerService from '../services/customerService';
-import { authenticate } from '../middleware/authenticate';
+import discountService from '../services/discountService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
 import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
 import { asyncHandler } from '../middleware/errorHandler';
 import { ValidationError } from '../utils/errors';
 
@@ -14,7 +16,9 @@ const router = Router();
 
 // Apply authentication and rate limiting to all routes
 router.use(authenticate);
+router.use(requirePermission('customers'));
 router.use(apiRateLimiter);
+router.use(idempotency);
 
 /**
  * POST /v1/customers
@@ -171,4 +175,57 @@ router.post(
   })
 );
 
+/**
+ * GET /v1/customers/:id/discount
+ * Get the customer's active discount
+ */
+router.get(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.getForCustomer(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: discount });
+  })
+);
+
+/**
+ * POST /v1/customers/:id/discount
+ * Apply a coupon ({ coupon }) or promotion code ({ promotion_code }),
+ * replacing any current discount
+ */
+router.post(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.applyToCustomer(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        coupon: req.body.coupon,
+        promotion_code: req.body.promotion_code,
+      }
+    );
+    res.status(201).json({ data: discount });
+  })
+);
+
+/**
+ * DELETE /v1/customers/:id/discount
+ * Remove the customer's discount
+ */
+router.delete(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.removeFromCustomer(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: discount, deleted: true });
+  })
+);
+
 export default router;
@@ -0,0 +1,45 @@
+/**
+ * Dunning Routes
+ * Read and update the application's dunning configuration
+ */
+
+import { Router, Request, Response } from 'express';
+import dunningService from '../services/dunningService';
+import { authenticate, requireSecretKey } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requireSecretKey);
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * GET /v1/dunning_config
+ * Get the dunning configuration (defaults until first updated)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await dunningService.getConfig(req.auth!.application_id);
+    res.json({ data: config });
+  })
+);
+
+/**
+ * PATCH /v1/dunning_config
+ * Update retry schedule, suspension/cancellation thresholds and final action
+ */
+router.patch(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await dunningService.updateConfig(req.auth!.application_id, req.body);
+    res.json({ data: config });
+  })
+);
+
+export default router;
@@ -0,0 +1,96 @@
+/**
+ * Event Routes
+ * Read published events with their webhook delivery log, and replay them
+ */
+
+import { Router, Request, Response } from 'express';
+import eventService from '../services/eventService';
+import webhookDeliveryService from '../services/webhookDeliveryService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('events'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * GET /v1/events
+ * List events with pagination, filterable by type ('invoice.*' for a family),
+ * delivery_status and object_id
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await eventService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      type: req.query.type as string | undefined,
+      delivery_status: req.query.delivery_status as string | undefined,
+      object_id: req.query.object_id as string | undefined,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/events/:id
+ * Get event by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const event = await eventService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: event });
+  })
+);
+
+/**
+ * GET /v1/events/:id/deliveries
+ * List delivery attempts with status code, duration and truncated response body
+ */
+router.get(
+  '/:id/deliveries',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await webhookDeliveryService.listDeliveries(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+        starting_after: req.query.starting_after as string | undefined,
+      }
+    );
+    res.json(result);
+  })
+);
+
+/**
+ * POST /v1/events/:id/redeliver
+ * Send the event again now, to webhook_endpoint_id or every subscribed endpoint
+ */
+router.post(
+  '/:id/redeliver',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await webhookDeliveryService.redeliver(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,206 @@
+/**
+ * Invoice Routes
+ * RESTful endpoints for invoice generation and lifecycle
+ */
+
+import { Router, Request, Response } from 'express';
+import invoiceService from '../services/invoiceService';
+import paymentService from '../services/paymentService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { PaymentError } from '../utils/errors';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('invoices'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/invoices
+ * Create a draft invoice for a subscription's current period
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.createDraft(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: invoice });
+  })
+);
+
+/**
+ * GET /v1/invoices
+ * List invoices with pagination
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await invoiceService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      customer_id: req.query.customer_id as string | undefined,
+      subscription_id: req.query.subscription_id as string | undefined,
+      status: req.query.status as any,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/invoices/:id
+ * Get invoice by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: invoice });
+  })
+);
+
+/**
+ * POST /v1/invoices/:id/line_items
+ * Add a line item to a draft invoice
+ */
+router.post(
+  '/:id/line_items',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.addLineItem(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.json({ data: invoice });
+  })
+);
+
+/**
+ * DELETE /v1/invoices/:id/line_items/:lineItemId
+ * Remove a line item from a draft invoice
+ */
+router.delete(
+  '/:id/line_items/:lineItemId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.removeLineItem(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.params.lineItemId
+    );
+    res.json({ data: invoice });
+  })
+);
+
+/**
+ * POST /v1/invoices/:id/finalize
+ * Finalize a draft invoice, assign its invoice number and attempt collection
+ */
+router.post(
+  '/:id/finalize',
+  asyncHandler(async (req: Request, res: Response) => {
+    const finalized = await invoiceService.finalize(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    const invoice = await paymentService.attemptCollection(finalized);
+    res.json({ data: invoice });
+  })
+);
+
+/**
+ * POST /v1/invoices/:id/pay
+ * Retry collection against the customer's default (or given) payment method,
+ * or record a payment made outside XBS with paid_out_of_band
+ */
+router.post(
+  '/:id/pay',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (req.body.paid_out_of_band === true) {
+      const invoice = await invoiceService.pay(
+        req.auth!.application_id,
+        req.params.id,
+        req.auth!.test_mode
+      );
+      res.json({ data: invoice });
+      return;
+    }
+
+    const result = await paymentService.collectInvoice(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      { payment_method_id: req.body.payment_method_id }
+    );
+
+    if (result.payment.status === 'failed') {
+      throw new PaymentError(result.payment.failure_message || 'Payment failed');
+    }
+    res.json({ data: result.invoice });
+  })
+);
+
+/**
+ * GET /v1/invoices/:id/payments
+ * List payment attempts for an invoice
+ */
+router.get(
+  '/:id/payments',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await paymentService.listForInvoice(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json(result);
+  })
+);
+
+/**
+ * POST /v1/invoices/:id/void
+ * Void an open invoice
+ */
+router.post(
+  '/:id/void',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.void(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: invoice });
+  })
+);
+
+/**
+ * POST /v1/invoices/:id/mark_uncollectible
+ * Mark an open invoice as uncollectible
+ */
+router.post(
+  '/:id/mark_uncollectible',
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.markUncollectible(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: invoice });
+  })
+);
+
+export default router;
@@ -0,0 +1,115 @@
+/**
+ * Payment Provider Routes
+ * Secret-key-only endpoints for managing provider credentials. The credentials
+ * are used for live mode only, so changing them takes a live key.
+ */
+
+import { Router, Request, Response } from 'express';
+import paymentProviderService from '../services/paymentProviderService';
+import { authenticate, requireLiveMode, requireSecretKey } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Credentials are never exposed to publishable keys
+router.use(authenticate);
+router.use(requireSecretKey);
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/payment_providers
+ * Add credentials for a provider (encrypted at rest)
+ */
+router.post(
+  '/',
+  requireLiveMode,
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await paymentProviderService.create(req.auth!.application_id, req.body);
+    res.status(201).json({ data: config });
+  })
+);
+
+/**
+ * GET /v1/payment_providers
+ * List configured providers
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await paymentProviderService.list(req.auth!.application_id);
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/payment_providers/:id
+ * Get provider config by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await paymentProviderService.getById(req.auth!.application_id, req.params.id);
+    res.json({ data: config });
+  })
+);
+
+/**
+ * POST /v1/payment_providers/:id/rotate
+ * Replace the provider's credentials
+ */
+router.post(
+  '/:id/rotate',
+  requireLiveMode,
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await paymentProviderService.rotate(
+      req.auth!.application_id,
+      req.params.id,
+      req.body.credentials
+    );
+    res.json({ data: config });
+  })
+);
+
+/**
+ * POST /v1/payment_providers/:id/test
+ * Check the stored credentials against the provider
+ */
+router.post(
+  '/:id/test',
+  requireLiveMode,
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await paymentProviderService.test(req.auth!.application_id, req.params.id);
+    res.json({ data: result });
+  })
+);
+
+/**
+ * POST /v1/payment_providers/:id/default
+ * Make the provider the default for charges
+ */
+router.post(
+  '/:id/default',
+  requireLiveMode,
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await paymentProviderService.setDefault(req.auth!.application_id, req.params.id);
+    res.json({ data: config });
+  })
+);
+
+/**
+ * POST /v1/payment_providers/:id/deactivate
+ * Stop using the provider
+ */
+router.post(
+  '/:id/deactivate',
+  requireLiveMode,
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await paymentProviderService.deactivate(req.auth!.application_id, req.params.id);
+    res.json({ data: config });
+  })
+);
+
+export default router;
@@ -5,16 +5,22 @@
 
 import { Router, Request, Response } from 'express';
 import planService from '../services/planService';
-import { authenticate } from '../middleware/authenticate';
+import couponService from '../services/couponService';
+import discountService from '../services/discountService';
+import { hasPermission } from '../services/authService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
 import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
 import { asyncHandler } from '../middleware/errorHandler';
-import { ValidationError } from '../utils/errors';
+import { AuthorizationError, ValidationError } from '../utils/errors';
 
 const router = Router();
 
 // Apply authentication and rate limiting to all routes
 router.use(authenticate);
+router.use(requirePermission('plans'));
 router.use(apiRateLimiter);
+router.use(idempotency);
 
 /**
  * POST /v1/plans
@@ -170,16 +176,23 @@ router.post(
 
 /**
  * POST /v1/plans/:id/calculate
- * Calculate price for quantity
+ * Calculate price for quantity, less the discount of an optional coupon or
+ * promotion_code (with customer_id for customer-restricted codes). Coupon
+ * previews need a secret key or a restricted key with coupons:read, so a
+ * publishable key cannot be used to probe codes.
  */
 router.post(
   '/:id/calculate',
   asyncHandler(async (req: Request, res: Response) => {
-    const { currency, quantity = 1 } = req.body;
+    const { currency, quantity = 1, metric_name, coupon, promotion_code, customer_id } = req.body;
 
     if (!currency) {
       throw new ValidationError('currency is required');
     }
+    if ((coupon || promotion_code) && req.auth!.key_type !== 'sk' &&
+        !(req.auth!.key_type === 'rk' && hasPermission(req.auth!.permissions, 'coupons', 'read'))) {
+      throw new AuthorizationError('Coupon and promotion code previews require a secret key or coupons:read');
+    }
 
     const plan = await planService.getById(
       req.auth!.application_id,
@@ -187,20 +200,37 @@ router.post(
       req.auth!.test_mode
     );
 
-    const price = planService.getPriceForCurrency(plan, currency);
+    // metric_name selects a metered price instead of the licensed one
+    const price = metric_name
+      ? planService.getMeteredPrices(plan, currency).find((p) => p.metric_name === metric_name)
+      : planService.getPriceForCurrency(plan, currency);
     if (!price) {
       throw new ValidationError(`No price found for currency: ${currency}`);
     }
 
     const amount = planService.calculatePrice(price, quantity);
 
+    const discountCoupon = coupon || promotion_code
+      ? await discountService.previewCoupon(req.auth!.application_id, req.auth!.test_mode, price.currency, {
+          coupon,
+          promotion_code,
+          customer_id,
+        })
+      : null;
+    const discountAmount = discountCoupon
+      ? couponService.calculateAmountOff(discountCoupon, price.currency, amount)
+      : 0;
+
     res.json({
       data: {
         plan_id: plan.id,
         currency: price.currency,
         quantity,
         unit_amount: price.unit_amount,
-        total_amount: amount,
+        subtotal_amount: amount,
+        discount_amount: discountAmount,
+        total_amount: amount - discountAmount,
+        coupon_id: discountCoupon ? discountCoupon.id : null,
         pricing_model: price.pricing_model,
       },
     });
@@ -0,0 +1,94 @@
+/**
+ * Promotion Code Routes
+ * Customer-facing codes for coupons (same permission as coupons)
+ */
+
+import { Router, Request, Response } from 'express';
+import promotionCodeService from '../services/promotionCodeService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('coupons'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/promotion_codes
+ * Create a code for coupon_id (generated if code is omitted), optionally
+ * limited by customer_id, max_redemptions and expires_at
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotionCode = await promotionCodeService.create(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: promotionCode });
+  })
+);
+
+/**
+ * GET /v1/promotion_codes
+ * List promotion codes with pagination
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await promotionCodeService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      coupon_id: req.query.coupon_id as string | undefined,
+      code: req.query.code as string | undefined,
+      active: req.query.active !== undefined ? req.query.active === 'true' : undefined,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/promotion_codes/:id
+ * Get promotion code by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotionCode = await promotionCodeService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: promotionCode });
+  })
+);
+
+/**
+ * PATCH /v1/promotion_codes/:id
+ * Activate or deactivate a code, or update its metadata
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotionCode = await promotionCodeService.update(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        active: req.body.active,
+        metadata: req.body.metadata,
+      }
+    );
+    res.json({ data: promotionCode });
+  })
+);
+
+export default router;
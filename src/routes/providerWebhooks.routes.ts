@@ -0,0 +1,33 @@
+/**
+ * Provider Webhook Routes
+ * Inbound webhooks from payment providers, authenticated by each provider's
+ * signature scheme rather than API keys. The raw body is parsed in app.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import providerWebhookService from '../services/providerWebhookService';
+import { webhookRateLimiter } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+router.use(webhookRateLimiter);
+
+/**
+ * POST /v1/provider_webhooks/:provider/:application_id
+ * Verify and apply a provider event (charge, refund or dispute outcome)
+ */
+router.post(
+  '/:provider/:application_id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await providerWebhookService.handleWebhook(
+      req.params.provider,
+      req.params.application_id,
+      Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      req.headers
+    );
+    res.json({ data: result });
+  })
+);
+
+export default router;
@@ -0,0 +1,89 @@
+/**
+ * Subscription Schedule Routes
+ * Multi-phase schedules for subscriptions (same permission as subscriptions)
+ */
+
+import { Router, Request, Response } from 'express';
+import subscriptionScheduleService from '../services/subscriptionScheduleService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('subscriptions'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/subscription_schedules
+ * Create a schedule from an existing subscription (from_subscription) or with
+ * a new subscription for customer_id
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const schedule = await subscriptionScheduleService.create(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: schedule });
+  })
+);
+
+/**
+ * GET /v1/subscription_schedules
+ * List schedules with pagination
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await subscriptionScheduleService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      subscription_id: req.query.subscription_id as string | undefined,
+      status: req.query.status as any,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/subscription_schedules/:id
+ * Get schedule by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const schedule = await subscriptionScheduleService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: schedule });
+  })
+);
+
+/**
+ * POST /v1/subscription_schedules/:id/release
+ * Release the schedule; the subscription continues on its current plan
+ */
+router.post(
+  '/:id/release',
+  asyncHandler(async (req: Request, res: Response) => {
+    const schedule = await subscriptionScheduleService.release(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: schedule });
+  })
+);
+
+export default router;
@@ -0,0 +1,279 @@
+/**
+ * Subscription Routes
+ * RESTful endpoints for subscription management
+ */
+
+import { Router, Request, Response } from 'express';
+import subscriptionService from '../services/subscriptionService';
+import planChangeService from '../services/planChangeService';
+import discountService from '../services/discountService';
+import usageService from '../services/usageService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('subscriptions'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/subscriptions
+ * Create a new subscription
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.create(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: subscription });
+  })
+);
+
+/**
+ * GET /v1/subscriptions
+ * List subscriptions with pagination
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await subscriptionService.list({
+      application_id: req.auth!.application_id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      customer_id: req.query.customer_id as string | undefined,
+      plan_id: req.query.plan_id as string | undefined,
+      status: req.query.status as any,
+    });
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/subscriptions/:id
+ * Get subscription by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: subscription });
+  })
+);
+
+/**
+ * PATCH /v1/subscriptions/:id
+ * Update subscription (quantity, cancel_at_period_end, metadata)
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.update(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.json({ data: subscription });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/cancel
+ * Cancel subscription immediately, or at period end with { at_period_end: true }
+ */
+router.post(
+  '/:id/cancel',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.cancel(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        at_period_end: req.body.at_period_end === true,
+        reason: req.body.reason,
+      }
+    );
+    res.json({ data: subscription });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/pause
+ * Pause a subscription; behavior (keep_as_draft, mark_uncollectible, void)
+ * applies to invoices generated while paused, resumes_at resumes it automatically
+ */
+router.post(
+  '/:id/pause',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.pause(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        behavior: req.body.behavior,
+        resumes_at: req.body.resumes_at,
+      }
+    );
+    res.json({ data: subscription });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/resume
+ * Resume a paused subscription
+ */
+router.post(
+  '/:id/resume',
+  asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.resume(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: subscription });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/change_plan
+ * Change plan and/or quantity now with proration_behavior (create_prorations,
+ * none, always_invoice), or at period end with { at_period_end: true }
+ */
+router.post(
+  '/:id/change_plan',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await planChangeService.changePlan(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        plan_id: req.body.plan_id,
+        quantity: req.body.quantity,
+        proration_behavior: req.body.proration_behavior,
+        at_period_end: req.body.at_period_end === true,
+      }
+    );
+    res.json({ data: result.subscription });
+  })
+);
+
+/**
+ * GET /v1/subscriptions/:id/discount
+ * Get the subscription's active discount
+ */
+router.get(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.getForSubscription(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: discount });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/discount
+ * Apply a coupon ({ coupon }) or promotion code ({ promotion_code }),
+ * replacing any current discount
+ */
+router.post(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.applyToSubscription(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      {
+        coupon: req.body.coupon,
+        promotion_code: req.body.promotion_code,
+      }
+    );
+    res.status(201).json({ data: discount });
+  })
+);
+
+/**
+ * DELETE /v1/subscriptions/:id/discount
+ * Remove the subscription's discount
+ */
+router.delete(
+  '/:id/discount',
+  asyncHandler(async (req: Request, res: Response) => {
+    const discount = await discountService.removeFromSubscription(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: discount, deleted: true });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/usage
+ * Record a usage event (duplicate idempotency keys return the original record)
+ */
+router.post(
+  '/:id/usage',
+  asyncHandler(async (req: Request, res: Response) => {
+    const usageRecord = await usageService.recordUsage(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: usageRecord });
+  })
+);
+
+/**
+ * POST /v1/subscriptions/:id/usage/batch
+ * Record up to 5000 usage events in one request ({ records: [...] })
+ */
+router.post(
+  '/:id/usage/batch',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await usageService.recordUsageBatch(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body.records
+    );
+    res.status(201).json({ data: result });
+  })
+);
+
+/**
+ * GET /v1/subscriptions/:id/usage
+ * List usage records for a subscription
+ */
+router.get(
+  '/:id/usage',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await usageService.list({
+      application_id: req.auth!.application_id,
+      subscription_id: req.params.id,
+      test_mode: req.auth!.test_mode,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 10,
+      starting_after: req.query.starting_after as string | undefined,
+      metric_name: req.query.metric_name as string | undefined,
+    });
+    res.json(result);
+  })
+);
+
+export default router;
@@ -0,0 +1,73 @@
+/**
+ * Usage Metric Routes
+ * RESTful endpoints for usage metric definitions
+ */
+
+import { Router, Request, Response } from 'express';
+import usageMetricService from '../services/usageMetricService';
+import { authenticate, requirePermission } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticate);
+router.use(requirePermission('usage_metrics'));
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/usage_metrics
+ * Register a new usage metric
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const metric = await usageMetricService.create(req.auth!.application_id, req.body);
+    res.status(201).json({ data: metric });
+  })
+);
+
+/**
+ * GET /v1/usage_metrics
+ * List usage metrics
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await usageMetricService.list(req.auth!.application_id);
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/usage_metrics/:id
+ * Get usage metric by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const metric = await usageMetricService.getById(req.auth!.application_id, req.params.id);
+    res.json({ data: metric });
+  })
+);
+
+/**
+ * PATCH /v1/usage_metrics/:id
+ * Update usage metric (display_name, unit, description, aggregation)
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const metric = await usageMetricService.update(
+      req.auth!.application_id,
+      req.params.id,
+      req.body
+    );
+    res.json({ data: metric });
+  })
+);
+
+export default router;
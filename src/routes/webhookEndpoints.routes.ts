@@ -0,0 +1,133 @@
+/**
+ * Webhook Endpoint Routes
+ * Secret-key-only endpoints for managing where events are delivered. Endpoints
+ * belong to the key's mode and only receive that mode's events.
+ */
+
+import { Router, Request, Response } from 'express';
+import webhookEndpointService from '../services/webhookEndpointService';
+import webhookDeliveryService from '../services/webhookDeliveryService';
+import { authenticate, requireSecretKey } from '../middleware/authenticate';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Signing secrets are never exposed to publishable keys
+router.use(authenticate);
+router.use(requireSecretKey);
+router.use(apiRateLimiter);
+router.use(idempotency);
+
+/**
+ * POST /v1/webhook_endpoints
+ * Create an endpoint (the response includes its signing secret)
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await webhookEndpointService.create(
+      req.auth!.application_id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.status(201).json({ data: endpoint });
+  })
+);
+
+/**
+ * GET /v1/webhook_endpoints
+ * List endpoints
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await webhookEndpointService.list(req.auth!.application_id, req.auth!.test_mode);
+    res.json(result);
+  })
+);
+
+/**
+ * GET /v1/webhook_endpoints/:id
+ * Get endpoint by ID
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await webhookEndpointService.getById(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: endpoint });
+  })
+);
+
+/**
+ * PATCH /v1/webhook_endpoints/:id
+ * Update URL, description, enabled events, active flag or metadata
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await webhookEndpointService.update(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.json({ data: endpoint });
+  })
+);
+
+/**
+ * DELETE /v1/webhook_endpoints/:id
+ * Delete endpoint
+ */
+router.delete(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await webhookEndpointService.delete(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: endpoint, deleted: true });
+  })
+);
+
+/**
+ * POST /v1/webhook_endpoints/:id/roll_secret
+ * Replace the signing secret, keeping the old one valid for expires_in_hours (default 24)
+ */
+router.post(
+  '/:id/roll_secret',
+  asyncHandler(async (req: Request, res: Response) => {
+    const endpoint = await webhookEndpointService.rollSecret(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode,
+      req.body
+    );
+    res.json({ data: endpoint });
+  })
+);
+
+/**
+ * POST /v1/webhook_endpoints/:id/test
+ * Send a synthetic webhook_endpoint.test event and report the outcome
+ */
+router.post(
+  '/:id/test',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await webhookDeliveryService.sendTestEvent(
+      req.auth!.application_id,
+      req.params.id,
+      req.auth!.test_mode
+    );
+    res.json({ data: result });
+  })
+);
+
+export default router;
@@ -2,6 +2,7 @@ import { initializeApp } from './app';
 import { env } from './config/env';
 import { db } from './config/database';
 import { logger } from './utils/logger';
+import { startWorkers, stopWorkers } from './workers';
 
 /**
  * XBS API Server
@@ -32,6 +33,9 @@ async function startServer() {
       logger.info(`🏥 Health Check: http://${env.HOST}:${env.PORT}/health`);
       logger.info(`📊 Database Pool: ${db.getPoolStats().total} connections`);
       logger.info('='.repeat(50));
+
+      // Start background workers
+      startWorkers();
     });
 
     // Graceful shutdown
@@ -40,6 +44,9 @@ async function startServer() {
       
       server.close(async () => {
         logger.info('HTTP server closed');
+
+        // Let in-flight worker runs finish
+        await stopWorkers();
         
         // Close database connections
         await db.close();
@@ -60,6 +67,7 @@ async function startServer() {
       
       server.close(async () => {
         logger.info('HTTP server closed');
+        await stopWorkers();
         await db.close();
         logger.info('Database connections closed');
         process.exit(0);
@@ -0,0 +1,456 @@
+/**
+ * Application Service
+ * Tenant records: the SaaS companies billing their customers through XBS
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+
+export interface InvoiceConfig {
+  number_prefix: string;
+  number_format: string;
+  logo_url: string | null;
+  company_name: string | null;
+  company_address: string | null;
+  company_tax_id: string | null;
+  footer_text: string | null;
+  color_primary: string;
+  show_xbs_branding: boolean;
+}
+
+export interface Application {
+  id: string;
+  object: 'application';
+  name: string;
+  email: string;
+  default_currency: string;
+  timezone: string;
+  analytics_currency: string;
+  invoice_config: InvoiceConfig;
+  active: boolean;
+  trial_ends_at: Date | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UpdateApplicationInput {
+  name?: string;
+  default_currency?: string;
+  analytics_currency?: string;
+  timezone?: string;
+  invoice_config?: Partial<InvoiceConfig>;
+}
+
+export type AuditActorType = 'api_key' | 'dashboard_session';
+
+export interface AuditActor {
+  type: AuditActorType;
+  id: string | null;
+  ip?: string;
+}
+
+export interface ApplicationAuditEntry {
+  id: string;
+  object: 'application_audit_entry';
+  application_id: string;
+  action: string;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  ip_address: string | null;
+  changes: Record<string, { from: any; to: any }>;
+  created_at: Date;
+}
+
+export interface ListAuditLogParams {
+  limit?: number;
+  starting_after?: string;
+}
+
+export interface CreateApplicationInput {
+  name: string;
+  email: string;
+  password_hash: string;
+  default_currency?: string;
+  timezone?: string;
+}
+
+// Validation constants
+const MAX_NAME_LENGTH = 100;
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+const NUMBER_PREFIX_REGEX = /^[A-Za-z0-9]{0,10}$/;
+const NUMBER_FORMAT_REGEX = /^(YYYY|YY|MM|N+|[-/_.])+$/;
+const MAX_NUMBER_FORMAT_LENGTH = 30;
+const COLOR_REGEX = /^#[0-9A-Fa-f]{6}$/;
+
+// Intl.supportedValuesOf is ES2022; tsconfig targets ES2020 but Node 18+ has it
+const intlWithSupportedValues = Intl as typeof Intl & {
+  supportedValuesOf(key: 'timeZone'): string[];
+};
+
+// IANA zone names known to the runtime, plus the UTC alias
+const TIMEZONES = new Set<string>([...intlWithSupportedValues.supportedValuesOf('timeZone'), 'UTC']);
+
+// Free-text invoice_config fields and their maximum lengths
+const INVOICE_TEXT_FIELDS: Record<string, number> = {
+  company_name: 100,
+  company_address: 500,
+  company_tax_id: 50,
+  footer_text: 500,
+};
+
+const INVOICE_CONFIG_FIELDS = [
+  'number_prefix',
+  'number_format',
+  'logo_url',
+  'company_name',
+  'company_address',
+  'company_tax_id',
+  'footer_text',
+  'color_primary',
+  'show_xbs_branding',
+];
+
+// Settings tracked in the audit log
+const AUDITED_FIELDS = ['name', 'default_currency', 'analytics_currency', 'timezone', 'invoice_config'] as const;
+
+/**
+ * Validate email format
+ */
+function validateEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * Validate an IANA timezone name
+ */
+function validateTimezone(timezone: string): boolean {
+  return TIMEZONES.has(timezone);
+}
+
+/**
+ * Ensure a currency is active in supported_currencies
+ */
+async function validateSupportedCurrency(
+  client: PoolClient | null,
+  field: string,
+  currency: unknown
+): Promise<string> {
+  const code = typeof currency === 'string' ? currency.toUpperCase() : '';
+  if (!CURRENCY_REGEX.test(code)) {
+    throw new ValidationError(`${field} must be a 3-letter ISO currency code`);
+  }
+
+  const sql = 'SELECT code FROM supported_currencies WHERE code = $1 AND active = true';
+  const result = client ? await client.query(sql, [code]) : await db.query(sql, [code]);
+  if (result.rows.length === 0) {
+    throw new ValidationError(`${field} '${code}' is not a supported currency`);
+  }
+
+  return code;
+}
+
+/**
+ * Validate a partial invoice_config update
+ */
+function validateInvoiceConfig(config: unknown): Partial<InvoiceConfig> {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError('invoice_config must be an object');
+  }
+
+  const input = config as Record<string, any>;
+  const unknown = Object.keys(input).filter((key) => !INVOICE_CONFIG_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown invoice_config fields: ${unknown.join(', ')}. Allowed: ${INVOICE_CONFIG_FIELDS.join(', ')}`
+    );
+  }
+
+  if (input.number_prefix !== undefined) {
+    if (typeof input.number_prefix !== 'string' || !NUMBER_PREFIX_REGEX.test(input.number_prefix)) {
+      throw new ValidationError('invoice_config.number_prefix must be up to 10 letters or digits');
+    }
+  }
+
+  if (input.number_format !== undefined) {
+    const format = input.number_format;
+    if (
+      typeof format !== 'string' ||
+      format.length > MAX_NUMBER_FORMAT_LENGTH ||
+      !NUMBER_FORMAT_REGEX.test(format) ||
+      (format.match(/N+/g) || []).length > 1
+    ) {
+      throw new ValidationError(
+        'invoice_config.number_format may only combine YYYY, YY, MM, one run of N (the sequence) and the separators - / _ .'
+      );
+    }
+  }
+
+  if (input.logo_url !== undefined && input.logo_url !== null) {
+    let url: URL | null = null;
+    try {
+      url = typeof input.logo_url === 'string' ? new URL(input.logo_url) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || url.protocol !== 'https:' || input.logo_url.length > 500) {
+      throw new ValidationError('invoice_config.logo_url must be an https URL of at most 500 characters');
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(INVOICE_TEXT_FIELDS)) {
+    const value = input[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > maxLength)) {
+      throw new ValidationError(`invoice_config.${field} must be a string of at most ${maxLength} characters`);
+    }
+  }
+
+  if (input.color_primary !== undefined) {
+    if (typeof input.color_primary !== 'string' || !COLOR_REGEX.test(input.color_primary)) {
+      throw new ValidationError('invoice_config.color_primary must be a hex color like #1A2B3C');
+    }
+  }
+
+  if (input.show_xbs_branding !== undefined && typeof input.show_xbs_branding !== 'boolean') {
+    throw new ValidationError('invoice_config.show_xbs_branding must be a boolean');
+  }
+
+  return input as Partial<InvoiceConfig>;
+}
+
+/**
+ * Format application for API response (credentials and webhook secret omitted)
+ */
+function formatApplication(row: any): Application {
+  return {
+    id: row.id,
+    object: 'application',
+    name: row.name,
+    email: row.email,
+    default_currency: row.default_currency,
+    timezone: row.timezone,
+    analytics_currency: row.analytics_currency,
+    invoice_config: row.invoice_config || {},
+    active: row.active,
+    trial_ends_at: row.trial_ends_at,
+    metadata: row.metadata || {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Format audit log entry for API response
+ */
+function formatAuditEntry(row: any): ApplicationAuditEntry {
+  return {
+    id: row.id,
+    object: 'application_audit_entry',
+    application_id: row.application_id,
+    action: row.action,
+    actor_type: row.actor_type,
+    actor_id: row.actor_id,
+    ip_address: row.ip_address,
+    changes: row.changes,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Create an application
+ * Emails are stored lowercased and must be unique (case-insensitively)
+ */
+export async function create(input: CreateApplicationInput, client?: PoolClient): Promise<Application> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new ValidationError(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!email || !validateEmail(email)) {
+    throw new ValidationError('Valid email is required');
+  }
+
+  const currency = input.default_currency
+    ? await validateSupportedCurrency(client || null, 'default_currency', input.default_currency)
+    : 'NGN';
+
+  const timezone = input.timezone || 'Africa/Lagos';
+  if (!validateTimezone(timezone)) {
+    throw new ValidationError('timezone must be a valid IANA timezone, e.g. Africa/Lagos');
+  }
+
+  const existsSql = 'SELECT id FROM applications WHERE LOWER(email) = $1';
+  const existing = client ? await client.query(existsSql, [email]) : await db.query(existsSql, [email]);
+  if (existing.rows.length > 0) {
+    throw new ConflictError('An application with this email already exists');
+  }
+
+  const sql = `INSERT INTO applications (name, email, password_hash, default_currency, timezone)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`;
+  const values = [name, email, input.password_hash, currency, timezone];
+
+  let result;
+  try {
+    result = client ? await client.query(sql, values) : await db.query(sql, values);
+  } catch (error: any) {
+    // Unique violation from a concurrent signup with the same email
+    if (error.code === '23505') {
+      throw new ConflictError('An application with this email already exists');
+    }
+    throw error;
+  }
+
+  logger.info('Application created', { applicationId: result.rows[0].id });
+  return formatApplication(result.rows[0]);
+}
+
+/**
+ * Get application by ID
+ */
+export async function getById(applicationId: string): Promise<Application> {
+  const result = await db.query('SELECT * FROM applications WHERE id = $1', [applicationId]);
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Application not found');
+  }
+
+  return formatApplication(result.rows[0]);
+}
+
+/**
+ * Update application settings
+ * invoice_config is merged field by field; every effective change is written
+ * to the audit log in the same transaction
+ */
+export async function update(
+  applicationId: string,
+  input: UpdateApplicationInput,
+  actor: AuditActor
+): Promise<Application> {
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim() || input.name.trim().length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`name must be between 1 and ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !validateTimezone(input.timezone))) {
+    throw new ValidationError('timezone must be a valid IANA timezone, e.g. Africa/Lagos');
+  }
+
+  const invoiceConfig = input.invoice_config !== undefined ? validateInvoiceConfig(input.invoice_config) : undefined;
+
+  return db.transaction(async (client) => {
+    const existing = await client.query('SELECT * FROM applications WHERE id = $1 FOR UPDATE', [applicationId]);
+    if (existing.rows.length === 0) {
+      throw new NotFoundError('Application not found');
+    }
+    const previous = existing.rows[0];
+
+    const next: Record<string, any> = {
+      name: input.name !== undefined ? input.name.trim() : previous.name,
+      default_currency:
+        input.default_currency !== undefined
+          ? await validateSupportedCurrency(client, 'default_currency', input.default_currency)
+          : previous.default_currency,
+      analytics_currency:
+        input.analytics_currency !== undefined
+          ? await validateSupportedCurrency(client, 'analytics_currency', input.analytics_currency)
+          : previous.analytics_currency,
+      timezone: input.timezone !== undefined ? input.timezone : previous.timezone,
+      invoice_config: { ...(previous.invoice_config || {}), ...(invoiceConfig || {}) },
+    };
+
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const field of AUDITED_FIELDS) {
+      if (field === 'invoice_config') {
+        for (const key of Object.keys(invoiceConfig || {})) {
+          const from = previous.invoice_config?.[key] ?? null;
+          const to = next.invoice_config[key] ?? null;
+          if (from !== to) {
+            changes[`invoice_config.${key}`] = { from, to };
+          }
+        }
+      } else if (previous[field] !== next[field]) {
+        changes[field] = { from: previous[field], to: next[field] };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return formatApplication(previous);
+    }
+
+    const result = await client.query(
+      `UPDATE applications
+       SET name = $1, default_currency = $2, analytics_currency = $3, timezone = $4,
+           invoice_config = $5, updated_at = NOW()
+       WHERE id = $6
+       RETURNING *`,
+      [
+        next.name,
+        next.default_currency,
+        next.analytics_currency,
+        next.timezone,
+        JSON.stringify(next.invoice_config),
+        applicationId,
+      ]
+    );
+
+    await client.query(
+      `INSERT INTO application_audit_log (application_id, action, actor_type, actor_id, ip_address, changes)
+       VALUES ($1, 'application.updated', $2, $3, $4, $5)`,
+      [applicationId, actor.type, actor.id, actor.ip?.slice(0, 45) || null, JSON.stringify(changes)]
+    );
+
+    logger.info('Application updated', { applicationId, fields: Object.keys(changes) });
+    return formatApplication(result.rows[0]);
+  });
+}
+
+/**
+ * List audit log entries, newest first
+ */
+export async function listAuditLog(
+  applicationId: string,
+  params: ListAuditLogParams = {}
+): Promise<{ data: ApplicationAuditEntry[]; has_more: boolean }> {
+  const { limit = 10, starting_after } = params;
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1'];
+  const values: any[] = [applicationId];
+  let paramIndex = 2;
+
+  if (starting_after) {
+    conditions.push(
+      `(created_at, id) < (SELECT created_at, id FROM application_audit_log WHERE id = $${paramIndex} AND application_id = $1)`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM application_audit_log
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatAuditEntry);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  create,
+  getById,
+  update,
+  listAuditLog,
+};
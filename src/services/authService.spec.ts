@@ -0,0 +1,148 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { createApiKey, hasPermission, validateApiKey } from './authService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+
+function newKey(): string {
+  return `xbs_sk_test_${crypto.randomBytes(16).toString('hex')}`;
+}
+
+function keyRow(overrides: Record<string, any> = {}) {
+  return {
+    id: crypto.randomUUID(),
+    application_id: APPLICATION_ID,
+    key_prefix: 'xbs_sk_test_',
+    key_hash: 'unused',
+    key_digest: null,
+    key_type: 'sk',
+    key_role: 'secret',
+    permissions: null,
+    active: true,
+    expires_at: null,
+    ip_whitelist: null,
+    last_used_at: null,
+    default_currency: 'NGN',
+    timezone: 'Africa/Lagos',
+    webhook_url: null,
+    webhook_secret: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Answer key lookups: `digestRows` for the digest index, `legacyRows` for the
+ * bcrypt scan. Every statement is recorded.
+ */
+function mockKeys(digestRows: any[], legacyRows: any[]) {
+  const calls: { sql: string; values: any[] }[] = [];
+  (db.query as jest.Mock).mockImplementation(async (sql: string, values: any[] = []) => {
+    calls.push({ sql, values });
+    if (sql.includes('ak.key_digest = $1')) {
+      return { rows: digestRows.map((row) => ({ ...row, key_digest: values[0] })) };
+    }
+    if (sql.includes('ak.key_digest IS NULL')) return { rows: legacyRows };
+    return { rows: [] };
+  });
+  return calls;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('validateApiKey', () => {
+  it('finds keys by digest without scanning legacy keys', async () => {
+    const calls = mockKeys([keyRow()], []);
+
+    const context = await validateApiKey(newKey(), '203.0.113.1');
+
+    expect(context).toMatchObject({ application_id: APPLICATION_ID, key_type: 'sk', test_mode: true });
+    expect(calls.some((call) => call.sql.includes('ak.key_digest IS NULL'))).toBe(false);
+  });
+
+  it('matches a legacy key by bcrypt, backfilling its digest and clearing the lookup deadline', async () => {
+    const key = newKey();
+    const row = keyRow({ key_hash: await bcrypt.hash(key, 4) });
+    const calls = mockKeys([], [keyRow({ key_hash: await bcrypt.hash(newKey(), 4) }), row]);
+
+    const context = await validateApiKey(key, '203.0.113.2');
+
+    expect(context.api_key_id).toBe(row.id);
+    const scan = calls.find((call) => call.sql.includes('ak.key_digest IS NULL'))!;
+    expect(scan.sql).toContain('ak.legacy_lookup_expires_at > NOW()');
+    expect(scan.values).toEqual(['xbs_sk_test_', `xbs_sk_test_…${key.slice(-4)}`]);
+    const backfill = calls.find((call) => call.sql.startsWith('UPDATE api_keys SET key_digest'))!;
+    expect(backfill.sql).toContain('legacy_lookup_expires_at = NULL');
+    expect(backfill.values[1]).toBe(row.id);
+  });
+
+  it('limits unknown keys per client without refusing valid keys from other clients', async () => {
+    const key = newKey();
+    const row = keyRow({ key_hash: await bcrypt.hash(key, 4) });
+    const calls = mockKeys([], [row]);
+
+    for (let i = 0; i < 10; i++) {
+      await expect(validateApiKey(newKey(), '198.51.100.7')).rejects.toThrow(
+        new AuthenticationError('Invalid API key')
+      );
+    }
+    const scans = () => calls.filter((call) => call.sql.includes('ak.key_digest IS NULL')).length;
+    expect(scans()).toBe(10);
+
+    await expect(validateApiKey(newKey(), '198.51.100.7')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(scans()).toBe(10);
+
+    const context = await validateApiKey(key, '203.0.113.3');
+    expect(context.api_key_id).toBe(row.id);
+  });
+
+  it('rejects malformed keys before any lookup', async () => {
+    await expect(validateApiKey('xbs_sk_test_short', '203.0.113.4')).rejects.toThrow(
+      new AuthenticationError('Invalid API key format')
+    );
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('hasPermission', () => {
+  it('grants read with either permission and write only with write', () => {
+    expect(hasPermission(['invoices:read'], 'invoices', 'read')).toBe(true);
+    expect(hasPermission(['invoices:read'], 'invoices', 'write')).toBe(false);
+    expect(hasPermission(['invoices:write'], 'invoices', 'read')).toBe(true);
+    expect(hasPermission(['invoices:write'], 'invoices', 'write')).toBe(true);
+  });
+
+  it('does not carry permissions across resources', () => {
+    expect(hasPermission(['customers:write'], 'invoices', 'read')).toBe(false);
+    expect(hasPermission([], 'invoices', 'read')).toBe(false);
+    expect(hasPermission(null, 'invoices', 'read')).toBe(false);
+  });
+});
+
+describe('createApiKey', () => {
+  it('requires a valid permission set on restricted keys', async () => {
+    await expect(createApiKey(APPLICATION_ID, true, { type: 'restricted' })).rejects.toThrow(
+      new ValidationError('Restricted keys require a non-empty permissions array')
+    );
+    await expect(
+      createApiKey(APPLICATION_ID, true, { type: 'restricted', permissions: ['invoices:read', 'api_keys:write'] })
+    ).rejects.toThrow(/^Invalid permissions: api_keys:write\./);
+    await expect(
+      createApiKey(APPLICATION_ID, true, { type: 'restricted', permissions: ['invoices:delete'] })
+    ).rejects.toThrow(/^Invalid permissions: invoices:delete\./);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('refuses permissions on unrestricted keys', async () => {
+    await expect(
+      createApiKey(APPLICATION_ID, true, { type: 'secret', permissions: ['invoices:read'] })
+    ).rejects.toThrow(new ValidationError('permissions can only be set on restricted keys'));
+  });
+});
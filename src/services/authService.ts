@@ -5,19 +5,53 @@
 
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
+import { PoolClient } from 'pg';
 import { db } from '../config/database';
-import { AuthenticationError, NotFoundError } from '../utils/errors';
+import { env } from '../config/env';
+import { AuthenticationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { ipMatchesAny, normalizeIpRange } from '../utils/ip';
 import logger from '../config/logger';
 
-// API Key format: xbs_{pk|sk}_{test|live}_{32 random chars}
-const API_KEY_REGEX = /^xbs_(pk|sk)_(test|live)_[a-zA-Z0-9]{32}$/;
+// API Key format: xbs_{pk|sk|rk}_{test|live}_{32 random chars}
+const API_KEY_REGEX = /^xbs_(pk|sk|rk)_(test|live)_[a-zA-Z0-9]{32}$/;
 const BCRYPT_ROUNDS = 12;
+const MAX_NAME_LENGTH = 100;
+const MAX_IP_WHITELIST_ENTRIES = 50;
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+const MAX_CACHED_KEYS = 10000;
+// Unmatched bcrypt scans for keys without a digest allowed per client IP per
+// minute. Migration 032 ends those scans 90 days after it runs, after which
+// the scan finds nothing and can be removed.
+const MAX_LEGACY_MISSES_PER_MINUTE = 10;
+const MAX_TRACKED_LEGACY_CLIENTS = 10000;
+
+// Resources a restricted key can be granted `<resource>:read` or `<resource>:write` on
+export const PERMISSION_RESOURCES = [
+  'customers',
+  'plans',
+  'subscriptions',
+  'invoices',
+  'usage_metrics',
+  'events',
+  'coupons',
+] as const;
+
+// Lookup digests are keyed so a leaked api_keys table cannot be used to
+// confirm guessed keys without the server's ENCRYPTION_KEY
+const DIGEST_KEY = crypto.createHmac('sha256', env.ENCRYPTION_KEY).update('xbs:api-key-digest').digest();
+
+// Validated key rows by digest. Revocation and rotation invalidate entries in
+// this process; other processes pick changes up within API_KEY_CACHE_TTL_MS.
+const keyCache = new Map<string, { row: any; cachedAt: number }>();
+const legacyMisses = new Map<string, { windowStart: number; count: number }>();
 
 export interface AuthContext {
   application_id: string;
-  api_key_id: string;
-  key_type: 'pk' | 'sk';
+  api_key_id: string | null; // null for dashboard sessions
+  session_id: string | null; // dashboard session, if signed in with a JWT
+  key_type: ApiKeyPrefix;
   key_role: string;
+  permissions: string[] | null; // restricted keys only
   test_mode: boolean;
   default_currency: string;
   timezone: string;
@@ -36,6 +70,61 @@ export interface ApiKeyRecord {
   expires_at: Date | null;
   ip_whitelist: string[] | null;
   last_used_at: Date | null;
+  name: string | null;
+  permissions: string[] | null;
+  replaced_by_key_id: string | null;
+}
+
+export type ApiKeyType = 'publishable' | 'secret' | 'restricted';
+export type ApiKeyPrefix = 'pk' | 'sk' | 'rk';
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number];
+export type PermissionAccess = 'read' | 'write';
+
+const KEY_PREFIX_BY_TYPE: Record<ApiKeyType, ApiKeyPrefix> = {
+  publishable: 'pk',
+  secret: 'sk',
+  restricted: 'rk',
+};
+
+export interface ApiKey {
+  id: string;
+  object: 'api_key';
+  application_id: string;
+  name: string | null;
+  type: ApiKeyType;
+  livemode: boolean;
+  permissions: string[] | null;
+  key_prefix: string;
+  key_hint: string | null;
+  active: boolean;
+  expires_at: Date | null;
+  ip_whitelist: string[];
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  rotated_at: Date | null;
+  replaced_by_key_id: string | null;
+  created_at: Date;
+}
+
+// Returned only when a key is created or rotated
+export interface ApiKeyWithSecret extends ApiKey {
+  key: string;
+}
+
+export interface CreateApiKeyInput {
+  name?: string;
+  type?: ApiKeyType;
+  permissions?: string[];
+  expires_at?: string;
+  ip_whitelist?: string[];
+}
+
+interface KeyMaterial {
+  key: string;
+  prefix: string;
+  hash: string;
+  digest: string;
+  hint: string;
 }
 
 /**
@@ -52,36 +141,12 @@ export async function validateApiKey(
 
   // Parse key components
   const parts = keyString.split('_');
-  const keyType = parts[1] as 'pk' | 'sk';
+  const keyType = parts[1] as ApiKeyPrefix;
   const environment = parts[2] as 'test' | 'live';
   const prefix = `xbs_${keyType}_${environment}_`;
 
-  // Find all active keys matching this prefix
-  const keysResult = await db.query<any>(
-    `SELECT ak.id, ak.application_id, ak.key_prefix, ak.key_hash, ak.key_type,
-            ak.key_role, ak.active, ak.expires_at, ak.ip_whitelist, ak.last_used_at,
-            a.default_currency, a.timezone, a.webhook_url, a.webhook_secret
-     FROM api_keys ak
-     JOIN applications a ON ak.application_id = a.id
-     WHERE ak.key_prefix = $1
-       AND ak.active = true
-       AND a.active = true`,
-    [prefix]
-  );
-
-  if (keysResult.rows.length === 0) {
-    throw new AuthenticationError('Invalid API key');
-  }
-
-  // Check each key hash (bcrypt comparison)
-  let matchedKey: any = null;
-  for (const key of keysResult.rows) {
-    const isMatch = await bcrypt.compare(keyString, key.key_hash);
-    if (isMatch) {
-      matchedKey = key;
-      break;
-    }
-  }
+  const digest = computeKeyDigest(keyString);
+  const matchedKey = await findActiveKey(keyString, digest, prefix, clientIp || 'unknown');
 
   if (!matchedKey) {
     throw new AuthenticationError('Invalid API key');
@@ -94,7 +159,7 @@ export async function validateApiKey(
 
   // Check IP whitelist
   if (matchedKey.ip_whitelist && matchedKey.ip_whitelist.length > 0 && clientIp) {
-    if (!matchedKey.ip_whitelist.includes(clientIp)) {
+    if (!ipMatchesAny(clientIp, matchedKey.ip_whitelist)) {
       throw new AuthenticationError('IP address not whitelisted');
     }
   }
@@ -107,8 +172,10 @@ export async function validateApiKey(
   return {
     application_id: matchedKey.application_id,
     api_key_id: matchedKey.id,
+    session_id: null,
     key_type: keyType,
     key_role: matchedKey.key_role,
+    permissions: matchedKey.permissions,
     test_mode: environment === 'test',
     default_currency: matchedKey.default_currency || 'NGN',
     timezone: matchedKey.timezone || 'Africa/Lagos',
@@ -117,54 +184,378 @@ export async function validateApiKey(
   };
 }
 
+/**
+ * Keyed SHA-256 digest used to look a key up
+ */
+function computeKeyDigest(key: string): string {
+  return crypto.createHmac('sha256', DIGEST_KEY).update(key).digest('hex');
+}
+
+/**
+ * Whether a client may run another legacy bcrypt scan this minute. Only scans
+ * that matched nothing count, so a valid key is refused only from a client
+ * that has been presenting unknown keys.
+ */
+function allowLegacyScan(clientIp: string): boolean {
+  const misses = legacyMisses.get(clientIp);
+  return !misses || Date.now() - misses.windowStart >= 60_000 || misses.count < MAX_LEGACY_MISSES_PER_MINUTE;
+}
+
+/**
+ * Count a legacy bcrypt scan that matched nothing against the client
+ */
+function recordLegacyMiss(clientIp: string): void {
+  const now = Date.now();
+  const misses = legacyMisses.get(clientIp);
+  if (misses && now - misses.windowStart < 60_000) {
+    misses.count++;
+    return;
+  }
+
+  legacyMisses.delete(clientIp);
+  if (legacyMisses.size >= MAX_TRACKED_LEGACY_CLIENTS) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    legacyMisses.delete(legacyMisses.keys().next().value as string);
+  }
+  legacyMisses.set(clientIp, { windowStart: now, count: 1 });
+}
+
+/**
+ * Resolve a presented key to its active row: cache first, then the digest
+ * index, then (for keys created before digests existed, until their lookup
+ * deadline) a bcrypt scan of the legacy keys with the same prefix and hint,
+ * limited per client IP, backfilling the digest on match
+ */
+async function findActiveKey(
+  keyString: string,
+  digest: string,
+  prefix: string,
+  clientIp: string
+): Promise<any | null> {
+  const cached = keyCache.get(digest);
+  if (cached && Date.now() - cached.cachedAt < env.API_KEY_CACHE_TTL_MS) {
+    return cached.row;
+  }
+  keyCache.delete(digest);
+
+  const columns = `ak.id, ak.application_id, ak.key_prefix, ak.key_hash, ak.key_digest, ak.key_type,
+            ak.key_role, ak.permissions, ak.active, ak.expires_at, ak.ip_whitelist, ak.last_used_at,
+            a.default_currency, a.timezone, a.webhook_url, a.webhook_secret`;
+
+  const result = await db.query<any>(
+    `SELECT ${columns}
+     FROM api_keys ak
+     JOIN applications a ON ak.application_id = a.id
+     WHERE ak.key_digest = $1
+       AND ak.active = true
+       AND a.active = true`,
+    [digest]
+  );
+
+  let matchedKey: any = null;
+  if (result.rows.length > 0) {
+    // The index lookup already matched; compare in constant time regardless
+    const stored = Buffer.from(result.rows[0].key_digest, 'hex');
+    const presented = Buffer.from(digest, 'hex');
+    if (stored.length === presented.length && crypto.timingSafeEqual(stored, presented)) {
+      matchedKey = result.rows[0];
+    }
+  } else if (!allowLegacyScan(clientIp)) {
+    logger.warn('Legacy API key scan limit reached', { prefix, clientIp });
+  } else {
+    const legacy = await db.query<any>(
+      `SELECT ${columns}
+       FROM api_keys ak
+       JOIN applications a ON ak.application_id = a.id
+       WHERE ak.key_prefix = $1
+         AND (ak.key_hint IS NULL OR ak.key_hint = $2)
+         AND ak.key_digest IS NULL
+         AND ak.legacy_lookup_expires_at > NOW()
+         AND ak.active = true
+         AND (ak.expires_at IS NULL OR ak.expires_at > NOW())
+         AND a.active = true`,
+      [prefix, `${prefix}…${keyString.slice(-4)}`]
+    );
+
+    for (const key of legacy.rows) {
+      if (await bcrypt.compare(keyString, key.key_hash)) {
+        matchedKey = key;
+        break;
+      }
+    }
+
+    if (matchedKey) {
+      await db.query(
+        `UPDATE api_keys SET key_digest = $1, legacy_lookup_expires_at = NULL
+         WHERE id = $2 AND key_digest IS NULL`,
+        [digest, matchedKey.id]
+      );
+      logger.info('Legacy API key digest backfilled', {
+        keyId: matchedKey.id,
+        applicationId: matchedKey.application_id,
+      });
+    } else {
+      recordLegacyMiss(clientIp);
+    }
+  }
+
+  if (matchedKey && env.API_KEY_CACHE_TTL_MS > 0) {
+    if (keyCache.size >= MAX_CACHED_KEYS) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      keyCache.delete(keyCache.keys().next().value as string);
+    }
+    keyCache.set(digest, { row: matchedKey, cachedAt: Date.now() });
+  }
+
+  return matchedKey;
+}
+
+/**
+ * Drop a key from this process's validation cache
+ */
+function invalidateCachedKey(keyId: string): void {
+  for (const [digest, entry] of keyCache) {
+    if (entry.row.id === keyId) {
+      keyCache.delete(digest);
+    }
+  }
+}
+
+/**
+ * Format API key for API response (hash omitted)
+ */
+function formatApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    object: 'api_key',
+    application_id: row.application_id,
+    name: row.name,
+    type: row.key_role,
+    livemode: row.key_type === 'live',
+    permissions: row.permissions,
+    key_prefix: row.key_prefix,
+    key_hint: row.key_hint,
+    active: row.active,
+    expires_at: row.expires_at,
+    ip_whitelist: row.ip_whitelist || [],
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+    rotated_at: row.rotated_at,
+    replaced_by_key_id: row.replaced_by_key_id,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Generate a random key and its hash
+ */
+async function createKeyMaterial(keyType: ApiKeyPrefix, environment: 'test' | 'live'): Promise<KeyMaterial> {
+  // Generate random key (hex = only [0-9a-f], safe for regex and splitting on _)
+  const randomPart = crypto.randomBytes(16).toString('hex'); // exactly 32 hex chars
+  const prefix = `xbs_${keyType}_${environment}_`;
+  const key = `${prefix}${randomPart}`;
+
+  return {
+    key,
+    prefix,
+    hash: await hashApiKey(key),
+    digest: computeKeyDigest(key),
+    hint: `${prefix}…${randomPart.slice(-4)}`,
+  };
+}
+
+/**
+ * Insert a key row from generated material
+ */
+async function insertApiKey(
+  client: PoolClient | null,
+  applicationId: string,
+  material: KeyMaterial,
+  environment: 'test' | 'live',
+  keyRole: ApiKeyType,
+  options: {
+    name?: string | null;
+    permissions?: string[] | null;
+    expiresAt?: Date | null;
+    ipWhitelist?: string[] | null;
+  }
+): Promise<any> {
+  // DB key_type stores the environment: 'test' | 'live'
+  const sql = `INSERT INTO api_keys (
+      application_id, key_prefix, key_hash, key_digest, key_hint, key_type, key_role,
+      name, permissions, expires_at, ip_whitelist, active
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, true)
+    RETURNING *`;
+  const values = [
+    applicationId,
+    material.prefix,
+    material.hash,
+    material.digest,
+    material.hint,
+    environment,
+    keyRole,
+    options.name || null,
+    keyRole === 'restricted' ? options.permissions || [] : null,
+    options.expiresAt || null,
+    options.ipWhitelist && options.ipWhitelist.length > 0 ? options.ipWhitelist : null,
+  ];
+
+  const result = client ? await client.query(sql, values) : await db.query(sql, values);
+  return result.rows[0];
+}
+
 /**
  * Generate a new API key
  */
 export async function generateApiKey(
   applicationId: string,
-  keyType: 'pk' | 'sk',
+  keyType: ApiKeyPrefix,
   environment: 'test' | 'live',
   role: string = 'default',
   options: {
+    name?: string;
+    permissions?: string[];
     expiresAt?: Date;
     ipWhitelist?: string[];
   } = {}
 ): Promise<{ key: string; keyId: string }> {
-  // Generate random key (hex = only [0-9a-f], safe for regex and splitting on _)
-  const randomPart = crypto.randomBytes(16).toString('hex'); // exactly 32 hex chars
-  const key = `xbs_${keyType}_${environment}_${randomPart}`;
-  const prefix = `xbs_${keyType}_${environment}_`;
+  const material = await createKeyMaterial(keyType, environment);
 
-  // Map pk/sk to publishable/secret for DB storage
-  const dbKeyRole = keyType === 'pk' ? 'publishable' : 'secret';
-  // DB key_type stores the environment: 'test' | 'live'
-  const dbKeyType = environment;
+  // Map pk/sk/rk to publishable/secret/restricted for DB storage
+  const dbKeyRole: ApiKeyType = keyType === 'pk' ? 'publishable' : keyType === 'rk' ? 'restricted' : 'secret';
+
+  const row = await insertApiKey(null, applicationId, material, environment, dbKeyRole, options);
 
-  // Hash the key
-  const keyHash = await hashApiKey(key);
+  return {
+    key: material.key, // Return unhashed key (only time it's visible)
+    keyId: row.id,
+  };
+}
 
-  // Insert into database using actual schema columns
+/**
+ * Validate IP whitelist entries (addresses or CIDR ranges, IPv4 or IPv6)
+ */
+function validateIpWhitelist(ipWhitelist: unknown): string[] | undefined {
+  if (ipWhitelist === undefined || ipWhitelist === null) {
+    return undefined;
+  }
+  if (!Array.isArray(ipWhitelist) || ipWhitelist.length > MAX_IP_WHITELIST_ENTRIES) {
+    throw new ValidationError(
+      `ip_whitelist must be an array of at most ${MAX_IP_WHITELIST_ENTRIES} IP addresses or CIDR ranges`
+    );
+  }
+
+  const normalized = ipWhitelist.map((entry) => (typeof entry === 'string' ? normalizeIpRange(entry) : null));
+  const invalid = ipWhitelist.filter((_, index) => normalized[index] === null);
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid IP address or CIDR range in ip_whitelist: ${invalid.join(', ')}`);
+  }
+
+  return Array.from(new Set<string>(normalized as string[]));
+}
+
+/**
+ * Validate a restricted key's permission set (`<resource>:<read|write>`)
+ */
+function validatePermissions(permissions: unknown): string[] {
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    throw new ValidationError('Restricted keys require a non-empty permissions array');
+  }
+
+  const invalid = permissions.filter((permission) => {
+    if (typeof permission !== 'string') return true;
+    const [resource, access] = permission.split(':');
+    return (
+      !(PERMISSION_RESOURCES as readonly string[]).includes(resource) ||
+      (access !== 'read' && access !== 'write')
+    );
+  });
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid permissions: ${invalid.join(', ')}. Use <resource>:read or <resource>:write where resource is one of: ${PERMISSION_RESOURCES.join(', ')}`
+    );
+  }
+
+  return Array.from(new Set<string>(permissions)).sort();
+}
+
+/**
+ * Whether a restricted key's permissions grant access (write implies read)
+ */
+export function hasPermission(
+  permissions: string[] | null,
+  resource: PermissionResource,
+  access: PermissionAccess
+): boolean {
+  if (!permissions) return false;
+  return permissions.includes(`${resource}:write`) || (access === 'read' && permissions.includes(`${resource}:read`));
+}
+
+/**
+ * Create an API key in the requesting key's mode; the response is the only
+ * time the full key is shown
+ */
+export async function createApiKey(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateApiKeyInput
+): Promise<ApiKeyWithSecret> {
+  const type = input.type || 'secret';
+  if (!Object.keys(KEY_PREFIX_BY_TYPE).includes(type)) {
+    throw new ValidationError('Invalid type. Must be one of: secret, publishable, restricted');
+  }
+
+  let permissions: string[] | undefined;
+  if (type === 'restricted') {
+    permissions = validatePermissions(input.permissions);
+  } else if (input.permissions !== undefined) {
+    throw new ValidationError('permissions can only be set on restricted keys');
+  }
+
+  if (input.name !== undefined && (typeof input.name !== 'string' || input.name.length > MAX_NAME_LENGTH)) {
+    throw new ValidationError(`name must be a string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  let expiresAt: Date | undefined;
+  if (input.expires_at !== undefined && input.expires_at !== null) {
+    expiresAt = new Date(input.expires_at);
+    if (isNaN(expiresAt.getTime())) {
+      throw new ValidationError('expires_at must be an ISO 8601 timestamp');
+    }
+    if (expiresAt <= new Date()) {
+      throw new ValidationError('expires_at must be in the future');
+    }
+  }
+
+  const ipWhitelist = validateIpWhitelist(input.ip_whitelist);
+  const environment = testMode ? 'test' : 'live';
+  const material = await createKeyMaterial(KEY_PREFIX_BY_TYPE[type], environment);
+
+  const row = await insertApiKey(null, applicationId, material, environment, type, {
+    name: input.name?.trim(),
+    permissions,
+    expiresAt,
+    ipWhitelist,
+  });
+
+  logger.info('API key created', { keyId: row.id, applicationId, type, environment });
+  return { ...formatApiKey(row), key: material.key };
+}
+
+/**
+ * Get an API key by ID within the given mode
+ */
+export async function getApiKey(applicationId: string, keyId: string, testMode: boolean): Promise<ApiKey> {
   const result = await db.query(
-    `INSERT INTO api_keys (
-      application_id, key_prefix, key_hash, key_type, key_role,
-      expires_at, ip_whitelist, active
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, true)
-    RETURNING id`,
-    [
-      applicationId,
-      prefix,
-      keyHash,
-      dbKeyType,
-      dbKeyRole,
-      options.expiresAt || null,
-      options.ipWhitelist || null,
-    ]
+    'SELECT * FROM api_keys WHERE id = $1 AND application_id = $2 AND key_type = $3',
+    [keyId, applicationId, testMode ? 'test' : 'live']
   );
 
-  return {
-    key, // Return unhashed key (only time it's visible)
-    keyId: result.rows[0].id,
-  };
+  if (result.rows.length === 0) {
+    throw new NotFoundError('API key not found');
+  }
+
+  return formatApiKey(result.rows[0]);
 }
 
 /**
@@ -186,35 +577,57 @@ export async function updateLastUsed(keyId: string): Promise<void> {
 
 /**
  * Revoke an API key
+ * With `testMode`, only keys of that mode can be revoked; `currentKeyId` (the
+ * key making the request) cannot revoke itself.
  */
 export async function revokeApiKey(
   applicationId: string,
-  keyId: string
-): Promise<void> {
+  keyId: string,
+  options: { testMode?: boolean; currentKeyId?: string } = {}
+): Promise<ApiKey> {
+  if (options.currentKeyId === keyId) {
+    throw new ValidationError('An API key cannot revoke itself');
+  }
+
   const result = await db.query(
     `UPDATE api_keys
-     SET active = false
-     WHERE id = $1 AND application_id = $2
-     RETURNING id`,
-    [keyId, applicationId]
+     SET active = false, revoked_at = COALESCE(revoked_at, NOW())
+     WHERE id = $1 AND application_id = $2 AND ($3::text IS NULL OR key_type = $3)
+     RETURNING *`,
+    [keyId, applicationId, options.testMode === undefined ? null : options.testMode ? 'test' : 'live']
   );
 
   if (result.rows.length === 0) {
     throw new NotFoundError('API key not found');
   }
+
+  invalidateCachedKey(keyId);
+  logger.info('API key revoked', { keyId, applicationId });
+  return formatApiKey(result.rows[0]);
 }
 
 /**
- * Rotate an API key (revoke old, create new)
+ * Rotate an API key: issue a replacement with the same name, type, expiry and
+ * IP whitelist, and keep the old key working for a grace period (0 revokes it
+ * immediately) so clients can switch over without downtime
  */
 export async function rotateApiKey(
   applicationId: string,
-  keyId: string
-): Promise<{ key: string; keyId: string }> {
+  keyId: string,
+  options: { testMode?: boolean; gracePeriodHours?: number } = {}
+): Promise<ApiKeyWithSecret> {
+  const graceHours = options.gracePeriodHours ?? env.API_KEY_ROTATION_GRACE_HOURS;
+  if (typeof graceHours !== 'number' || !Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+    throw new ValidationError(
+      `grace_period_hours must be an integer between 0 and ${MAX_ROTATION_GRACE_HOURS}`
+    );
+  }
+
   // Get existing key details
   const existing = await db.query<ApiKeyRecord>(
-    'SELECT * FROM api_keys WHERE id = $1 AND application_id = $2 AND active = true',
-    [keyId, applicationId]
+    `SELECT * FROM api_keys
+     WHERE id = $1 AND application_id = $2 AND active = true AND ($3::text IS NULL OR key_type = $3)`,
+    [keyId, applicationId, options.testMode === undefined ? null : options.testMode ? 'test' : 'live']
   );
 
   if (existing.rows.length === 0) {
@@ -222,39 +635,85 @@ export async function rotateApiKey(
   }
 
   const oldKey = existing.rows[0];
+  if (oldKey.replaced_by_key_id) {
+    throw new ConflictError('API key has already been rotated');
+  }
 
-  // Derive pk/sk from key_prefix (e.g. 'xbs_pk_test_' → 'pk')
+  // Derive pk/sk/rk from key_prefix (e.g. 'xbs_pk_test_' → 'pk')
   const prefixParts = oldKey.key_prefix.split('_');
-  const pkSk = prefixParts[1] as 'pk' | 'sk';
+  const pkSk = prefixParts[1] as ApiKeyPrefix;
   const environment = prefixParts[2] as 'test' | 'live';
 
-  // Revoke old key
-  await revokeApiKey(applicationId, keyId);
+  const material = await createKeyMaterial(pkSk, environment);
 
-  // Generate new key with same settings
-  return generateApiKey(applicationId, pkSk, environment, oldKey.key_role, {
-    ipWhitelist: oldKey.ip_whitelist || undefined,
+  const row = await db.transaction(async (client) => {
+    // Lock and re-check so concurrent rotations issue only one replacement
+    const locked = await client.query(
+      'SELECT replaced_by_key_id, active FROM api_keys WHERE id = $1 FOR UPDATE',
+      [keyId]
+    );
+    if (!locked.rows[0].active || locked.rows[0].replaced_by_key_id) {
+      throw new ConflictError('API key has already been rotated');
+    }
+
+    const replacement = await insertApiKey(client, applicationId, material, environment, oldKey.key_role as ApiKeyType, {
+      name: oldKey.name,
+      permissions: oldKey.permissions,
+      expiresAt: oldKey.expires_at,
+      ipWhitelist: oldKey.ip_whitelist,
+    });
+
+    await client.query(
+      `UPDATE api_keys
+       SET rotated_at = NOW(), replaced_by_key_id = $1,
+           active = $2 > 0,
+           revoked_at = CASE WHEN $2 > 0 THEN revoked_at ELSE NOW() END,
+           expires_at = CASE WHEN $2 > 0
+             THEN LEAST(COALESCE(expires_at, 'infinity'::timestamp), NOW() + make_interval(hours => $2))
+             ELSE expires_at END
+       WHERE id = $3`,
+      [replacement.id, graceHours, keyId]
+    );
+
+    return replacement;
   });
+
+  invalidateCachedKey(keyId);
+  logger.info('API key rotated', { keyId, newKeyId: row.id, applicationId, graceHours });
+  return { ...formatApiKey(row), key: material.key };
 }
 
 /**
- * List API keys for an application (without hashes)
+ * List API keys for an application (without hashes), newest first
  */
 export async function listApiKeys(
   applicationId: string,
-  options: { includeRevoked?: boolean } = {}
-): Promise<Omit<ApiKeyRecord, 'key_hash'>[]> {
-  const query = options.includeRevoked
-    ? 'SELECT id, application_id, key_prefix, key_type, key_role, active, expires_at, ip_whitelist, last_used_at, created_at FROM api_keys WHERE application_id = $1 ORDER BY created_at DESC'
-    : 'SELECT id, application_id, key_prefix, key_type, key_role, active, expires_at, ip_whitelist, last_used_at, created_at FROM api_keys WHERE application_id = $1 AND active = true ORDER BY created_at DESC';
-
-  const result = await db.query(query, [applicationId]);
-  return result.rows;
+  options: { includeRevoked?: boolean; testMode?: boolean } = {}
+): Promise<ApiKey[]> {
+  const conditions: string[] = ['application_id = $1'];
+  const values: any[] = [applicationId];
+
+  if (options.testMode !== undefined) {
+    values.push(options.testMode ? 'test' : 'live');
+    conditions.push(`key_type = $${values.length}`);
+  }
+  if (!options.includeRevoked) {
+    conditions.push('active = true');
+  }
+
+  const result = await db.query(
+    `SELECT * FROM api_keys WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`,
+    values
+  );
+  return result.rows.map(formatApiKey);
 }
 
 export default {
   validateApiKey,
   generateApiKey,
+  createApiKey,
+  getApiKey,
+  hasPermission,
   hashApiKey,
   updateLastUsed,
   revokeApiKey,
@@ -0,0 +1,46 @@
+import { appliesToCurrency, calculateAmountOff, Coupon } from './couponService';
+
+function buildCoupon(overrides: Partial<Coupon>): Coupon {
+  return {
+    id: 'coupon_1',
+    object: 'coupon',
+    name: 'Launch',
+    percent_off: null,
+    amounts_off: null,
+    duration: 'once',
+    duration_in_months: null,
+    active: true,
+    times_redeemed: 0,
+    metadata: {},
+    test_mode: true,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('calculateAmountOff', () => {
+  it('rounds percentage discounts to the smallest unit', () => {
+    const coupon = buildCoupon({ percent_off: 15 });
+
+    expect(calculateAmountOff(coupon, 'NGN', 3333)).toBe(500);
+  });
+
+  it('never takes more than the amount', () => {
+    expect(calculateAmountOff(buildCoupon({ percent_off: 100 }), 'NGN', 4200)).toBe(4200);
+    expect(calculateAmountOff(buildCoupon({ amounts_off: { NGN: 5000 } }), 'NGN', 4200)).toBe(4200);
+    expect(calculateAmountOff(buildCoupon({ amounts_off: { NGN: 1000 } }), 'ngn', 4200)).toBe(1000);
+  });
+
+  it('takes nothing off a zero or negative amount', () => {
+    expect(calculateAmountOff(buildCoupon({ percent_off: 50 }), 'NGN', 0)).toBe(0);
+    expect(calculateAmountOff(buildCoupon({ amounts_off: { NGN: 1000 } }), 'NGN', -500)).toBe(0);
+  });
+
+  it('takes nothing off in a currency the coupon has no amount for', () => {
+    const coupon = buildCoupon({ amounts_off: { NGN: 1000 } });
+
+    expect(appliesToCurrency(coupon, 'KES')).toBe(false);
+    expect(calculateAmountOff(coupon, 'KES', 4200)).toBe(0);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Coupon Service
+ * Percent-off or per-currency amount-off coupons, redeemed directly or through
+ * promotion codes and applied to subscriptions or customers as discounts
+ */
+
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import eventService from './eventService';
+
+// Types
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+export interface Coupon {
+  id: string;
+  object: 'coupon';
+  name: string;
+  percent_off: number | null;
+  amounts_off: Record<string, number> | null; // Currency → smallest unit
+  duration: CouponDuration;
+  duration_in_months: number | null;
+  active: boolean;
+  times_redeemed: number;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateCouponInput {
+  name: string;
+  percent_off?: number;
+  amounts_off?: Record<string, number>;
+  duration: CouponDuration;
+  duration_in_months?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateCouponInput {
+  name?: string;
+  active?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface ListCouponsParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  active?: boolean;
+}
+
+export interface ListCouponsResult {
+  data: Coupon[];
+  has_more: boolean;
+}
+
+// Validation constants
+const VALID_DURATIONS: CouponDuration[] = ['once', 'repeating', 'forever'];
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+const MAX_DURATION_IN_MONTHS = 120;
+
+/**
+ * Format coupon for API response
+ */
+export function formatCoupon(row: any): Coupon {
+  return {
+    id: row.id,
+    object: 'coupon',
+    name: row.name,
+    percent_off: row.percent_off !== null ? parseFloat(row.percent_off) : null,
+    amounts_off: row.amounts_off,
+    duration: row.duration,
+    duration_in_months: row.duration_in_months,
+    active: row.active,
+    times_redeemed: row.times_redeemed,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Validate the discount (exactly one of percent_off or amounts_off) and
+ * duration of a new coupon. Returns amounts_off keyed by upper-case currency.
+ */
+function validateCouponInput(input: CreateCouponInput): Record<string, number> | null {
+  if (!input.name || input.name.trim().length === 0) {
+    throw new ValidationError('Coupon name is required');
+  }
+
+  const hasPercent = input.percent_off !== undefined && input.percent_off !== null;
+  const hasAmounts = input.amounts_off !== undefined && input.amounts_off !== null;
+  if (hasPercent === hasAmounts) {
+    throw new ValidationError('Exactly one of percent_off or amounts_off is required');
+  }
+
+  if (hasPercent) {
+    const percentOff = input.percent_off as number;
+    if (typeof percentOff !== 'number' || percentOff <= 0 || percentOff > 100 ||
+        Math.abs(Math.round(percentOff * 100) - percentOff * 100) > 1e-9) {
+      throw new ValidationError('percent_off must be greater than 0 and at most 100, with up to 2 decimals');
+    }
+  }
+
+  let amountsOff: Record<string, number> | null = null;
+  if (hasAmounts) {
+    if (typeof input.amounts_off !== 'object' || Array.isArray(input.amounts_off) ||
+        Object.keys(input.amounts_off as object).length === 0) {
+      throw new ValidationError('amounts_off must map at least one currency to an amount');
+    }
+
+    amountsOff = {};
+    for (const [currency, amount] of Object.entries(input.amounts_off as Record<string, number>)) {
+      const code = currency.toUpperCase();
+      if (!CURRENCY_REGEX.test(code)) {
+        throw new ValidationError(`Invalid currency in amounts_off: ${currency}`);
+      }
+      if (!Number.isInteger(amount) || amount < 1) {
+        throw new ValidationError(`amounts_off.${currency} must be a positive integer`);
+      }
+      amountsOff[code] = amount;
+    }
+  }
+
+  if (!VALID_DURATIONS.includes(input.duration)) {
+    throw new ValidationError(`Invalid duration. Must be one of: ${VALID_DURATIONS.join(', ')}`);
+  }
+  if (input.duration === 'repeating') {
+    if (!Number.isInteger(input.duration_in_months) ||
+        (input.duration_in_months as number) < 1 ||
+        (input.duration_in_months as number) > MAX_DURATION_IN_MONTHS) {
+      throw new ValidationError(
+        `duration_in_months must be an integer from 1 to ${MAX_DURATION_IN_MONTHS} for repeating coupons`
+      );
+    }
+  } else if (input.duration_in_months !== undefined) {
+    throw new ValidationError('duration_in_months is only allowed for repeating coupons');
+  }
+
+  return amountsOff;
+}
+
+/**
+ * Whether a coupon can discount amounts in `currency`
+ */
+export function appliesToCurrency(coupon: Coupon, currency: string): boolean {
+  return coupon.percent_off !== null || coupon.amounts_off?.[currency.toUpperCase()] !== undefined;
+}
+
+/**
+ * Amount a coupon takes off `amountCents` in `currency`
+ * Never more than the amount itself; 0 when the coupon has no amount in the currency.
+ */
+export function calculateAmountOff(coupon: Coupon, currency: string, amountCents: number): number {
+  if (amountCents <= 0) {
+    return 0;
+  }
+  if (coupon.percent_off !== null) {
+    return Math.round((amountCents * coupon.percent_off) / 100);
+  }
+  return Math.min(coupon.amounts_off?.[currency.toUpperCase()] ?? 0, amountCents);
+}
+
+export async function create(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateCouponInput
+): Promise<Coupon> {
+  const amountsOff = validateCouponInput(input);
+
+  const id = uuidv4();
+  const coupon = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO coupons (
+        id, application_id, name, percent_off, amounts_off,
+        duration, duration_in_months, metadata, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        id,
+        applicationId,
+        input.name.trim(),
+        input.percent_off ?? null,
+        amountsOff ? JSON.stringify(amountsOff) : null,
+        input.duration,
+        input.duration === 'repeating' ? input.duration_in_months : null,
+        JSON.stringify(input.metadata || {}),
+        testMode,
+      ]
+    );
+
+    const created = formatCoupon(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'coupon.created',
+      object: created,
+    });
+    return created;
+  });
+
+  logger.info('Coupon created', { couponId: id, applicationId, testMode });
+  return coupon;
+}
+
+export async function getById(
+  applicationId: string,
+  couponId: string,
+  testMode: boolean
+): Promise<Coupon> {
+  const result = await db.query(
+    `SELECT * FROM coupons
+     WHERE id = $1 AND application_id = $2 AND test_mode = $3`,
+    [couponId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Coupon not found');
+  }
+
+  return formatCoupon(result.rows[0]);
+}
+
+/**
+ * Update a coupon's name, metadata or active flag
+ * The discount and duration cannot change once created. Deactivating stops
+ * new redemptions; discounts already applied continue.
+ */
+export async function update(
+  applicationId: string,
+  couponId: string,
+  testMode: boolean,
+  input: UpdateCouponInput
+): Promise<Coupon> {
+  const existing = await getById(applicationId, couponId, testMode);
+
+  if (input.name !== undefined && (typeof input.name !== 'string' || input.name.trim().length === 0)) {
+    throw new ValidationError('Coupon name cannot be empty');
+  }
+  if (input.active !== undefined && typeof input.active !== 'boolean') {
+    throw new ValidationError('active must be a boolean');
+  }
+
+  const updates: string[] = ['updated_at = NOW()'];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  const fields: (keyof UpdateCouponInput)[] = ['name', 'active', 'metadata'];
+
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      updates.push(`${field} = $${paramIndex}`);
+      values.push(
+        field === 'metadata' ? JSON.stringify(input[field])
+          : field === 'name' ? (input.name as string).trim()
+          : input[field]
+      );
+      paramIndex++;
+    }
+  }
+
+  values.push(couponId, applicationId, testMode);
+
+  const coupon = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE coupons SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
+       RETURNING *`,
+      values
+    );
+
+    const updated = formatCoupon(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'coupon.updated',
+      object: updated,
+      previous_attributes: eventService.previousAttributes(
+        existing,
+        fields.filter((field) => input[field] !== undefined)
+      ),
+    });
+    return updated;
+  });
+
+  logger.info('Coupon updated', { couponId, applicationId });
+  return coupon;
+}
+
+/**
+ * List coupons with cursor pagination
+ */
+export async function list(params: ListCouponsParams): Promise<ListCouponsResult> {
+  const { application_id, test_mode, limit = 10, starting_after, active } = params;
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1', 'test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (active !== undefined) {
+    conditions.push(`active = $${paramIndex}`);
+    values.push(active);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(
+      `(created_at, id) < (SELECT created_at, id FROM coupons WHERE id = $${paramIndex})`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM coupons
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatCoupon);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  create,
+  getById,
+  update,
+  list,
+  appliesToCurrency,
+  calculateAmountOff,
+};
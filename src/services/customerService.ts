@@ -7,6 +7,7 @@ import { db } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
 import logger from '../config/logger';
+import eventService from './eventService';
 
 export interface Customer {
   id: string;
@@ -105,28 +106,39 @@ export async function create(
   }
 
   const id = uuidv4();
-  const result = await db.query(
-    `INSERT INTO customers (
-      id, application_id, external_id, email, name, phone,
-      country, tax_id, metadata, test_mode
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-    RETURNING *`,
-    [
-      id,
-      applicationId,
-      externalId,
-      input.email,
-      input.name || null,
-      input.phone || null,
-      input.country || null,
-      input.tax_id || null,
-      JSON.stringify(input.metadata || {}),
-      testMode,
-    ]
-  );
+  const customer = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO customers (
+        id, application_id, external_id, email, name, phone,
+        country, tax_id, metadata, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        id,
+        applicationId,
+        externalId,
+        input.email,
+        input.name || null,
+        input.phone || null,
+        input.country || null,
+        input.tax_id || null,
+        JSON.stringify(input.metadata || {}),
+        testMode,
+      ]
+    );
+
+    const created = formatCustomer(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'customer.created',
+      object: created,
+    });
+    return created;
+  });
 
   logger.info('Customer created', { customerId: id, applicationId, testMode });
-  return formatCustomer(result.rows[0]);
+  return customer;
 }
 
 export async function getById(
@@ -177,7 +189,7 @@ export async function update(
   testMode: boolean,
   input: UpdateCustomerInput
 ): Promise<Customer> {
-  await getById(applicationId, customerId, testMode);
+  const existing = await getById(applicationId, customerId, testMode);
 
   if (input.email && !validateEmail(input.email)) {
     throw new ValidationError('Invalid email format');
@@ -213,15 +225,30 @@ export async function update(
 
   values.push(customerId, applicationId, testMode);
 
-  const result = await db.query(
-    `UPDATE customers SET ${updates.join(', ')}
-     WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
-     RETURNING *`,
-    values
-  );
+  const customer = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE customers SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
+       RETURNING *`,
+      values
+    );
+
+    const updated = formatCustomer(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'customer.updated',
+      object: updated,
+      previous_attributes: eventService.previousAttributes(
+        existing,
+        fields.filter((field) => input[field] !== undefined)
+      ),
+    });
+    return updated;
+  });
 
   logger.info('Customer updated', { customerId, applicationId });
-  return formatCustomer(result.rows[0]);
+  return customer;
 }
 
 export async function deleteCustomer(
@@ -231,15 +258,26 @@ export async function deleteCustomer(
 ): Promise<Customer> {
   await getById(applicationId, customerId, testMode);
 
-  const result = await db.query(
-    `UPDATE customers SET deleted_at = NOW(), updated_at = NOW()
-     WHERE id = $1 AND application_id = $2 AND test_mode = $3
-     RETURNING *`,
-    [customerId, applicationId, testMode]
-  );
+  const customer = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE customers SET deleted_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3
+       RETURNING *`,
+      [customerId, applicationId, testMode]
+    );
+
+    const deleted = formatCustomer(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'customer.deleted',
+      object: deleted,
+    });
+    return deleted;
+  });
 
   logger.info('Customer deleted', { customerId, applicationId });
-  return formatCustomer(result.rows[0]);
+  return customer;
 }
 
 export async function restore(
@@ -247,19 +285,30 @@ export async function restore(
   customerId: string,
   testMode: boolean
 ): Promise<Customer> {
-  const result = await db.query(
-    `UPDATE customers SET deleted_at = NULL, updated_at = NOW()
-     WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND deleted_at IS NOT NULL
-     RETURNING *`,
-    [customerId, applicationId, testMode]
-  );
+  const customer = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE customers SET deleted_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND deleted_at IS NOT NULL
+       RETURNING *`,
+      [customerId, applicationId, testMode]
+    );
 
-  if (result.rows.length === 0) {
-    throw new NotFoundError('Deleted customer not found');
-  }
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Deleted customer not found');
+    }
+
+    const restored = formatCustomer(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'customer.restored',
+      object: restored,
+    });
+    return restored;
+  });
 
   logger.info('Customer restored', { customerId, applicationId });
-  return formatCustomer(result.rows[0]);
+  return customer;
 }
 
 export async function list(params: ListCustomersParams): Promise<ListCustomersResult> {
@@ -317,19 +366,36 @@ export async function mergeMetadata(
   testMode: boolean,
   metadata: Record<string, any>
 ): Promise<Customer> {
-  const result = await db.query(
-    `UPDATE customers
-     SET metadata = metadata || $1::jsonb, updated_at = NOW()
-     WHERE id = $2 AND application_id = $3 AND test_mode = $4 AND deleted_at IS NULL
-     RETURNING *`,
-    [JSON.stringify(metadata), customerId, applicationId, testMode]
-  );
+  return db.transaction(async (client) => {
+    const previous = await client.query(
+      `SELECT metadata FROM customers
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND deleted_at IS NULL
+       FOR UPDATE`,
+      [customerId, applicationId, testMode]
+    );
 
-  if (result.rows.length === 0) {
-    throw new NotFoundError('Customer not found');
-  }
+    if (previous.rows.length === 0) {
+      throw new NotFoundError('Customer not found');
+    }
 
-  return formatCustomer(result.rows[0]);
+    const result = await client.query(
+      `UPDATE customers
+       SET metadata = metadata || $1::jsonb, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [JSON.stringify(metadata), customerId]
+    );
+
+    const updated = formatCustomer(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'customer.updated',
+      object: updated,
+      previous_attributes: { metadata: previous.rows[0].metadata || {} },
+    });
+    return updated;
+  });
 }
 
 export default {
@@ -0,0 +1,298 @@
+/**
+ * Dashboard Auth Service
+ * Email/password sign-in for application owners, issuing short-lived JWT
+ * access tokens backed by revocable refresh-token sessions
+ */
+
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { signJwt, verifyJwt } from '../utils/jwt';
+import logger from '../config/logger';
+import applicationService, { Application } from './applicationService';
+import { AuthContext } from './authService';
+
+export interface DashboardSession {
+  object: 'dashboard_session';
+  session_id: string;
+  application: Application;
+  token_type: 'Bearer';
+  access_token: string;
+  expires_in: number;
+  refresh_token: string;
+  refresh_token_expires_at: Date;
+}
+
+export interface SignupInput {
+  name: string;
+  email: string;
+  password: string;
+  default_currency?: string;
+  timezone?: string;
+}
+
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+// Validation constants
+const MIN_PASSWORD_LENGTH = 10;
+const MAX_PASSWORD_BYTES = 72; // bcrypt ignores anything longer
+const PASSWORD_BCRYPT_ROUNDS = 12;
+const REFRESH_TOKEN_PREFIX = 'xbs_rt_';
+
+// Hash of a random throwaway password, compared against when the email is
+// unknown so failed logins take the same time either way
+const DUMMY_PASSWORD_HASH = '$2b$12$ohWCazpc0jXmk67VjTzn4eHVljMa6X1H2haxT97CkjkgGBYrvngy.';
+
+/**
+ * SHA-256 digest of a refresh token (tokens are random, so no salt is needed)
+ */
+function digestRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate an opaque refresh token
+ */
+function generateRefreshToken(): string {
+  return `${REFRESH_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Validate password strength
+ */
+function validatePassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new ValidationError(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+    throw new ValidationError(`password must be at most ${MAX_PASSWORD_BYTES} bytes`);
+  }
+  return password;
+}
+
+/**
+ * Start a session and issue its first token pair
+ */
+async function startSession(
+  client: PoolClient,
+  application: Application,
+  clientInfo: ClientInfo
+): Promise<DashboardSession> {
+  const refreshToken = generateRefreshToken();
+
+  const result = await client.query(
+    `INSERT INTO dashboard_sessions (
+      application_id, refresh_token_digest, user_agent, ip_address, expires_at
+    ) VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+    RETURNING id, expires_at`,
+    [
+      application.id,
+      digestRefreshToken(refreshToken),
+      clientInfo.userAgent?.slice(0, 500) || null,
+      clientInfo.ip?.slice(0, 45) || null,
+      env.DASHBOARD_SESSION_TTL_DAYS,
+    ]
+  );
+
+  return buildSession(application, result.rows[0].id, refreshToken, result.rows[0].expires_at);
+}
+
+/**
+ * Assemble the token response for a session
+ */
+function buildSession(
+  application: Application,
+  sessionId: string,
+  refreshToken: string,
+  refreshExpiresAt: Date
+): DashboardSession {
+  return {
+    object: 'dashboard_session',
+    session_id: sessionId,
+    application,
+    token_type: 'Bearer',
+    access_token: signJwt(
+      { sub: application.id, sid: sessionId, typ: 'access' },
+      env.JWT_SECRET,
+      env.JWT_ACCESS_TTL_SECONDS
+    ),
+    expires_in: env.JWT_ACCESS_TTL_SECONDS,
+    refresh_token: refreshToken,
+    refresh_token_expires_at: refreshExpiresAt,
+  };
+}
+
+/**
+ * Sign up: create an application and sign its owner in
+ */
+export async function signup(input: SignupInput, clientInfo: ClientInfo = {}): Promise<DashboardSession> {
+  const password = validatePassword(input.password);
+  const passwordHash = await bcrypt.hash(password, PASSWORD_BCRYPT_ROUNDS);
+
+  const session = await db.transaction(async (client) => {
+    const application = await applicationService.create(
+      {
+        name: input.name,
+        email: input.email,
+        password_hash: passwordHash,
+        default_currency: input.default_currency,
+        timezone: input.timezone,
+      },
+      client
+    );
+
+    return startSession(client, application, clientInfo);
+  });
+
+  logger.info('Dashboard signup', { applicationId: session.application.id, sessionId: session.session_id });
+  return session;
+}
+
+/**
+ * Log in with email and password
+ */
+export async function login(input: LoginInput, clientInfo: ClientInfo = {}): Promise<DashboardSession> {
+  if (typeof input.email !== 'string' || typeof input.password !== 'string') {
+    throw new ValidationError('email and password are required');
+  }
+
+  const result = await db.query(
+    'SELECT id, password_hash, active FROM applications WHERE LOWER(email) = $1',
+    [input.email.trim().toLowerCase()]
+  );
+  const row = result.rows[0];
+
+  const passwordMatches = await bcrypt.compare(input.password, row ? row.password_hash : DUMMY_PASSWORD_HASH);
+  if (!row || !passwordMatches) {
+    throw new AuthenticationError('Invalid email or password');
+  }
+  if (!row.active) {
+    throw new AuthenticationError('Application is deactivated');
+  }
+
+  const application = await applicationService.getById(row.id);
+  const session = await db.transaction((client) => startSession(client, application, clientInfo));
+
+  logger.info('Dashboard login', { applicationId: application.id, sessionId: session.session_id });
+  return session;
+}
+
+/**
+ * Exchange a refresh token for a new token pair
+ * The refresh token is rotated: the one presented stops working
+ */
+export async function refresh(refreshToken: string): Promise<DashboardSession> {
+  if (typeof refreshToken !== 'string' || !refreshToken.startsWith(REFRESH_TOKEN_PREFIX)) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+
+  const result = await db.query(
+    `UPDATE dashboard_sessions s
+     SET refresh_token_digest = $1, last_refreshed_at = NOW()
+     FROM applications a
+     WHERE s.refresh_token_digest = $2
+       AND a.id = s.application_id
+       AND a.active = true
+       AND s.revoked_at IS NULL
+       AND s.expires_at > NOW()
+     RETURNING s.id, s.application_id, s.expires_at`,
+    [digestRefreshToken(nextRefreshToken), digestRefreshToken(refreshToken)]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const { id, application_id, expires_at } = result.rows[0];
+  const application = await applicationService.getById(application_id);
+
+  return buildSession(application, id, nextRefreshToken, expires_at);
+}
+
+/**
+ * Log out: revoke the session the refresh token belongs to
+ * Access tokens issued for the session stop working immediately
+ */
+export async function logout(refreshToken: string): Promise<void> {
+  if (typeof refreshToken !== 'string') {
+    throw new ValidationError('refresh_token is required');
+  }
+
+  const result = await db.query(
+    `UPDATE dashboard_sessions
+     SET revoked_at = NOW()
+     WHERE refresh_token_digest = $1 AND revoked_at IS NULL
+     RETURNING id, application_id`,
+    [digestRefreshToken(refreshToken)]
+  );
+
+  if (result.rows.length > 0) {
+    logger.info('Dashboard logout', {
+      applicationId: result.rows[0].application_id,
+      sessionId: result.rows[0].id,
+    });
+  }
+}
+
+/**
+ * Validate a dashboard access token and return an auth context with the
+ * same access as a secret key in the requested mode
+ */
+export async function validateAccessToken(token: string, testMode: boolean): Promise<AuthContext> {
+  const claims = verifyJwt(token, env.JWT_SECRET);
+  if (claims.typ !== 'access' || typeof claims.sid !== 'string') {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const result = await db.query(
+    `SELECT s.id, a.id AS application_id, a.default_currency, a.timezone, a.webhook_url, a.webhook_secret
+     FROM dashboard_sessions s
+     JOIN applications a ON a.id = s.application_id
+     WHERE s.id = $1
+       AND s.application_id = $2
+       AND s.revoked_at IS NULL
+       AND s.expires_at > NOW()
+       AND a.active = true`,
+    [claims.sid, claims.sub]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AuthenticationError('Session has ended. Please log in again', 'SESSION_ENDED');
+  }
+
+  const row = result.rows[0];
+  return {
+    application_id: row.application_id,
+    api_key_id: null,
+    session_id: row.id,
+    key_type: 'sk',
+    key_role: 'dashboard',
+    permissions: null,
+    test_mode: testMode,
+    default_currency: row.default_currency || 'NGN',
+    timezone: row.timezone || 'Africa/Lagos',
+    webhook_url: row.webhook_url,
+    webhook_secret: row.webhook_secret,
+  };
+}
+
+export default {
+  signup,
+  login,
+  refresh,
+  logout,
+  validateAccessToken,
+};
@@ -0,0 +1,447 @@
+/**
+ * Discount Service
+ * Applies coupons (directly or through promotion codes) to subscriptions and
+ * customers, and resolves the discount for each generated invoice.
+ * A subscription's own discount takes precedence over its customer's.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import couponService, { Coupon, formatCoupon } from './couponService';
+import promotionCodeService from './promotionCodeService';
+import customerService from './customerService';
+import subscriptionService, { addInterval, Subscription, TERMINAL_STATUSES } from './subscriptionService';
+import { InvoiceDiscount } from './invoiceService';
+import eventService from './eventService';
+
+// Types
+export interface Discount {
+  id: string;
+  object: 'discount';
+  coupon: Coupon;
+  promotion_code_id: string | null;
+  subscription_id: string | null;
+  customer_id: string | null;
+  starts_at: Date;
+  ends_at: Date | null;
+  ended_at: Date | null;
+  test_mode: boolean;
+  created_at: Date;
+}
+
+export interface ApplyDiscountInput {
+  coupon?: string; // Coupon ID
+  promotion_code?: string; // Code as entered by the customer
+}
+
+// Discount resolved for an invoice, with the record to update once it is billed
+export interface ResolvedInvoiceDiscount {
+  discount: Discount;
+  invoice_discount: InvoiceDiscount;
+}
+
+type DiscountOwner = 'subscription_id' | 'customer_id';
+
+interface DiscountTarget {
+  owner: DiscountOwner;
+  id: string;
+  customer_id: string;
+  currency: string | null; // Known for subscriptions only
+}
+
+const DISCOUNT_WITH_COUPON = `
+  SELECT d.*, row_to_json(c.*) AS coupon
+  FROM discounts d
+  JOIN coupons c ON c.id = d.coupon_id`;
+
+/**
+ * Format discount for API response
+ */
+function formatDiscount(row: any): Discount {
+  return {
+    id: row.id,
+    object: 'discount',
+    coupon: formatCoupon(row.coupon),
+    promotion_code_id: row.promotion_code_id,
+    subscription_id: row.subscription_id,
+    customer_id: row.customer_id,
+    starts_at: row.starts_at,
+    ends_at: row.ends_at,
+    ended_at: row.ended_at,
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Redeem a coupon or promotion code and make it the target's discount,
+ * replacing any discount it already has
+ */
+async function apply(
+  applicationId: string,
+  testMode: boolean,
+  target: DiscountTarget,
+  input: ApplyDiscountInput
+): Promise<Discount> {
+  if (!input.coupon === !input.promotion_code) {
+    throw new ValidationError('Exactly one of coupon or promotion_code is required');
+  }
+
+  const table = target.owner === 'subscription_id' ? 'subscriptions' : 'customers';
+
+  const result = await db.transaction(async (client) => {
+    // Serializes discount changes per subscription or customer
+    await client.query(`SELECT id FROM ${table} WHERE id = $1 FOR UPDATE`, [target.id]);
+
+    let coupon: Coupon;
+    let promotionCodeId: string | null = null;
+
+    if (input.promotion_code) {
+      const redeemed = await promotionCodeService.redeem(
+        client,
+        applicationId,
+        testMode,
+        input.promotion_code,
+        target.customer_id
+      );
+      coupon = redeemed.coupon;
+      promotionCodeId = redeemed.promotion_code.id;
+    } else {
+      const couponResult = await client.query(
+        `SELECT * FROM coupons
+         WHERE id = $1 AND application_id = $2 AND test_mode = $3
+         FOR UPDATE`,
+        [input.coupon, applicationId, testMode]
+      );
+      if (couponResult.rows.length === 0) {
+        throw new NotFoundError('Coupon not found');
+      }
+      coupon = formatCoupon(couponResult.rows[0]);
+      if (!coupon.active) {
+        throw new ValidationError('Coupon is not active');
+      }
+    }
+
+    if (target.currency && !couponService.appliesToCurrency(coupon, target.currency)) {
+      throw new ValidationError(`Coupon has no amount off in currency: ${target.currency}`);
+    }
+
+    const replaced = await client.query(
+      `UPDATE discounts SET ended_at = NOW()
+       WHERE ${target.owner} = $1 AND ended_at IS NULL
+       RETURNING *`,
+      [target.id]
+    );
+    for (const row of replaced.rows) {
+      const previousCoupon = await client.query('SELECT * FROM coupons WHERE id = $1', [row.coupon_id]);
+      await eventService.publish(client, {
+        application_id: applicationId,
+        test_mode: testMode,
+        type: 'discount.deleted',
+        object: formatDiscount({ ...row, coupon: previousCoupon.rows[0] }),
+      });
+    }
+
+    const startsAt = new Date();
+    const endsAt = coupon.duration === 'repeating'
+      ? addInterval(startsAt, 'month', coupon.duration_in_months as number)
+      : null;
+
+    const inserted = await client.query(
+      `INSERT INTO discounts (
+        id, application_id, coupon_id, promotion_code_id, ${target.owner},
+        starts_at, ends_at, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [uuidv4(), applicationId, coupon.id, promotionCodeId, target.id, startsAt, endsAt, testMode]
+    );
+
+    const couponResult = await client.query(
+      `UPDATE coupons SET times_redeemed = times_redeemed + 1, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [coupon.id]
+    );
+
+    const created = formatDiscount({ ...inserted.rows[0], coupon: couponResult.rows[0] });
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'discount.created',
+      object: created,
+    });
+    return { discount: created, replaced: replaced.rows.length };
+  });
+
+  logger.info('Discount applied', {
+    discountId: result.discount.id,
+    couponId: result.discount.coupon.id,
+    promotionCodeId: result.discount.promotion_code_id,
+    owner: target.owner,
+    ownerId: target.id,
+    applicationId,
+    replaced: result.replaced,
+  });
+  return result.discount;
+}
+
+/**
+ * Get the target's discount, if it still applies
+ */
+async function getActive(
+  applicationId: string,
+  testMode: boolean,
+  owner: DiscountOwner,
+  ownerId: string
+): Promise<Discount> {
+  const result = await db.query(
+    `${DISCOUNT_WITH_COUPON}
+     WHERE d.${owner} = $1 AND d.application_id = $2 AND d.test_mode = $3
+       AND d.ended_at IS NULL AND (d.ends_at IS NULL OR d.ends_at > NOW())`,
+    [ownerId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError(
+      `${owner === 'subscription_id' ? 'Subscription' : 'Customer'} has no active discount`
+    );
+  }
+
+  return formatDiscount(result.rows[0]);
+}
+
+/**
+ * End the target's discount; later invoices are no longer discounted
+ */
+async function remove(
+  applicationId: string,
+  testMode: boolean,
+  owner: DiscountOwner,
+  ownerId: string
+): Promise<Discount> {
+  const discount = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE discounts SET ended_at = NOW()
+       WHERE ${owner} = $1 AND application_id = $2 AND test_mode = $3 AND ended_at IS NULL
+       RETURNING *`,
+      [ownerId, applicationId, testMode]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError(
+        `${owner === 'subscription_id' ? 'Subscription' : 'Customer'} has no active discount`
+      );
+    }
+
+    const couponResult = await client.query('SELECT * FROM coupons WHERE id = $1', [
+      result.rows[0].coupon_id,
+    ]);
+    const removed = formatDiscount({ ...result.rows[0], coupon: couponResult.rows[0] });
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'discount.deleted',
+      object: removed,
+    });
+    return removed;
+  });
+
+  logger.info('Discount removed', { discountId: discount.id, applicationId });
+  return discount;
+}
+
+/**
+ * Apply a coupon or promotion code to a subscription
+ * The coupon must be able to discount the subscription's currency.
+ */
+export async function applyToSubscription(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: ApplyDiscountInput
+): Promise<Discount> {
+  const subscription = await subscriptionService.getById(applicationId, subscriptionId, testMode);
+  if (TERMINAL_STATUSES.includes(subscription.status)) {
+    throw new ValidationError(`Cannot discount a subscription with status '${subscription.status}'`);
+  }
+
+  return apply(applicationId, testMode, {
+    owner: 'subscription_id',
+    id: subscription.id,
+    customer_id: subscription.customer_id,
+    currency: subscription.currency,
+  }, input);
+}
+
+/**
+ * Apply a coupon or promotion code to a customer, discounting invoices of
+ * all their subscriptions that have no discount of their own
+ */
+export async function applyToCustomer(
+  applicationId: string,
+  customerId: string,
+  testMode: boolean,
+  input: ApplyDiscountInput
+): Promise<Discount> {
+  const customer = await customerService.getById(applicationId, customerId, testMode);
+
+  return apply(applicationId, testMode, {
+    owner: 'customer_id',
+    id: customer.id,
+    customer_id: customer.id,
+    currency: null,
+  }, input);
+}
+
+export async function getForSubscription(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean
+): Promise<Discount> {
+  await subscriptionService.getById(applicationId, subscriptionId, testMode);
+  return getActive(applicationId, testMode, 'subscription_id', subscriptionId);
+}
+
+export async function getForCustomer(
+  applicationId: string,
+  customerId: string,
+  testMode: boolean
+): Promise<Discount> {
+  await customerService.getById(applicationId, customerId, testMode);
+  return getActive(applicationId, testMode, 'customer_id', customerId);
+}
+
+export async function removeFromSubscription(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean
+): Promise<Discount> {
+  return remove(applicationId, testMode, 'subscription_id', subscriptionId);
+}
+
+export async function removeFromCustomer(
+  applicationId: string,
+  customerId: string,
+  testMode: boolean
+): Promise<Discount> {
+  return remove(applicationId, testMode, 'customer_id', customerId);
+}
+
+/**
+ * Resolve the coupon a coupon ID or promotion code would apply to an amount in
+ * `currency`, without redeeming it (e.g. for price previews)
+ */
+export async function previewCoupon(
+  applicationId: string,
+  testMode: boolean,
+  currency: string,
+  input: ApplyDiscountInput & { customer_id?: string }
+): Promise<Coupon> {
+  if (!input.coupon === !input.promotion_code) {
+    throw new ValidationError('Exactly one of coupon or promotion_code is required');
+  }
+
+  let coupon: Coupon;
+  if (input.promotion_code) {
+    const redeemable = await promotionCodeService.getRedeemable(
+      applicationId,
+      testMode,
+      input.promotion_code,
+      input.customer_id || null
+    );
+    coupon = redeemable.coupon;
+  } else {
+    coupon = await couponService.getById(applicationId, input.coupon as string, testMode);
+    if (!coupon.active) {
+      throw new ValidationError('Coupon is not active');
+    }
+  }
+
+  if (!couponService.appliesToCurrency(coupon, currency)) {
+    throw new ValidationError(`Coupon has no amount off in currency: ${currency.toUpperCase()}`);
+  }
+  return coupon;
+}
+
+/**
+ * Build the invoice discount for a coupon in `currency`, or null if the
+ * coupon has no amount off in it
+ */
+export function toInvoiceDiscount(
+  coupon: Coupon,
+  currency: string,
+  metadata: Record<string, any> = {}
+): InvoiceDiscount | null {
+  if (!couponService.appliesToCurrency(coupon, currency)) {
+    return null;
+  }
+
+  return {
+    description: coupon.percent_off !== null
+      ? `${coupon.name} (${coupon.percent_off}% off)`
+      : coupon.name,
+    percent_off: coupon.percent_off,
+    amount_off: coupon.percent_off !== null
+      ? null
+      : (coupon.amounts_off as Record<string, number>)[currency.toUpperCase()],
+    metadata: { coupon_id: coupon.id, ...metadata },
+  };
+}
+
+/**
+ * Find the discount for a subscription's invoice for the period starting at
+ * `periodStart`, inside the invoicing transaction: the subscription's own
+ * discount, else its customer's. Repeating discounts cover periods starting
+ * before they end.
+ */
+export async function resolveForInvoice(
+  client: PoolClient,
+  subscription: Subscription,
+  periodStart: Date
+): Promise<ResolvedInvoiceDiscount | null> {
+  const result = await client.query(
+    `${DISCOUNT_WITH_COUPON}
+     WHERE (d.subscription_id = $1 OR d.customer_id = $2)
+       AND d.ended_at IS NULL AND (d.ends_at IS NULL OR d.ends_at > $3)
+     ORDER BY d.subscription_id IS NULL
+     FOR UPDATE OF d`,
+    [subscription.id, subscription.customer_id, periodStart]
+  );
+
+  for (const row of result.rows) {
+    const discount = formatDiscount(row);
+    const invoiceDiscount = toInvoiceDiscount(discount.coupon, subscription.currency, {
+      discount_id: discount.id,
+      promotion_code_id: discount.promotion_code_id,
+    });
+    if (invoiceDiscount) {
+      return { discount, invoice_discount: invoiceDiscount };
+    }
+  }
+  return null;
+}
+
+/**
+ * Record that a discount was billed on an invoice; 'once' discounts end here
+ */
+export async function recordInvoiced(client: PoolClient, discount: Discount): Promise<void> {
+  if (discount.coupon.duration !== 'once') return;
+
+  await client.query('UPDATE discounts SET ended_at = NOW() WHERE id = $1', [discount.id]);
+}
+
+export default {
+  applyToSubscription,
+  applyToCustomer,
+  getForSubscription,
+  getForCustomer,
+  removeFromSubscription,
+  removeFromCustomer,
+  previewCoupon,
+  toInvoiceDiscount,
+  resolveForInvoice,
+  recordInvoiced,
+};
@@ -0,0 +1,194 @@
+import { db } from '../config/database';
+import { processDunning } from './dunningService';
+import eventService from './eventService';
+import paymentService from './paymentService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+const SUBSCRIPTION_ID = '22222222-2222-2222-2222-222222222222';
+const INVOICE_ID = '33333333-3333-3333-3333-333333333333';
+
+interface DunningState {
+  status: string;
+  failedInvoices?: boolean; // an open invoice whose latest charge failed
+  scheduledRetries?: number;
+  failedRetries?: number;
+  dueRetry?: boolean;
+  paidElsewhere?: boolean; // no failed open invoice left
+  expired?: 'cancel' | 'mark_unpaid';
+}
+
+/**
+ * Answer the dunning queries for one subscription and one invoice. Returns
+ * the statements run and the retries scheduled.
+ */
+function mockDatabase(state: DunningState) {
+  const statements: string[] = [];
+  const scheduled: { attempt: number; days: number }[] = [];
+
+  const query = jest.fn(async (sql: string, values: any[] = []) => {
+    statements.push(sql);
+    if (sql.includes('JOIN LATERAL')) {
+      const invoice = { id: INVOICE_ID, application_id: APPLICATION_ID, subscription_id: SUBSCRIPTION_ID };
+      return { rows: state.failedInvoices ? [invoice] : [] };
+    }
+    if (sql.includes('SELECT COUNT(*)::int AS count FROM payment_retry_schedules WHERE invoice_id = $1')) {
+      return { rows: [{ count: state.scheduledRetries ?? 0 }] };
+    }
+    if (sql.includes('INSERT INTO payment_retry_schedules')) {
+      scheduled.push({ attempt: values[1], days: values[2] });
+      return { rows: [] };
+    }
+    if (sql.includes('success = false')) {
+      return { rows: [{ count: state.failedRetries ?? 0 }] };
+    }
+    if (sql.includes('FROM payment_retry_schedules r')) {
+      if (!state.dueRetry) return { rows: [] };
+      state.dueRetry = false;
+      return {
+        rows: [{
+          id: 'retry_1',
+          invoice_id: INVOICE_ID,
+          attempt_number: 1,
+          application_id: APPLICATION_ID,
+          subscription_id: SUBSCRIPTION_ID,
+          test_mode: false,
+          invoice_status: 'open',
+        }],
+      };
+    }
+    if (sql.includes("WHERE s.status IN ('past_due', 'suspended', 'unpaid')")) {
+      return { rows: state.paidElsewhere ? [{ id: SUBSCRIPTION_ID, application_id: APPLICATION_ID }] : [] };
+    }
+    if (sql.includes('COALESCE(d.final_action')) {
+      const invoice = {
+        invoice_id: INVOICE_ID,
+        application_id: APPLICATION_ID,
+        subscription_id: SUBSCRIPTION_ID,
+        final_action: state.expired,
+      };
+      return { rows: state.expired ? [invoice] : [] };
+    }
+    if (sql.includes('SELECT status FROM subscriptions WHERE id = $1 FOR UPDATE')) {
+      return { rows: [{ status: state.status }] };
+    }
+    if (sql.includes('UPDATE subscriptions')) {
+      state.status = values[0];
+      return { rows: [{ id: SUBSCRIPTION_ID, status: values[0], test_mode: false, metadata: {} }] };
+    }
+    if (sql.includes('UPDATE invoices')) {
+      return { rows: [{ id: INVOICE_ID, status: 'uncollectible', test_mode: false }] };
+    }
+    return { rows: [] };
+  });
+
+  (db.query as jest.Mock).mockImplementation(query);
+  (db.transaction as jest.Mock).mockImplementation(async (fn: any) => fn({ query }));
+  return { statements, scheduled };
+}
+
+function publishedEvents(): { type: string; status: string; previous: string }[] {
+  return (eventService.publish as jest.Mock).mock.calls.map(([, event]) => ({
+    type: event.type,
+    status: event.object.status,
+    previous: event.previous_attributes.status,
+  }));
+}
+
+function paymentResult(status: 'succeeded' | 'failed') {
+  return {
+    payment: { id: 'txn_1', status, failure_message: status === 'failed' ? 'Card declined' : null },
+  } as any;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.restoreAllMocks();
+  jest.spyOn(eventService, 'publish').mockResolvedValue(undefined as any);
+});
+
+describe('processDunning', () => {
+  it('moves an active subscription to past_due and schedules the first retry when a payment fails', async () => {
+    const state: DunningState = { status: 'active', failedInvoices: true };
+    const { scheduled } = mockDatabase(state);
+
+    const result = await processDunning();
+
+    expect(result.scheduled).toBe(1);
+    expect(scheduled).toEqual([{ attempt: 1, days: 1 }]);
+    expect(state.status).toBe('past_due');
+    expect(publishedEvents()).toEqual([{ type: 'subscription.updated', status: 'past_due', previous: 'active' }]);
+  });
+
+  it('leaves a subscription that ended in the meantime alone', async () => {
+    const state: DunningState = { status: 'cancelled', failedInvoices: true };
+    mockDatabase(state);
+
+    await processDunning();
+
+    expect(state.status).toBe('cancelled');
+    expect(eventService.publish).not.toHaveBeenCalled();
+  });
+
+  it('schedules the next retry and stays past_due below the suspension threshold', async () => {
+    const state: DunningState = { status: 'past_due', dueRetry: true, scheduledRetries: 1, failedRetries: 1 };
+    const { scheduled } = mockDatabase(state);
+    jest.spyOn(paymentService, 'collectInvoice').mockResolvedValue(paymentResult('failed'));
+
+    const result = await processDunning();
+
+    expect(result).toMatchObject({ retried: 1, suspended: 0 });
+    expect(scheduled).toEqual([{ attempt: 2, days: 3 }]);
+    expect(state.status).toBe('past_due');
+  });
+
+  it('suspends a past_due subscription once its failed retries reach the threshold', async () => {
+    const state: DunningState = { status: 'past_due', dueRetry: true, scheduledRetries: 4, failedRetries: 4 };
+    const { scheduled } = mockDatabase(state);
+    jest.spyOn(paymentService, 'collectInvoice').mockResolvedValue(paymentResult('failed'));
+
+    const result = await processDunning();
+
+    expect(result).toMatchObject({ retried: 1, suspended: 1 });
+    expect(scheduled).toEqual([]);
+    expect(publishedEvents()).toEqual([{ type: 'subscription.updated', status: 'suspended', previous: 'past_due' }]);
+  });
+
+  it('reactivates a suspended subscription when a retry succeeds', async () => {
+    const state: DunningState = { status: 'suspended', dueRetry: true, paidElsewhere: true };
+    mockDatabase(state);
+    jest.spyOn(paymentService, 'collectInvoice').mockResolvedValue(paymentResult('succeeded'));
+
+    const result = await processDunning();
+
+    expect(result).toMatchObject({ retried: 1, recovered: 1 });
+    expect(publishedEvents()).toEqual([{ type: 'subscription.updated', status: 'active', previous: 'suspended' }]);
+  });
+
+  it('cancels the subscription and writes off the invoice when dunning ends', async () => {
+    const state: DunningState = { status: 'suspended', expired: 'cancel' };
+    const { statements } = mockDatabase(state);
+
+    const result = await processDunning();
+
+    expect(result.ended).toBe(1);
+    expect(publishedEvents()).toEqual([
+      { type: 'subscription.cancelled', status: 'cancelled', previous: 'suspended' },
+      { type: 'invoice.marked_uncollectible', status: 'uncollectible', previous: 'open' },
+    ]);
+    expect(statements.some((sql) => sql.includes("error_message = 'Dunning ended'"))).toBe(true);
+  });
+
+  it('marks the subscription unpaid and keeps the invoice open when configured to', async () => {
+    const state: DunningState = { status: 'past_due', expired: 'mark_unpaid' };
+    const { statements } = mockDatabase(state);
+
+    await processDunning();
+
+    expect(publishedEvents()).toEqual([{ type: 'subscription.updated', status: 'unpaid', previous: 'past_due' }]);
+    expect(statements.some((sql) => sql.includes('UPDATE invoices'))).toBe(false);
+  });
+});
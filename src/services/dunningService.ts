@@ -0,0 +1,644 @@
+/**
+ * Dunning Service
+ * Retries failed invoice payments on the application's schedule and moves the
+ * subscription through past_due → suspended → cancelled/unpaid.
+ * Safe to run from several processes at once: invoices and retries are claimed
+ * with FOR UPDATE SKIP LOCKED and the provider call runs outside any lock.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import paymentService from './paymentService';
+import eventService from './eventService';
+import { formatInvoice } from './invoiceService';
+import {
+  cancelActiveSchedule,
+  formatSubscription,
+  setStateChangeReason,
+  StateChangeReason,
+  SubscriptionStatus,
+} from './subscriptionService';
+
+// Types
+export type DunningFinalAction = 'cancel' | 'mark_unpaid';
+
+export interface DunningConfig {
+  object: 'dunning_config';
+  application_id: string;
+  retry_schedule: number[];
+  send_emails: boolean;
+  suspend_after_attempts: number;
+  cancel_after_days: number;
+  final_action: DunningFinalAction;
+  email_sender_name: string | null;
+  email_sender_address: string | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+}
+
+export interface UpdateDunningConfigInput {
+  retry_schedule?: number[];
+  send_emails?: boolean;
+  suspend_after_attempts?: number;
+  cancel_after_days?: number;
+  final_action?: DunningFinalAction;
+  email_sender_name?: string | null;
+  email_sender_address?: string | null;
+}
+
+export interface ProcessDunningResult {
+  scheduled: number;
+  retried: number;
+  recovered: number;
+  suspended: number;
+  ended: number;
+  failed: number;
+}
+
+type RetryOutcome = 'succeeded' | 'pending' | 'failed' | 'skipped';
+
+// Defaults mirror the dunning_configs column defaults
+const DEFAULT_RETRY_SCHEDULE = [1, 3, 5, 7];
+const DEFAULT_SUSPEND_AFTER_ATTEMPTS = 4;
+const DEFAULT_CANCEL_AFTER_DAYS = 14;
+const DEFAULT_FINAL_ACTION: DunningFinalAction = 'cancel';
+
+// Validation constants
+const VALID_FINAL_ACTIONS: DunningFinalAction[] = ['cancel', 'mark_unpaid'];
+const MAX_RETRIES = 10;
+const MAX_RETRY_DAY = 60;
+const MAX_CANCEL_AFTER_DAYS = 365;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Statuses a subscription can only reach through dunning
+const DUNNING_STATUSES: SubscriptionStatus[] = ['past_due', 'suspended', 'unpaid'];
+
+/**
+ * Format dunning config for API response (defaults when none is stored)
+ */
+function formatDunningConfig(applicationId: string, row: any | null): DunningConfig {
+  return {
+    object: 'dunning_config',
+    application_id: applicationId,
+    retry_schedule: row?.retry_schedule || DEFAULT_RETRY_SCHEDULE,
+    send_emails: row ? row.send_emails : true,
+    suspend_after_attempts: row?.suspend_after_attempts ?? DEFAULT_SUSPEND_AFTER_ATTEMPTS,
+    cancel_after_days: row?.cancel_after_days ?? DEFAULT_CANCEL_AFTER_DAYS,
+    final_action: row?.final_action || DEFAULT_FINAL_ACTION,
+    email_sender_name: row?.email_sender_name || null,
+    email_sender_address: row?.email_sender_address || null,
+    created_at: row?.created_at || null,
+    updated_at: row?.updated_at || null,
+  };
+}
+
+function isIntegerBetween(value: any, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a merged config before it is stored
+ */
+function validateConfig(config: DunningConfig): void {
+  const schedule = config.retry_schedule;
+  if (!Array.isArray(schedule) || schedule.length === 0 || schedule.length > MAX_RETRIES) {
+    throw new ValidationError(`retry_schedule must have between 1 and ${MAX_RETRIES} entries`);
+  }
+  schedule.forEach((day, index) => {
+    if (!isIntegerBetween(day, 1, MAX_RETRY_DAY)) {
+      throw new ValidationError(`retry_schedule entries must be whole days between 1 and ${MAX_RETRY_DAY}`);
+    }
+    if (index > 0 && day <= schedule[index - 1]) {
+      throw new ValidationError('retry_schedule must be strictly increasing (days after the first failure)');
+    }
+  });
+
+  if (!isIntegerBetween(config.suspend_after_attempts, 1, MAX_RETRIES)) {
+    throw new ValidationError(`suspend_after_attempts must be between 1 and ${MAX_RETRIES}`);
+  }
+
+  if (!isIntegerBetween(config.cancel_after_days, 1, MAX_CANCEL_AFTER_DAYS)) {
+    throw new ValidationError(`cancel_after_days must be between 1 and ${MAX_CANCEL_AFTER_DAYS}`);
+  }
+  if (config.cancel_after_days < schedule[schedule.length - 1]) {
+    throw new ValidationError('cancel_after_days must not be earlier than the last retry');
+  }
+
+  if (!VALID_FINAL_ACTIONS.includes(config.final_action)) {
+    throw new ValidationError(`Invalid final_action. Must be one of: ${VALID_FINAL_ACTIONS.join(', ')}`);
+  }
+
+  if (typeof config.send_emails !== 'boolean') {
+    throw new ValidationError('send_emails must be a boolean');
+  }
+
+  if (config.email_sender_name && config.email_sender_name.length > 100) {
+    throw new ValidationError('email_sender_name must be at most 100 characters');
+  }
+  if (config.email_sender_address && !EMAIL_REGEX.test(config.email_sender_address)) {
+    throw new ValidationError('Invalid email_sender_address format');
+  }
+}
+
+/**
+ * Get the application's dunning config (defaults when none is stored)
+ */
+export async function getConfig(applicationId: string, client?: PoolClient): Promise<DunningConfig> {
+  const sql = 'SELECT * FROM dunning_configs WHERE application_id = $1';
+  const result = client
+    ? await client.query(sql, [applicationId])
+    : await db.query(sql, [applicationId]);
+
+  return formatDunningConfig(applicationId, result.rows[0] || null);
+}
+
+function setConfigField<K extends keyof UpdateDunningConfigInput>(
+  config: DunningConfig,
+  field: K,
+  value: DunningConfig[K]
+): void {
+  config[field] = value;
+}
+
+/**
+ * Update the application's dunning config, creating it on first write
+ */
+export async function updateConfig(
+  applicationId: string,
+  input: UpdateDunningConfigInput
+): Promise<DunningConfig> {
+  const current = await getConfig(applicationId);
+  const merged: DunningConfig = { ...current };
+
+  const fields: (keyof UpdateDunningConfigInput)[] = [
+    'retry_schedule',
+    'send_emails',
+    'suspend_after_attempts',
+    'cancel_after_days',
+    'final_action',
+    'email_sender_name',
+    'email_sender_address',
+  ];
+  for (const field of fields) {
+    const value = input[field];
+    if (value !== undefined) {
+      setConfigField(merged, field, value);
+    }
+  }
+
+  validateConfig(merged);
+
+  const result = await db.query(
+    `INSERT INTO dunning_configs (
+      application_id, retry_schedule, send_emails, suspend_after_attempts,
+      cancel_after_days, final_action, email_sender_name, email_sender_address
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (application_id) DO UPDATE SET
+      retry_schedule = EXCLUDED.retry_schedule,
+      send_emails = EXCLUDED.send_emails,
+      suspend_after_attempts = EXCLUDED.suspend_after_attempts,
+      cancel_after_days = EXCLUDED.cancel_after_days,
+      final_action = EXCLUDED.final_action,
+      email_sender_name = EXCLUDED.email_sender_name,
+      email_sender_address = EXCLUDED.email_sender_address,
+      updated_at = NOW()
+    RETURNING *`,
+    [
+      applicationId,
+      merged.retry_schedule,
+      merged.send_emails,
+      merged.suspend_after_attempts,
+      merged.cancel_after_days,
+      merged.final_action,
+      merged.email_sender_name,
+      merged.email_sender_address,
+    ]
+  );
+
+  logger.info('Dunning config updated', { applicationId });
+  return formatDunningConfig(applicationId, result.rows[0]);
+}
+
+/**
+ * Move a subscription to `to` if it is currently in one of `from`, publishing
+ * the change and recording `reason`. Returns false when it was in another status.
+ */
+async function transitionSubscription(
+  client: PoolClient,
+  applicationId: string,
+  subscriptionId: string,
+  from: SubscriptionStatus[],
+  to: SubscriptionStatus,
+  reason: StateChangeReason
+): Promise<boolean> {
+  const current = await client.query(
+    'SELECT status FROM subscriptions WHERE id = $1 FOR UPDATE',
+    [subscriptionId]
+  );
+  const previousStatus = current.rows[0]?.status;
+  if (!from.includes(previousStatus)) {
+    return false;
+  }
+
+  await setStateChangeReason(client, reason);
+  if (to === 'cancelled') {
+    await cancelActiveSchedule(client, subscriptionId);
+  }
+  const result = await client.query(
+    `UPDATE subscriptions
+     SET status = $1::subscription_status, updated_at = NOW(),
+         cancelled_at = CASE WHEN $1::subscription_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+         cancellation_reason = CASE
+           WHEN $1::subscription_status = 'cancelled' THEN 'Payment failed' ELSE cancellation_reason
+         END
+     WHERE id = $2
+     RETURNING *`,
+    [to, subscriptionId]
+  );
+
+  await eventService.publish(client, {
+    application_id: applicationId,
+    test_mode: result.rows[0].test_mode,
+    type: to === 'cancelled' ? 'subscription.cancelled' : 'subscription.updated',
+    object: formatSubscription(result.rows[0]),
+    previous_attributes: { status: previousStatus },
+  });
+  return true;
+}
+
+/**
+ * Schedule the invoice's next retry, counted from its first failed attempt.
+ * Returns false once the retry schedule is exhausted.
+ */
+async function scheduleNextRetry(
+  client: PoolClient,
+  invoiceId: string,
+  config: DunningConfig
+): Promise<boolean> {
+  const countResult = await client.query(
+    'SELECT COUNT(*)::int AS count FROM payment_retry_schedules WHERE invoice_id = $1',
+    [invoiceId]
+  );
+  const attemptNumber = countResult.rows[0].count + 1;
+
+  if (attemptNumber > config.retry_schedule.length) {
+    return false;
+  }
+
+  await client.query(
+    `INSERT INTO payment_retry_schedules (invoice_id, attempt_number, scheduled_for)
+     SELECT $1, $2, MIN(failed_at) + make_interval(days => $3)
+     FROM payment_transactions
+     WHERE invoice_id = $1 AND status = 'failed'
+     ON CONFLICT (invoice_id, attempt_number) DO NOTHING`,
+    [invoiceId, attemptNumber, config.retry_schedule[attemptNumber - 1]]
+  );
+
+  return true;
+}
+
+/**
+ * Schedule retries for open invoices whose latest charge failed outside a
+ * scheduled retry (automatic collection, a manual /pay, or a pending retry
+ * that failed later)
+ */
+async function scheduleFailedInvoices(batchSize: number): Promise<number> {
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      `SELECT i.id, i.application_id, i.subscription_id
+       FROM invoices i
+       JOIN subscriptions s ON s.id = i.subscription_id
+       JOIN LATERAL (
+         SELECT t.id, t.status FROM payment_transactions t
+         WHERE t.invoice_id = i.id
+         ORDER BY t.created_at DESC
+         LIMIT 1
+       ) latest ON latest.status = 'failed'
+       WHERE i.status = 'open' AND i.amount_due_cents > 0
+         AND s.status IN ('active', 'trialing', 'past_due', 'suspended')
+         AND NOT EXISTS (
+           SELECT 1 FROM payment_retry_schedules r
+           WHERE r.invoice_id = i.id
+             AND (r.attempted_at IS NULL OR (r.transaction_id = latest.id AND r.success IS NOT NULL))
+         )
+         AND (SELECT COUNT(*) FROM payment_retry_schedules r WHERE r.invoice_id = i.id) < COALESCE(
+           (SELECT array_length(d.retry_schedule, 1) FROM dunning_configs d WHERE d.application_id = i.application_id),
+           $1
+         )
+       ORDER BY i.created_at
+       LIMIT $2
+       FOR UPDATE OF i SKIP LOCKED`,
+      [DEFAULT_RETRY_SCHEDULE.length, batchSize]
+    );
+
+    let scheduled = 0;
+    for (const invoice of result.rows) {
+      const config = await getConfig(invoice.application_id, client);
+      if (!(await scheduleNextRetry(client, invoice.id, config))) {
+        continue;
+      }
+
+      await transitionSubscription(
+        client,
+        invoice.application_id,
+        invoice.subscription_id,
+        ['active', 'trialing'],
+        'past_due',
+        'payment_failed'
+      );
+
+      scheduled++;
+      logger.info('Dunning started', {
+        invoiceId: invoice.id,
+        subscriptionId: invoice.subscription_id,
+        applicationId: invoice.application_id,
+      });
+    }
+
+    return scheduled;
+  });
+}
+
+/**
+ * Suspend a past_due subscription once the invoice's failed retries reach
+ * the configured threshold
+ */
+async function suspendIfExhausted(
+  client: PoolClient,
+  applicationId: string,
+  invoiceId: string,
+  subscriptionId: string,
+  config: DunningConfig
+): Promise<boolean> {
+  const failedResult = await client.query(
+    `SELECT COUNT(*)::int AS count FROM payment_retry_schedules
+     WHERE invoice_id = $1 AND success = false`,
+    [invoiceId]
+  );
+
+  if (failedResult.rows[0].count < config.suspend_after_attempts) {
+    return false;
+  }
+
+  const suspended = await transitionSubscription(
+    client,
+    applicationId,
+    subscriptionId,
+    ['past_due'],
+    'suspended',
+    'payment_retries_exhausted'
+  );
+  if (suspended) {
+    logger.warn('Subscription suspended for non-payment', { subscriptionId, invoiceId });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Reactivate dunned subscriptions that no longer have a failed open invoice
+ */
+async function recoverSubscriptions(client: PoolClient, subscriptionId: string | null): Promise<number> {
+  const result = await client.query(
+    `SELECT s.id, c.application_id
+     FROM subscriptions s
+     JOIN customers c ON c.id = s.customer_id
+     WHERE s.status IN ('past_due', 'suspended', 'unpaid')
+       AND ($1::uuid IS NULL OR s.id = $1)
+       AND EXISTS (
+         SELECT 1 FROM invoices i
+         JOIN payment_retry_schedules r ON r.invoice_id = i.id
+         WHERE i.subscription_id = s.id
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM invoices i
+         WHERE i.subscription_id = s.id AND i.status = 'open' AND i.amount_due_cents > 0
+           AND EXISTS (
+             SELECT 1 FROM payment_transactions t WHERE t.invoice_id = i.id AND t.status = 'failed'
+           )
+       )`,
+    [subscriptionId]
+  );
+
+  let recovered = 0;
+  for (const row of result.rows) {
+    const reactivated = await transitionSubscription(
+      client,
+      row.application_id,
+      row.id,
+      DUNNING_STATUSES,
+      'active',
+      'payment_recovered'
+    );
+    if (reactivated) {
+      recovered++;
+      logger.info('Subscription recovered from dunning', { subscriptionId: row.id });
+    }
+  }
+  return recovered;
+}
+
+/**
+ * Claim the next due retry, skipping rows locked by other workers
+ */
+async function claimNextRetry(): Promise<any | null> {
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      `SELECT r.*, i.application_id, i.subscription_id, i.test_mode, i.status AS invoice_status
+       FROM payment_retry_schedules r
+       JOIN invoices i ON i.id = r.invoice_id
+       WHERE r.attempted_at IS NULL AND r.scheduled_for <= NOW()
+       ORDER BY r.scheduled_for
+       LIMIT 1
+       FOR UPDATE OF r SKIP LOCKED`
+    );
+
+    if (result.rows.length === 0) return null;
+
+    await client.query(
+      'UPDATE payment_retry_schedules SET attempted_at = NOW() WHERE id = $1',
+      [result.rows[0].id]
+    );
+    return result.rows[0];
+  });
+}
+
+/**
+ * Run a claimed retry and record its outcome; a failure schedules the next one
+ */
+async function runRetry(retry: any, counts: ProcessDunningResult): Promise<RetryOutcome> {
+  if (!['open', 'uncollectible'].includes(retry.invoice_status)) {
+    await db.query(
+      'UPDATE payment_retry_schedules SET error_message = $1 WHERE id = $2',
+      [`Invoice is ${retry.invoice_status}`, retry.id]
+    );
+    return 'skipped';
+  }
+
+  let transactionId: string | null = null;
+  let outcome: RetryOutcome;
+  let errorMessage: string | null = null;
+
+  try {
+    const collected = await paymentService.collectInvoice(retry.application_id, retry.invoice_id, retry.test_mode);
+    transactionId = collected.payment.id;
+    outcome = collected.payment.status === 'succeeded'
+      ? 'succeeded'
+      : collected.payment.status === 'failed' ? 'failed' : 'pending';
+    errorMessage = collected.payment.failure_message;
+  } catch (error) {
+    outcome = 'failed';
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  await db.transaction(async (client) => {
+    await client.query(
+      `UPDATE payment_retry_schedules
+       SET success = $1, transaction_id = $2, error_message = $3
+       WHERE id = $4`,
+      [outcome === 'pending' ? null : outcome === 'succeeded', transactionId, errorMessage, retry.id]
+    );
+
+    if (outcome === 'succeeded') {
+      counts.recovered += await recoverSubscriptions(client, retry.subscription_id);
+    } else if (outcome === 'failed') {
+      const config = await getConfig(retry.application_id, client);
+      await scheduleNextRetry(client, retry.invoice_id, config);
+      if (await suspendIfExhausted(
+        client,
+        retry.application_id,
+        retry.invoice_id,
+        retry.subscription_id,
+        config
+      )) {
+        counts.suspended++;
+      }
+    }
+  });
+
+  logger.info('Payment retry attempted', {
+    retryId: retry.id,
+    invoiceId: retry.invoice_id,
+    attempt: retry.attempt_number,
+    outcome,
+  });
+  return outcome;
+}
+
+/**
+ * Apply the final action to invoices still unpaid cancel_after_days after
+ * their first failure, and close any retries left on them
+ */
+async function endExpiredDunning(batchSize: number): Promise<number> {
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      `SELECT i.id AS invoice_id, i.application_id, s.id AS subscription_id,
+         COALESCE(d.final_action, $1) AS final_action
+       FROM invoices i
+       JOIN subscriptions s ON s.id = i.subscription_id
+       LEFT JOIN dunning_configs d ON d.application_id = i.application_id
+       WHERE i.status = 'open' AND i.amount_due_cents > 0
+         AND s.status IN ('past_due', 'suspended')
+         AND (
+           SELECT MIN(t.failed_at) FROM payment_transactions t
+           WHERE t.invoice_id = i.id AND t.status = 'failed'
+         ) <= NOW() - make_interval(days => COALESCE(d.cancel_after_days, $2))
+       ORDER BY i.created_at
+       LIMIT $3
+       FOR UPDATE OF i, s SKIP LOCKED`,
+      [DEFAULT_FINAL_ACTION, DEFAULT_CANCEL_AFTER_DAYS, batchSize]
+    );
+
+    for (const row of result.rows) {
+      const from: SubscriptionStatus[] = ['past_due', 'suspended'];
+      if (row.final_action === 'mark_unpaid') {
+        await transitionSubscription(
+          client, row.application_id, row.subscription_id, from, 'unpaid', 'dunning_ended'
+        );
+      } else {
+        await transitionSubscription(
+          client, row.application_id, row.subscription_id, from, 'cancelled', 'dunning_ended'
+        );
+
+        const invoice = await client.query(
+          `UPDATE invoices
+           SET status = 'uncollectible', marked_uncollectible_at = NOW(), updated_at = NOW()
+           WHERE id = $1
+           RETURNING *`,
+          [row.invoice_id]
+        );
+        await eventService.publish(client, {
+          application_id: row.application_id,
+          test_mode: invoice.rows[0].test_mode,
+          type: 'invoice.marked_uncollectible',
+          object: formatInvoice(invoice.rows[0]),
+          previous_attributes: { status: 'open' },
+        });
+      }
+
+      await client.query(
+        `UPDATE payment_retry_schedules
+         SET attempted_at = NOW(), error_message = 'Dunning ended'
+         WHERE invoice_id = $1 AND attempted_at IS NULL`,
+        [row.invoice_id]
+      );
+
+      logger.warn('Dunning ended', {
+        invoiceId: row.invoice_id,
+        subscriptionId: row.subscription_id,
+        applicationId: row.application_id,
+        finalAction: row.final_action,
+      });
+    }
+
+    return result.rows.length;
+  });
+}
+
+/**
+ * One dunning pass: start dunning for new failures, run due retries (up to
+ * `batchSize`), end expired dunning and reactivate subscriptions paid by other
+ * means (manual /pay, webhooks)
+ */
+export async function processDunning(batchSize: number = 50): Promise<ProcessDunningResult> {
+  const counts: ProcessDunningResult = {
+    scheduled: 0,
+    retried: 0,
+    recovered: 0,
+    suspended: 0,
+    ended: 0,
+    failed: 0,
+  };
+
+  counts.scheduled = await scheduleFailedInvoices(batchSize);
+
+  while (counts.retried + counts.failed < batchSize) {
+    const retry = await claimNextRetry();
+    if (!retry) break;
+
+    try {
+      await runRetry(retry, counts);
+      counts.retried++;
+    } catch (error) {
+      counts.failed++;
+      logger.error('Payment retry failed', {
+        retryId: retry.id,
+        invoiceId: retry.invoice_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  counts.ended = await endExpiredDunning(batchSize);
+  counts.recovered += await db.transaction((client) => recoverSubscriptions(client, null));
+
+  return counts;
+}
+
+export default {
+  getConfig,
+  updateConfig,
+  processDunning,
+};
@@ -0,0 +1,312 @@
+/**
+ * Event Service
+ * Transactional outbox: services publish events with the same client that
+ * writes the state change, so an event exists if and only if the change
+ * committed. The webhook dispatcher delivers them afterwards, and the
+ * events API reads them back with their delivery state.
+ */
+
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Types
+export type EventType =
+  | 'customer.created'
+  | 'customer.updated'
+  | 'customer.deleted'
+  | 'customer.restored'
+  | 'plan.created'
+  | 'plan.updated'
+  | 'plan.archived'
+  | 'plan.unarchived'
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.renewed'
+  | 'subscription.cancelled'
+  | 'subscription.paused'
+  | 'subscription.resumed'
+  | 'subscription_schedule.created'
+  | 'subscription_schedule.updated'
+  | 'subscription_schedule.released'
+  | 'subscription_schedule.completed'
+  | 'coupon.created'
+  | 'coupon.updated'
+  | 'promotion_code.created'
+  | 'promotion_code.updated'
+  | 'discount.created'
+  | 'discount.deleted'
+  | 'invoice.created'
+  | 'invoice.updated'
+  | 'invoice.finalized'
+  | 'invoice.paid'
+  | 'invoice.voided'
+  | 'invoice.marked_uncollectible'
+  | 'payment_transaction.succeeded'
+  | 'payment_transaction.failed'
+  | 'payment_transaction.refunded'
+  | 'dispute.created'
+  | 'dispute.closed'
+  | 'webhook_endpoint.disabled'
+  | 'webhook_endpoint.test';
+
+export interface Event {
+  id: string;
+  object: 'event';
+  type: EventType;
+  application_id: string;
+  test_mode: boolean;
+  created_at: string;
+  data: {
+    object: Record<string, any>;
+    previous_attributes?: Record<string, any>;
+  };
+}
+
+export type EventDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'failed';
+
+// An event as listed by the API: the delivered envelope plus its delivery state
+export interface EventWithDelivery extends Event {
+  delivery_status: EventDeliveryStatus;
+  retry_count: number;
+  max_retries: number;
+  next_retry_at: Date | null;
+  processed_at: Date | null;
+  last_error: string | null;
+}
+
+export interface ListEventsParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  type?: string;
+  delivery_status?: string;
+  object_id?: string;
+}
+
+export interface PublishEventParams {
+  application_id: string;
+  test_mode: boolean;
+  type: EventType;
+  object: { id: string; object: string; [key: string]: any };
+  previous_attributes?: Record<string, any>;
+}
+
+// Types webhook endpoints can subscribe to (the test event is sent on demand)
+export const EVENT_TYPES: EventType[] = [
+  'customer.created',
+  'customer.updated',
+  'customer.deleted',
+  'customer.restored',
+  'plan.created',
+  'plan.updated',
+  'plan.archived',
+  'plan.unarchived',
+  'subscription.created',
+  'subscription.updated',
+  'subscription.renewed',
+  'subscription.cancelled',
+  'subscription.paused',
+  'subscription.resumed',
+  'subscription_schedule.created',
+  'subscription_schedule.updated',
+  'subscription_schedule.released',
+  'subscription_schedule.completed',
+  'coupon.created',
+  'coupon.updated',
+  'promotion_code.created',
+  'promotion_code.updated',
+  'discount.created',
+  'discount.deleted',
+  'invoice.created',
+  'invoice.updated',
+  'invoice.finalized',
+  'invoice.paid',
+  'invoice.voided',
+  'invoice.marked_uncollectible',
+  'payment_transaction.succeeded',
+  'payment_transaction.failed',
+  'payment_transaction.refunded',
+  'dispute.created',
+  'dispute.closed',
+  'webhook_endpoint.disabled',
+];
+
+const DELIVERY_STATUSES: EventDeliveryStatus[] = ['pending', 'processing', 'delivered', 'failed'];
+
+/**
+ * Format outbox row for API response
+ */
+export function formatEvent(row: any): EventWithDelivery {
+  return {
+    ...row.payload,
+    delivery_status: row.status,
+    retry_count: row.retry_count,
+    max_retries: row.max_retries,
+    // While processing, next_retry_at is the claim lease rather than a retry
+    next_retry_at: row.status === 'processing' ? null : row.next_retry_at,
+    processed_at: row.processed_at,
+    last_error: row.last_error,
+  };
+}
+
+/**
+ * Pick the values an update is about to change, for previous_attributes
+ */
+export function previousAttributes<T extends Record<string, any>>(
+  existing: T,
+  fields: (keyof T)[]
+): Record<string, any> {
+  const previous: Record<string, any> = {};
+  for (const field of fields) {
+    previous[field as string] = existing[field];
+  }
+  return previous;
+}
+
+/**
+ * Build an event envelope
+ */
+export function buildEvent(params: PublishEventParams): Event {
+  return {
+    id: uuidv4(),
+    object: 'event',
+    type: params.type,
+    application_id: params.application_id,
+    test_mode: params.test_mode,
+    created_at: new Date().toISOString(),
+    data: params.previous_attributes
+      ? { object: params.object, previous_attributes: params.previous_attributes }
+      : { object: params.object },
+  };
+}
+
+/**
+ * Record an event in the outbox inside the caller's transaction.
+ * The stored payload is exactly what webhook endpoints receive.
+ */
+export async function publish(client: PoolClient, params: PublishEventParams): Promise<Event> {
+  const event = buildEvent(params);
+
+  await client.query(
+    `INSERT INTO outbox_events (
+      id, application_id, event_type, aggregate_type, aggregate_id, payload, test_mode
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      event.id,
+      params.application_id,
+      params.type,
+      params.object.object,
+      params.object.id,
+      JSON.stringify(event),
+      params.test_mode,
+    ]
+  );
+
+  return event;
+}
+
+/**
+ * Get event by ID
+ */
+export async function getById(
+  applicationId: string,
+  eventId: string,
+  testMode: boolean
+): Promise<EventWithDelivery> {
+  const result = await db.query(
+    'SELECT * FROM outbox_events WHERE id = $1 AND application_id = $2 AND test_mode = $3',
+    [eventId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Event not found');
+  }
+
+  return formatEvent(result.rows[0]);
+}
+
+/**
+ * List events, newest first
+ */
+export async function list(
+  params: ListEventsParams
+): Promise<{ data: EventWithDelivery[]; has_more: boolean }> {
+  const {
+    application_id,
+    test_mode,
+    limit = 10,
+    starting_after,
+    type,
+    delivery_status,
+    object_id,
+  } = params;
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1', 'test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (type) {
+    // 'invoice.*' matches every invoice event
+    if (type.endsWith('.*')) {
+      conditions.push(`event_type LIKE $${paramIndex}`);
+      values.push(`${type.slice(0, -1)}%`);
+    } else {
+      conditions.push(`event_type = $${paramIndex}`);
+      values.push(type);
+    }
+    paramIndex++;
+  }
+
+  if (delivery_status) {
+    if (!DELIVERY_STATUSES.includes(delivery_status as EventDeliveryStatus)) {
+      throw new ValidationError(
+        `Invalid delivery_status. Must be one of: ${DELIVERY_STATUSES.join(', ')}`
+      );
+    }
+    conditions.push(`status = $${paramIndex}`);
+    values.push(delivery_status);
+    paramIndex++;
+  }
+
+  if (object_id) {
+    conditions.push(`aggregate_id = $${paramIndex}`);
+    values.push(object_id);
+    paramIndex++;
+  }
+
+  // Events published in one transaction share created_at, so page on (created_at, id)
+  if (starting_after) {
+    conditions.push(
+      `(created_at, id) < (SELECT created_at, id FROM outbox_events WHERE id = $${paramIndex})`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM outbox_events
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatEvent);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  previousAttributes,
+  buildEvent,
+  publish,
+  getById,
+  list,
+};
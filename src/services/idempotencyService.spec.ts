@@ -0,0 +1,111 @@
+import { db } from '../config/database';
+import { ConflictError } from '../utils/errors';
+import { begin, complete } from './idempotencyService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+
+function request(body: unknown = { name: 'Deploy key' }) {
+  return {
+    application_id: APPLICATION_ID,
+    test_mode: false,
+    key: 'retry-1',
+    method: 'POST',
+    path: '/v1/api_keys',
+    body,
+  };
+}
+
+/**
+ * Keep one idempotency_keys row in memory. Stored bodies are kept exactly as
+ * the statement would write them: the encrypted column only ever receives the
+ * output of pgp_sym_encrypt, modelled here as an opaque wrapper.
+ */
+function mockTable() {
+  let row: Record<string, any> | null = null;
+  const writes: { sql: string; values: any[] }[] = [];
+
+  (db.query as jest.Mock).mockImplementation(async (sql: string, values: any[] = []) => {
+    if (sql.includes('INSERT INTO idempotency_keys')) {
+      if (row) return { rows: [] };
+      row = { request_fingerprint: values[5], status: 'processing' };
+      return { rows: [{ idempotency_key: values[2] }] };
+    }
+    if (sql.includes('UPDATE idempotency_keys')) {
+      writes.push({ sql, values });
+      const encrypted = sql.includes('armor(pgp_sym_encrypt($5, $6))');
+      row = {
+        ...row,
+        status: 'completed',
+        response_status: values[3],
+        response_body_encrypted: encrypted ? { ciphertext: values[4], key: values[5] } : values[4],
+      };
+      return { rows: [] };
+    }
+    if (sql.includes('SELECT request_fingerprint')) {
+      if (!row) return { rows: [] };
+      const stored = row.response_body_encrypted;
+      const decrypts = sql.includes('pgp_sym_decrypt(dearmor(response_body_encrypted), $4)');
+      const responseBody = stored && decrypts && stored.key === values[3] ? JSON.parse(stored.ciphertext) : null;
+      return { rows: [{ ...row, response_body: responseBody }] };
+    }
+    return { rows: [] };
+  });
+
+  return { writes };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('idempotency keys', () => {
+  it('replays the stored response for a retried request', async () => {
+    mockTable();
+    const response = { id: 'key_1', object: 'api_key', key: 'xbs_sk_live_0123456789abcdef0123456789abcdef' };
+
+    expect(await begin(request())).toEqual({ replay: false });
+    await complete(request(), 201, response);
+
+    expect(await begin(request())).toEqual({ replay: true, status: 201, body: response });
+  });
+
+  it('never writes response bodies to the table unencrypted', async () => {
+    const { writes } = mockTable();
+    const response = {
+      api_key: { key: 'xbs_sk_live_0123456789abcdef0123456789abcdef' },
+      webhook_endpoint: { secret: 'whsec_0123456789abcdef' },
+    };
+
+    await begin(request());
+    await complete(request(), 201, response);
+
+    const [write] = writes;
+    expect(write.sql).not.toMatch(/response_body\s*=/);
+    expect(write.sql).toContain('response_body_encrypted = armor(pgp_sym_encrypt($5, $6))');
+    expect(write.values[5]).toBe(process.env.ENCRYPTION_KEY);
+  });
+
+  it('rejects a key reused with different parameters', async () => {
+    mockTable();
+    await begin(request());
+    await complete(request(), 201, { id: 'key_1' });
+
+    await expect(begin(request({ name: 'Other key' }))).rejects.toThrow(
+      new ConflictError(
+        'Idempotency key has already been used with different request parameters',
+        'IDEMPOTENCY_KEY_REUSED'
+      )
+    );
+  });
+
+  it('rejects a retry while the original request is still running', async () => {
+    mockTable();
+    await begin(request());
+
+    await expect(begin(request())).rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_USE' });
+  });
+});
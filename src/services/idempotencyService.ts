@@ -0,0 +1,199 @@
+/**
+ * Idempotency Service
+ * Records requests sent with an Idempotency-Key header and their responses,
+ * so a retried request replays the original response instead of running again.
+ * Responses can carry secrets (new API keys, webhook signing secrets), so they
+ * are stored encrypted with pgcrypto.
+ */
+
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { ConflictError } from '../utils/errors';
+import logger from '../config/logger';
+
+export interface IdempotentRequest {
+  application_id: string;
+  test_mode: boolean;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type BeginResult =
+  | { replay: false }
+  | { replay: true; status: number; body: any };
+
+// A 'processing' record older than this is assumed abandoned (crashed
+// process) and may be taken over by a retry with the same parameters
+const LOCK_TIMEOUT_SECONDS = 60;
+
+/**
+ * JSON with object keys sorted, so key order does not change the fingerprint
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint of what the key is being used for
+ */
+function fingerprint(request: IdempotentRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${request.method} ${request.path}\n${canonicalJson(request.body)}`)
+    .digest('hex');
+}
+
+/**
+ * Claim a key for a request, or return the stored response to replay
+ * Throws ConflictError if the key was used with different parameters or the
+ * original request is still running.
+ */
+export async function begin(request: IdempotentRequest): Promise<BeginResult> {
+  const requestFingerprint = fingerprint(request);
+
+  // Insert, or take over a record that has expired or was abandoned mid-request
+  const claimed = await db.query(
+    `INSERT INTO idempotency_keys (
+      application_id, test_mode, idempotency_key, request_method, request_path,
+      request_fingerprint, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(hours => $7))
+    ON CONFLICT (application_id, test_mode, idempotency_key) DO UPDATE
+    SET request_method = EXCLUDED.request_method,
+        request_path = EXCLUDED.request_path,
+        request_fingerprint = EXCLUDED.request_fingerprint,
+        status = 'processing',
+        response_status = NULL,
+        response_body_encrypted = NULL,
+        locked_at = NOW(),
+        created_at = NOW(),
+        expires_at = EXCLUDED.expires_at
+    WHERE idempotency_keys.expires_at <= NOW()
+       OR (idempotency_keys.status = 'processing'
+           AND idempotency_keys.locked_at < NOW() - make_interval(secs => $8)
+           AND idempotency_keys.request_fingerprint = EXCLUDED.request_fingerprint)
+    RETURNING idempotency_key`,
+    [
+      request.application_id,
+      request.test_mode,
+      request.key,
+      request.method,
+      request.path.slice(0, 500),
+      requestFingerprint,
+      env.IDEMPOTENCY_KEY_TTL_HOURS,
+      LOCK_TIMEOUT_SECONDS,
+    ]
+  );
+
+  if (claimed.rows.length > 0) {
+    return { replay: false };
+  }
+
+  const existing = await db.query(
+    `SELECT request_fingerprint, status, response_status,
+       pgp_sym_decrypt(dearmor(response_body_encrypted), $4)::jsonb AS response_body
+     FROM idempotency_keys
+     WHERE application_id = $1 AND test_mode = $2 AND idempotency_key = $3`,
+    [request.application_id, request.test_mode, request.key, env.ENCRYPTION_KEY]
+  );
+  const record = existing.rows[0];
+
+  if (!record) {
+    // Purged between the two queries; the client can simply retry
+    throw new ConflictError('Idempotency key was released concurrently. Please retry', 'IDEMPOTENCY_KEY_IN_USE');
+  }
+
+  if (record.request_fingerprint !== requestFingerprint) {
+    throw new ConflictError(
+      'Idempotency key has already been used with different request parameters',
+      'IDEMPOTENCY_KEY_REUSED'
+    );
+  }
+
+  if (record.status !== 'completed') {
+    throw new ConflictError(
+      'A request with this idempotency key is still being processed',
+      'IDEMPOTENCY_KEY_IN_USE'
+    );
+  }
+
+  return { replay: true, status: record.response_status, body: record.response_body };
+}
+
+/**
+ * Store the response for a claimed key
+ */
+export async function complete(
+  request: Pick<IdempotentRequest, 'application_id' | 'test_mode' | 'key'>,
+  status: number,
+  body: unknown
+): Promise<void> {
+  await db.query(
+    `UPDATE idempotency_keys
+     SET status = 'completed', response_status = $4,
+         response_body_encrypted = armor(pgp_sym_encrypt($5, $6))
+     WHERE application_id = $1 AND test_mode = $2 AND idempotency_key = $3`,
+    [
+      request.application_id,
+      request.test_mode,
+      request.key,
+      status,
+      JSON.stringify(body ?? null),
+      env.ENCRYPTION_KEY,
+    ]
+  );
+}
+
+/**
+ * Release a claimed key without storing a response (server errors), so the
+ * request can be retried
+ */
+export async function release(
+  request: Pick<IdempotentRequest, 'application_id' | 'test_mode' | 'key'>
+): Promise<void> {
+  await db.query(
+    `DELETE FROM idempotency_keys
+     WHERE application_id = $1 AND test_mode = $2 AND idempotency_key = $3 AND status = 'processing'`,
+    [request.application_id, request.test_mode, request.key]
+  );
+}
+
+/**
+ * Delete expired records
+ */
+export async function purgeExpired(batchSize: number = 1000): Promise<number> {
+  const result = await db.query(
+    `DELETE FROM idempotency_keys
+     WHERE (application_id, test_mode, idempotency_key) IN (
+       SELECT application_id, test_mode, idempotency_key
+       FROM idempotency_keys
+       WHERE expires_at <= NOW()
+       LIMIT $1
+     )`,
+    [batchSize]
+  );
+
+  const purged = result.rowCount || 0;
+  if (purged > 0) {
+    logger.info('Expired idempotency keys purged', { purged });
+  }
+  return purged;
+}
+
+export default {
+  begin,
+  complete,
+  release,
+  purgeExpired,
+};
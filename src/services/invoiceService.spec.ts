@@ -0,0 +1,325 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  addPendingItems,
+  buildDiscountLineItem,
+  buildProrationLineItems,
+  createProrationInvoice,
+  formatInvoiceNumber,
+  InvoiceLineItem,
+} from './invoiceService';
+import { Plan } from './planService';
+import { Subscription } from './subscriptionService';
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+const PERIOD_START = new Date('2026-01-01T00:00:00Z');
+const PERIOD_END = new Date('2026-01-31T00:00:00Z'); // 30 days
+
+function buildPlan(name: string, unitAmount: number): Plan {
+  return {
+    id: uuidv4(),
+    object: 'plan',
+    application_id: APPLICATION_ID,
+    external_id: null,
+    name,
+    description: null,
+    billing_interval: 'month',
+    billing_interval_count: 1,
+    prices: [{ id: uuidv4(), currency: 'NGN', unit_amount: unitAmount, pricing_model: 'per_unit' }],
+    trial_period_days: 0,
+    features: {},
+    metadata: {},
+    status: 'active',
+    test_mode: true,
+    created_at: PERIOD_START,
+    updated_at: PERIOD_START,
+    archived_at: null,
+  };
+}
+
+function buildSubscription(): Subscription {
+  return {
+    id: uuidv4(),
+    object: 'subscription',
+    customer_id: uuidv4(),
+    plan_id: uuidv4(),
+    status: 'active',
+    currency: 'NGN',
+    quantity: 1,
+    current_period_start: PERIOD_START,
+    current_period_end: PERIOD_END,
+    trial_start: null,
+    trial_end: null,
+    cancel_at_period_end: false,
+    cancelled_at: null,
+    cancellation_reason: null,
+    scheduled_change: null,
+    pause: null,
+    metadata: {},
+    test_mode: true,
+    created_at: PERIOD_START,
+    updated_at: PERIOD_START,
+  };
+}
+
+function buildLineItem(amountCents: number): InvoiceLineItem {
+  return {
+    id: uuidv4(),
+    type: 'proration',
+    description: `Proration ${amountCents}`,
+    quantity: 1,
+    unit_amount_cents: amountCents,
+    amount_cents: amountCents,
+    currency: 'NGN',
+    plan_id: null,
+    period_start: PERIOD_START.toISOString(),
+    period_end: PERIOD_END.toISOString(),
+    metadata: {},
+  };
+}
+
+/**
+ * In-memory stand-in for the tables createProrationInvoice touches, matched
+ * on SQL text. Anything else (outbox inserts) returns no rows.
+ */
+function createFakeClient() {
+  const pending: { id: string; line_item: InvoiceLineItem; invoice_id: string | null }[] = [];
+  const invoices = new Map<string, Record<string, any>>();
+  let lastNumber = 0;
+
+  const query = async (sql: string, params: any[] = []) => {
+    if (sql.includes('INSERT INTO pending_invoice_items')) {
+      pending.push({ id: params[0], line_item: JSON.parse(params[2]), invoice_id: null });
+      return { rows: [] };
+    }
+    if (sql.includes('FROM pending_invoice_items')) {
+      return { rows: pending.filter((item) => item.invoice_id === null) };
+    }
+    if (sql.includes('UPDATE pending_invoice_items')) {
+      pending
+        .filter((item) => params[1].includes(item.id))
+        .forEach((item) => { item.invoice_id = params[0]; });
+      return { rows: [] };
+    }
+    if (sql.includes('FROM customers')) {
+      return { rows: [{ country: 'NG' }] };
+    }
+    if (sql.includes('INSERT INTO invoices')) {
+      const row = {
+        id: params[0],
+        application_id: params[1],
+        subscription_id: params[2],
+        customer_id: params[3],
+        status: 'draft',
+        invoice_number: null,
+        subtotal_cents: params[4],
+        tax_cents: params[5],
+        total_cents: params[6],
+        amount_due_cents: params[6],
+        currency: params[7],
+        line_items: JSON.parse(params[12]),
+        test_mode: params[14],
+      };
+      invoices.set(row.id, row);
+      return { rows: [row] };
+    }
+    if (sql.includes('INSERT INTO invoice_number_sequences')) {
+      lastNumber += 1;
+      return { rows: [{ last_number: lastNumber }] };
+    }
+    if (sql.includes('FROM applications')) {
+      return { rows: [{ invoice_config: { number_prefix: 'INV', number_format: 'NNNN' } }] };
+    }
+    if (sql.includes('UPDATE invoices')) {
+      const row = { ...invoices.get(params[3])!, status: params[0], invoice_number: params[1] };
+      invoices.set(params[3], row);
+      return { rows: [row] };
+    }
+    return { rows: [] };
+  };
+
+  return {
+    client: { query } as unknown as PoolClient,
+    pending,
+    invoices,
+  };
+}
+
+describe('buildProrationLineItems', () => {
+  const basic = buildPlan('Basic', 10000);
+  const pro = buildPlan('Pro', 20000);
+
+  it('credits unused time and charges the remaining time on an upgrade halfway through', () => {
+    const items = buildProrationLineItems({
+      subscription: buildSubscription(),
+      from_plan: basic,
+      from_quantity: 1,
+      to_plan: pro,
+      to_quantity: 1,
+      proration_date: new Date('2026-01-16T00:00:00Z'),
+    });
+
+    expect(items.map((item) => item.amount_cents)).toEqual([-5000, 10000]);
+    expect(items.every((item) => item.type === 'proration')).toBe(true);
+    expect(items[0].plan_id).toBe(basic.id);
+    expect(items[1].plan_id).toBe(pro.id);
+    expect(items[1].period_end).toBe(PERIOD_END.toISOString());
+  });
+
+  it('nets to a credit on a downgrade with three quarters of the period left', () => {
+    const items = buildProrationLineItems({
+      subscription: buildSubscription(),
+      from_plan: pro,
+      from_quantity: 1,
+      to_plan: basic,
+      to_quantity: 1,
+      proration_date: new Date('2026-01-08T12:00:00Z'),
+    });
+
+    expect(items.map((item) => item.amount_cents)).toEqual([-15000, 7500]);
+  });
+
+  it('scales by quantity', () => {
+    const items = buildProrationLineItems({
+      subscription: buildSubscription(),
+      from_plan: basic,
+      from_quantity: 2,
+      to_plan: basic,
+      to_quantity: 3,
+      proration_date: new Date('2026-01-16T00:00:00Z'),
+    });
+
+    expect(items.map((item) => item.amount_cents)).toEqual([-10000, 15000]);
+    expect(items.map((item) => item.metadata.plan_quantity)).toEqual([2, 3]);
+  });
+
+  it('leaves out zero amounts when no time is left', () => {
+    const items = buildProrationLineItems({
+      subscription: buildSubscription(),
+      from_plan: basic,
+      from_quantity: 1,
+      to_plan: pro,
+      to_quantity: 1,
+      proration_date: PERIOD_END,
+    });
+
+    expect(items).toEqual([]);
+  });
+});
+
+describe('createProrationInvoice', () => {
+  it('does not invoice a credit on its own and keeps it pending', async () => {
+    const { client, pending, invoices } = createFakeClient();
+    const subscription = buildSubscription();
+    await addPendingItems(client, subscription, [buildLineItem(-5000)]);
+
+    const invoice = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+
+    expect(invoice).toBeNull();
+    expect(invoices.size).toBe(0);
+    expect(pending[0].invoice_id).toBeNull();
+  });
+
+  it('defers credits that would take an invoice below zero to the next invoice', async () => {
+    const { client, pending } = createFakeClient();
+    const subscription = buildSubscription();
+    const charge = buildLineItem(3000);
+    const firstCredit = buildLineItem(-2000);
+    const secondCredit = buildLineItem(-2000);
+    await addPendingItems(client, subscription, [charge, firstCredit, secondCredit]);
+
+    const first = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+
+    expect(first!.line_items.map((item) => item.id)).toEqual([charge.id, firstCredit.id]);
+    expect(first!.total_cents).toBe(1000);
+    expect(first!.status).toBe('open');
+    expect(pending.filter((item) => item.invoice_id === null).map((item) => item.id)).toEqual([secondCredit.id]);
+
+    const nextCharge = buildLineItem(5000);
+    await addPendingItems(client, subscription, [nextCharge]);
+
+    const second = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+
+    expect(second!.line_items.map((item) => item.id)).toEqual([secondCredit.id, nextCharge.id]);
+    expect(second!.total_cents).toBe(3000);
+    expect(pending.every((item) => item.invoice_id !== null)).toBe(true);
+  });
+
+  it('numbers finalized invoices without gaps', async () => {
+    const { client } = createFakeClient();
+    const subscription = buildSubscription();
+    const numbers: (string | null)[] = [];
+
+    for (const amount of [1000, 2000, 3000]) {
+      await addPendingItems(client, subscription, [buildLineItem(amount)]);
+      const invoice = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+      numbers.push(invoice!.invoice_number);
+    }
+
+    // A credit-only call allocates nothing
+    await addPendingItems(client, subscription, [buildLineItem(-500)]);
+    await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+    await addPendingItems(client, subscription, [buildLineItem(4000)]);
+    const last = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+    numbers.push(last!.invoice_number);
+
+    expect(numbers).toEqual(['INV-0001', 'INV-0002', 'INV-0003', 'INV-0004']);
+    expect(last!.total_cents).toBe(3500);
+  });
+
+  it('marks a zero-total invoice paid', async () => {
+    const { client } = createFakeClient();
+    const subscription = buildSubscription();
+    await addPendingItems(client, subscription, [buildLineItem(2000), buildLineItem(-2000)]);
+
+    const invoice = await createProrationInvoice(client, { application_id: APPLICATION_ID, subscription });
+
+    expect(invoice!.total_cents).toBe(0);
+    expect(invoice!.status).toBe('paid');
+  });
+});
+
+describe('buildDiscountLineItem', () => {
+  const lineItems = [buildLineItem(6000), buildLineItem(4000)];
+
+  it('takes a percentage of the line items total', () => {
+    const item = buildDiscountLineItem({ description: '25% off', percent_off: 25, amount_off: null }, lineItems);
+
+    expect(item!.type).toBe('discount');
+    expect(item!.amount_cents).toBe(-2500);
+    expect(item!.period_start).toBe(lineItems[0].period_start);
+  });
+
+  it('takes at most the base amount', () => {
+    const percent = buildDiscountLineItem({ description: 'Free', percent_off: 100, amount_off: null }, lineItems);
+    const amount = buildDiscountLineItem({ description: 'Big', percent_off: null, amount_off: 25000 }, lineItems);
+
+    expect(percent!.amount_cents).toBe(-10000);
+    expect(amount!.amount_cents).toBe(-10000);
+  });
+
+  it('returns null when there is nothing to discount', () => {
+    const discount = { description: 'Off', percent_off: null, amount_off: 1000 };
+
+    expect(buildDiscountLineItem(discount, [])).toBeNull();
+    expect(buildDiscountLineItem(discount, [buildLineItem(0)])).toBeNull();
+    expect(buildDiscountLineItem(discount, [buildLineItem(-3000)])).toBeNull();
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  const date = new Date('2026-03-05T00:00:00Z');
+
+  it('uses the default prefix and format', () => {
+    expect(formatInvoiceNumber({}, 7, date)).toBe('INV-2026-0007');
+  });
+
+  it('renders date tokens and pads the sequence', () => {
+    expect(formatInvoiceNumber({ number_prefix: 'ACME', number_format: 'YY-MM-NNNNNN' }, 42, date))
+      .toBe('ACME-26-03-000042');
+  });
+
+  it('appends the sequence when the format has no N run', () => {
+    expect(formatInvoiceNumber({ number_prefix: '', number_format: 'YYYYMM' }, 3, date)).toBe('202603-3');
+  });
+});
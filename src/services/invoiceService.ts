@@ -0,0 +1,1212 @@
+/**
+ * Invoice Service
+ * Handles invoice generation, line items, numbering and lifecycle
+ * (draft → open → paid / void / uncollectible) with multi-tenant isolation
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import planService, { Plan } from './planService';
+import subscriptionService, { PauseBehavior, Subscription } from './subscriptionService';
+import usageService from './usageService';
+import discountService from './discountService';
+import eventService, { EventType } from './eventService';
+
+// Types
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void' | 'uncollectible';
+export type LineItemType = 'subscription' | 'usage' | 'invoiceitem' | 'proration' | 'discount';
+
+export interface InvoiceLineItem {
+  id: string;
+  type: LineItemType;
+  description: string;
+  quantity: number;
+  unit_amount_cents: number;
+  amount_cents: number;
+  currency: string;
+  plan_id: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  metadata: Record<string, any>;
+}
+
+export interface Invoice {
+  id: string;
+  object: 'invoice';
+  application_id: string;
+  customer_id: string;
+  subscription_id: string;
+  invoice_number: string | null;
+  status: InvoiceStatus;
+  currency: string;
+  subtotal_cents: number;
+  tax_cents: number;
+  total_cents: number;
+  amount_paid_cents: number;
+  amount_due_cents: number;
+  line_items: InvoiceLineItem[];
+  period_start: Date;
+  period_end: Date;
+  issue_date: Date;
+  due_date: Date;
+  days_until_due: number;
+  attempt_count: number;
+  last_payment_attempt_at: Date | null;
+  finalized_at: Date | null;
+  paid_at: Date | null;
+  voided_at: Date | null;
+  marked_uncollectible_at: Date | null;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateSubscriptionInvoiceParams {
+  application_id: string;
+  subscription: Subscription;
+  plan: Plan;
+  period_start: Date;
+  period_end: Date;
+  usage_plan?: Plan; // Plan of the period that closed, if it changed at renewal
+  pause_behavior?: PauseBehavior; // Set while the subscription is paused
+  discount?: InvoiceDiscount | null; // Applied to the plan line item
+}
+
+export interface InvoiceDiscount {
+  description: string;
+  percent_off: number | null;
+  amount_off: number | null; // In the invoice currency's smallest unit
+  metadata?: Record<string, any>;
+}
+
+export interface CreateUsageInvoiceParams {
+  application_id: string;
+  subscription: Subscription;
+  plan: Plan;
+}
+
+export interface CreateProrationInvoiceParams {
+  application_id: string;
+  subscription: Subscription;
+}
+
+export interface ProrationParams {
+  subscription: Subscription;
+  from_plan: Plan;
+  from_quantity: number;
+  to_plan: Plan;
+  to_quantity: number;
+  proration_date: Date;
+}
+
+export interface CreateInvoiceInput {
+  subscription_id: string;
+  days_until_due?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface AddLineItemInput {
+  description?: string;
+  quantity?: number;
+  unit_amount_cents?: number;
+  plan_id?: string;
+  period_start?: string;
+  period_end?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ListInvoicesParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  customer_id?: string;
+  subscription_id?: string;
+  status?: InvoiceStatus;
+}
+
+export interface ListInvoicesResult {
+  data: Invoice[];
+  has_more: boolean;
+}
+
+interface InvoiceConfig {
+  number_prefix?: string;
+  number_format?: string;
+}
+
+// Constants
+const VALID_STATUSES: InvoiceStatus[] = ['draft', 'open', 'paid', 'void', 'uncollectible'];
+const DEFAULT_NUMBER_PREFIX = 'INV';
+const DEFAULT_NUMBER_FORMAT = 'YYYY-NNNN';
+
+/**
+ * Format invoice for API response
+ */
+export function formatInvoice(row: any): Invoice {
+  return {
+    id: row.id,
+    object: 'invoice',
+    application_id: row.application_id,
+    customer_id: row.customer_id,
+    subscription_id: row.subscription_id,
+    invoice_number: row.invoice_number,
+    status: row.status,
+    currency: row.currency,
+    subtotal_cents: row.subtotal_cents,
+    tax_cents: row.tax_cents || 0,
+    total_cents: row.total_cents,
+    amount_paid_cents: row.amount_paid_cents || 0,
+    amount_due_cents: row.amount_due_cents,
+    line_items: row.line_items || [],
+    period_start: row.period_start,
+    period_end: row.period_end,
+    issue_date: row.issue_date,
+    due_date: row.due_date,
+    days_until_due: row.days_until_due || 0,
+    attempt_count: row.attempt_count || 0,
+    last_payment_attempt_at: row.last_payment_attempt_at || null,
+    finalized_at: row.finalized_at,
+    paid_at: row.paid_at,
+    voided_at: row.voided_at,
+    marked_uncollectible_at: row.marked_uncollectible_at,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Sum line items into invoice amounts (no tax engine yet)
+ */
+function computeTotals(lineItems: InvoiceLineItem[]): {
+  subtotal_cents: number;
+  tax_cents: number;
+  total_cents: number;
+} {
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount_cents, 0);
+  const tax = 0;
+  return { subtotal_cents: subtotal, tax_cents: tax, total_cents: subtotal + tax };
+}
+
+/**
+ * Render an invoice number from the application's invoice_config
+ * Supported tokens: YYYY, YY, MM and a run of N's (zero-padded sequence)
+ */
+export function formatInvoiceNumber(
+  config: InvoiceConfig,
+  sequence: number,
+  date: Date = new Date()
+): string {
+  const prefix = config.number_prefix ?? DEFAULT_NUMBER_PREFIX;
+  const format = config.number_format || DEFAULT_NUMBER_FORMAT;
+
+  const body = format
+    .replace(/N+/, (run) => String(sequence).padStart(run.length, '0'))
+    .replace('YYYY', String(date.getUTCFullYear()))
+    .replace('YY', String(date.getUTCFullYear()).slice(-2))
+    .replace('MM', String(date.getUTCMonth() + 1).padStart(2, '0'));
+
+  // Formats without an N run still need the sequence to stay unique
+  const numbered = /N+/.test(format) ? body : `${body}-${sequence}`;
+
+  return prefix ? `${prefix}-${numbered}` : numbered;
+}
+
+/**
+ * Allocate the next invoice number for an application and mode.
+ * Must run inside the transaction that finalizes the invoice: the sequence row
+ * stays locked until commit, and a rollback returns the number.
+ */
+export async function allocateInvoiceNumber(
+  client: PoolClient,
+  applicationId: string,
+  testMode: boolean
+): Promise<string> {
+  const sequenceResult = await client.query(
+    `INSERT INTO invoice_number_sequences (application_id, test_mode, last_number)
+     VALUES ($1, $2, 1)
+     ON CONFLICT (application_id, test_mode)
+     DO UPDATE SET last_number = invoice_number_sequences.last_number + 1
+     RETURNING last_number`,
+    [applicationId, testMode]
+  );
+
+  const configResult = await client.query(
+    'SELECT invoice_config FROM applications WHERE id = $1',
+    [applicationId]
+  );
+
+  return formatInvoiceNumber(
+    configResult.rows[0]?.invoice_config || {},
+    sequenceResult.rows[0].last_number
+  );
+}
+
+/**
+ * Build a line item for a plan's licensed price in the given currency
+ * The amount comes from planService.calculatePrice for the quantity. Returns
+ * null for a plan billed only by usage in the currency.
+ */
+function buildPlanLineItem(
+  plan: Plan,
+  currency: string,
+  quantity: number,
+  periodStart: Date | null,
+  periodEnd: Date | null
+): InvoiceLineItem | null {
+  const price = planService.getPriceForCurrency(plan, currency);
+  if (!price) {
+    return null;
+  }
+
+  return {
+    id: uuidv4(),
+    type: 'subscription',
+    description: quantity > 1 ? `${quantity} × ${plan.name}` : plan.name,
+    quantity,
+    unit_amount_cents: price.unit_amount,
+    amount_cents: planService.calculatePrice(price, quantity),
+    currency: price.currency,
+    plan_id: plan.id,
+    period_start: periodStart ? periodStart.toISOString() : null,
+    period_end: periodEnd ? periodEnd.toISOString() : null,
+    metadata: {},
+  };
+}
+
+/**
+ * Build the negative line item for a discount on the total of `lineItems`,
+ * dated like the first of them
+ * Never discounts more than that total. Returns null for a zero discount.
+ */
+export function buildDiscountLineItem(
+  discount: InvoiceDiscount,
+  lineItems: InvoiceLineItem[]
+): InvoiceLineItem | null {
+  if (lineItems.length === 0) {
+    return null;
+  }
+
+  const lineItem = lineItems[0];
+  const base = lineItems.reduce((sum, item) => sum + item.amount_cents, 0);
+  const amount = discount.percent_off !== null
+    ? Math.round((base * discount.percent_off) / 100)
+    : Math.min(discount.amount_off || 0, base);
+
+  if (amount <= 0) {
+    return null;
+  }
+
+  return {
+    id: uuidv4(),
+    type: 'discount',
+    description: discount.description,
+    quantity: 1,
+    unit_amount_cents: -amount,
+    amount_cents: -amount,
+    currency: lineItem.currency,
+    plan_id: lineItem.plan_id,
+    period_start: lineItem.period_start,
+    period_end: lineItem.period_end,
+    metadata: discount.metadata || {},
+  };
+}
+
+/**
+ * Build one line item per metered price from usage in periods ending on or
+ * before `periodEnd`, priced in the subscription currency
+ */
+async function buildUsageLineItems(
+  client: PoolClient,
+  applicationId: string,
+  subscription: Subscription,
+  plan: Plan,
+  periodEnd: Date
+): Promise<{ lineItems: InvoiceLineItem[]; metricNames: string[] }> {
+  const meteredPrices = planService.getMeteredPrices(plan, subscription.currency);
+  const metricNames = meteredPrices.map((price) => price.metric_name as string);
+
+  const aggregates = await usageService.aggregateUninvoiced(
+    client,
+    applicationId,
+    subscription.id,
+    metricNames,
+    periodEnd
+  );
+
+  const lineItems = aggregates
+    .filter((aggregate) => aggregate.quantity > 0)
+    .map((aggregate): InvoiceLineItem => {
+      const price = meteredPrices.find((p) => p.metric_name === aggregate.metric_name)!;
+
+      return {
+        id: uuidv4(),
+        type: 'usage',
+        description: `${aggregate.display_name} (${plan.name})`,
+        quantity: aggregate.quantity,
+        unit_amount_cents: price.unit_amount,
+        amount_cents: planService.calculatePrice(price, aggregate.quantity),
+        currency: price.currency,
+        plan_id: plan.id,
+        period_start: new Date(aggregate.period_start).toISOString(),
+        period_end: new Date(aggregate.period_end).toISOString(),
+        metadata: { metric_name: aggregate.metric_name, aggregation: aggregate.aggregation },
+      };
+    });
+
+  return { lineItems, metricNames };
+}
+
+/**
+ * Build the credit and debit line items for changing plan part-way through the
+ * subscription's current period. Both are the plan amounts scaled by the share
+ * of the period left after `proration_date`; zero amounts are left out.
+ */
+export function buildProrationLineItems(params: ProrationParams): InvoiceLineItem[] {
+  const { subscription, from_plan, from_quantity, to_plan, to_quantity, proration_date } = params;
+  const periodStart = new Date(subscription.current_period_start).getTime();
+  const periodEnd = new Date(subscription.current_period_end).getTime();
+  const unused = Math.min(Math.max((periodEnd - proration_date.getTime()) / (periodEnd - periodStart), 0), 1);
+
+  // Usage-only plans have no licensed price to prorate
+  const prorate = (plan: Plan, quantity: number, sign: 1 | -1, label: string): InvoiceLineItem | null => {
+    const item = buildPlanLineItem(plan, subscription.currency, quantity, proration_date, new Date(periodEnd));
+    if (!item) return null;
+
+    const amount = sign * Math.round(item.amount_cents * unused);
+
+    return {
+      ...item,
+      type: 'proration',
+      description: `${label} ${item.description}`,
+      quantity: 1,
+      unit_amount_cents: amount,
+      amount_cents: amount,
+      metadata: { plan_quantity: quantity },
+    };
+  };
+
+  return [
+    prorate(from_plan, from_quantity, -1, 'Unused time on'),
+    prorate(to_plan, to_quantity, 1, 'Remaining time on'),
+  ].filter((item): item is InvoiceLineItem => item !== null && item.amount_cents !== 0);
+}
+
+/**
+ * Queue line items for the subscription's next invoice
+ */
+export async function addPendingItems(
+  client: PoolClient,
+  subscription: Subscription,
+  lineItems: InvoiceLineItem[]
+): Promise<void> {
+  // clock_timestamp() keeps items added in one transaction in order
+  for (const item of lineItems) {
+    await client.query(
+      `INSERT INTO pending_invoice_items (
+        id, subscription_id, line_item, amount_cents, currency, test_mode, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, clock_timestamp())`,
+      [item.id, subscription.id, JSON.stringify(item), item.amount_cents, item.currency, subscription.test_mode]
+    );
+  }
+}
+
+/**
+ * Pick the pending items to bill on an invoice whose other line items add up
+ * to `baseTotalCents`. Charges are always taken; credits are taken oldest
+ * first while the invoice stays non-negative, and the rest wait for a later invoice.
+ */
+async function takePendingItems(
+  client: PoolClient,
+  subscriptionId: string,
+  baseTotalCents: number
+): Promise<InvoiceLineItem[]> {
+  const result = await client.query(
+    `SELECT line_item FROM pending_invoice_items
+     WHERE subscription_id = $1 AND invoice_id IS NULL
+     ORDER BY created_at, id
+     FOR UPDATE`,
+    [subscriptionId]
+  );
+
+  const items: InvoiceLineItem[] = result.rows.map((row) => row.line_item);
+  let total = baseTotalCents + items
+    .filter((item) => item.amount_cents > 0)
+    .reduce((sum, item) => sum + item.amount_cents, 0);
+
+  return items.filter((item) => {
+    if (item.amount_cents >= 0) return true;
+    if (total + item.amount_cents < 0) return false;
+    total += item.amount_cents;
+    return true;
+  });
+}
+
+/**
+ * Mark pending items as billed on an invoice
+ */
+async function markPendingItemsInvoiced(
+  client: PoolClient,
+  invoiceId: string,
+  lineItems: InvoiceLineItem[]
+): Promise<void> {
+  if (lineItems.length === 0) return;
+
+  await client.query(
+    'UPDATE pending_invoice_items SET invoice_id = $1 WHERE id = ANY($2::uuid[])',
+    [invoiceId, lineItems.map((item) => item.id)]
+  );
+}
+
+/**
+ * Lock an invoice row for update, scoped to the application and mode
+ */
+export async function lockInvoice(
+  client: PoolClient,
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  const result = await client.query(
+    `SELECT * FROM invoices
+     WHERE id = $1 AND application_id = $2 AND test_mode = $3
+     FOR UPDATE`,
+    [invoiceId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Invoice not found');
+  }
+
+  return formatInvoice(result.rows[0]);
+}
+
+/**
+ * Publish an invoice event inside the caller's transaction
+ */
+async function publishInvoiceEvent(
+  client: PoolClient,
+  type: EventType,
+  invoice: Invoice,
+  previousAttributes?: Record<string, any>
+): Promise<void> {
+  await eventService.publish(client, {
+    application_id: invoice.application_id,
+    test_mode: invoice.test_mode,
+    type,
+    object: invoice,
+    previous_attributes: previousAttributes,
+  });
+}
+
+function assertStatus(invoice: Invoice, allowed: InvoiceStatus[], action: string): void {
+  if (!allowed.includes(invoice.status)) {
+    throw new ValidationError(`Cannot ${action} an invoice with status '${invoice.status}'`);
+  }
+}
+
+/**
+ * Insert a draft invoice for a subscription period
+ */
+async function insertDraft(
+  client: PoolClient,
+  params: {
+    application_id: string;
+    subscription: Subscription;
+    period_start: Date;
+    period_end: Date;
+    line_items: InvoiceLineItem[];
+    days_until_due?: number;
+    metadata?: Record<string, any>;
+  }
+): Promise<Invoice> {
+  const { application_id, subscription, line_items } = params;
+  const totals = computeTotals(line_items);
+
+  const customerResult = await client.query(
+    'SELECT country FROM customers WHERE id = $1',
+    [subscription.customer_id]
+  );
+
+  const result = await client.query(
+    `INSERT INTO invoices (
+      id, application_id, subscription_id, customer_id, status,
+      subtotal_cents, tax_cents, total_cents, amount_paid_cents, amount_due_cents,
+      currency, customer_country, period_start, period_end,
+      issue_date, due_date, days_until_due, line_items, metadata, test_mode
+    ) VALUES (
+      $1, $2, $3, $4, 'draft', $5, $6, $7, 0, $7, $8, $9, $10, $11,
+      CURRENT_DATE, CURRENT_DATE + $12::integer, $12, $13, $14, $15
+    )
+    RETURNING *`,
+    [
+      uuidv4(),
+      application_id,
+      subscription.id,
+      subscription.customer_id,
+      totals.subtotal_cents,
+      totals.tax_cents,
+      totals.total_cents,
+      subscription.currency,
+      customerResult.rows[0]?.country || null,
+      params.period_start,
+      params.period_end,
+      params.days_until_due || 0,
+      JSON.stringify(line_items),
+      JSON.stringify(params.metadata || {}),
+      subscription.test_mode,
+    ]
+  );
+
+  const invoice = formatInvoice(result.rows[0]);
+  await publishInvoiceEvent(client, 'invoice.created', invoice);
+  return invoice;
+}
+
+/**
+ * Finalize a locked draft: assign its number and open it for payment.
+ * Zero-amount invoices are marked paid immediately.
+ */
+async function finalizeDraft(client: PoolClient, invoice: Invoice): Promise<Invoice> {
+  const invoiceNumber = await allocateInvoiceNumber(client, invoice.application_id, invoice.test_mode);
+  const isPaid = invoice.total_cents === 0;
+
+  const result = await client.query(
+    `UPDATE invoices
+     SET status = $1, invoice_number = $2, finalized_at = NOW(),
+         issue_date = CURRENT_DATE, due_date = CURRENT_DATE + days_until_due,
+         paid_at = $3, updated_at = NOW()
+     WHERE id = $4
+     RETURNING *`,
+    [isPaid ? 'paid' : 'open', invoiceNumber, isPaid ? new Date() : null, invoice.id]
+  );
+
+  const finalized = formatInvoice(result.rows[0]);
+  await publishInvoiceEvent(client, 'invoice.finalized', finalized);
+  if (isPaid) {
+    await publishInvoiceEvent(client, 'invoice.paid', finalized);
+  }
+
+  logger.info('Invoice finalized', {
+    invoiceId: invoice.id,
+    invoiceNumber,
+    applicationId: invoice.application_id,
+    totalCents: invoice.total_cents,
+  });
+  return finalized;
+}
+
+/**
+ * Void a locked open/uncollectible invoice
+ */
+async function voidLocked(client: PoolClient, invoice: Invoice): Promise<Invoice> {
+  const result = await client.query(
+    `UPDATE invoices
+     SET status = 'void', voided_at = NOW(), updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [invoice.id]
+  );
+
+  const voided = formatInvoice(result.rows[0]);
+  await publishInvoiceEvent(client, 'invoice.voided', voided, { status: invoice.status });
+  return voided;
+}
+
+/**
+ * Mark a locked open invoice as uncollectible
+ */
+async function markLockedUncollectible(client: PoolClient, invoice: Invoice): Promise<Invoice> {
+  const result = await client.query(
+    `UPDATE invoices
+     SET status = 'uncollectible', marked_uncollectible_at = NOW(), updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [invoice.id]
+  );
+
+  const uncollectible = formatInvoice(result.rows[0]);
+  await publishInvoiceEvent(client, 'invoice.marked_uncollectible', uncollectible, {
+    status: invoice.status,
+  });
+  return uncollectible;
+}
+
+/**
+ * Write new line items to a draft and recompute its amounts
+ */
+async function saveLineItems(
+  client: PoolClient,
+  invoiceId: string,
+  lineItems: InvoiceLineItem[]
+): Promise<Invoice> {
+  const totals = computeTotals(lineItems);
+
+  if (totals.subtotal_cents < 0) {
+    throw new ValidationError('Invoice subtotal cannot be negative');
+  }
+
+  const result = await client.query(
+    `UPDATE invoices
+     SET line_items = $1, subtotal_cents = $2, tax_cents = $3, total_cents = $4,
+         amount_due_cents = $4 - COALESCE(amount_paid_cents, 0), updated_at = NOW()
+     WHERE id = $5
+     RETURNING *`,
+    [
+      JSON.stringify(lineItems),
+      totals.subtotal_cents,
+      totals.tax_cents,
+      totals.total_cents,
+      invoiceId,
+    ]
+  );
+
+  const invoice = formatInvoice(result.rows[0]);
+  await publishInvoiceEvent(client, 'invoice.updated', invoice);
+  return invoice;
+}
+
+/**
+ * Generate and finalize the invoice for a subscription billing period.
+ * Bills the new period's licensed price in advance, the usage of periods
+ * that closed at `period_start` in arrears, and pending items such as
+ * prorations, less any `discount` on the licensed price and the coupon
+ * discount of the subscription (or else its customer). Runs inside the
+ * caller's transaction (e.g. the renewal engine).
+ * For a paused subscription the invoice is kept as a draft, or finalized and
+ * then voided or marked uncollectible, per `pause_behavior`.
+ */
+export async function createSubscriptionInvoice(
+  client: PoolClient,
+  params: CreateSubscriptionInvoiceParams
+): Promise<Invoice> {
+  const { application_id, subscription, plan, period_start, period_end } = params;
+
+  const usage = await buildUsageLineItems(
+    client,
+    application_id,
+    subscription,
+    params.usage_plan || plan,
+    period_start
+  );
+  const planLineItem = buildPlanLineItem(
+    plan,
+    subscription.currency,
+    subscription.quantity,
+    period_start,
+    period_end
+  );
+  const phaseDiscountLineItem = params.discount && planLineItem
+    ? buildDiscountLineItem(params.discount, [planLineItem])
+    : null;
+  const discountable = [
+    ...(planLineItem ? [planLineItem] : []),
+    ...(phaseDiscountLineItem ? [phaseDiscountLineItem] : []),
+    ...usage.lineItems,
+  ];
+
+  // The subscription's or customer's coupon applies after any phase discount
+  const couponDiscount = await discountService.resolveForInvoice(client, subscription, period_start);
+  const couponLineItem = couponDiscount
+    ? buildDiscountLineItem(couponDiscount.invoice_discount, discountable)
+    : null;
+  const lineItems = [...discountable, ...(couponLineItem ? [couponLineItem] : [])];
+  const pendingItems = await takePendingItems(client, subscription.id, computeTotals(lineItems).subtotal_cents);
+
+  const draft = await insertDraft(client, {
+    application_id,
+    subscription,
+    period_start,
+    period_end,
+    line_items: [...lineItems, ...pendingItems],
+  });
+
+  await usageService.markInvoiced(client, subscription.id, draft.id, usage.metricNames, period_start);
+  await markPendingItemsInvoiced(client, draft.id, pendingItems);
+  if (couponDiscount && couponLineItem) {
+    await discountService.recordInvoiced(client, couponDiscount.discount);
+  }
+
+  logger.info('Subscription invoice created', {
+    invoiceId: draft.id,
+    subscriptionId: subscription.id,
+    applicationId: application_id,
+    usageLineItems: usage.lineItems.length,
+    pauseBehavior: params.pause_behavior,
+  });
+
+  // Invoices generated while paused are not collected
+  if (params.pause_behavior === 'keep_as_draft') {
+    return draft;
+  }
+
+  const finalized = await finalizeDraft(client, draft);
+  if (finalized.status !== 'open') {
+    return finalized;
+  }
+  if (params.pause_behavior === 'void') {
+    return voidLocked(client, finalized);
+  }
+  if (params.pause_behavior === 'mark_uncollectible') {
+    return markLockedUncollectible(client, finalized);
+  }
+  return finalized;
+}
+
+/**
+ * Generate and finalize a closing invoice for the subscription's current
+ * period (e.g. when it ends without renewing), billing its usage and pending
+ * items. Returns null when nothing is billable.
+ */
+export async function createUsageInvoice(
+  client: PoolClient,
+  params: CreateUsageInvoiceParams
+): Promise<Invoice | null> {
+  const { application_id, subscription, plan } = params;
+  const periodEnd = subscription.current_period_end;
+
+  const usage = await buildUsageLineItems(client, application_id, subscription, plan, periodEnd);
+  const pendingItems = await takePendingItems(
+    client,
+    subscription.id,
+    computeTotals(usage.lineItems).subtotal_cents
+  );
+  if (usage.lineItems.length === 0 && pendingItems.length === 0) {
+    return null;
+  }
+
+  const draft = await insertDraft(client, {
+    application_id,
+    subscription,
+    period_start: subscription.current_period_start,
+    period_end: periodEnd,
+    line_items: [...usage.lineItems, ...pendingItems],
+  });
+
+  await usageService.markInvoiced(client, subscription.id, draft.id, usage.metricNames, periodEnd);
+  await markPendingItemsInvoiced(client, draft.id, pendingItems);
+
+  logger.info('Usage invoice created', {
+    invoiceId: draft.id,
+    subscriptionId: subscription.id,
+    applicationId: application_id,
+  });
+  return finalizeDraft(client, draft);
+}
+
+/**
+ * Generate and finalize an invoice for the subscription's pending items right
+ * away (e.g. prorations from a plan change). Credits that would take the
+ * invoice below zero stay pending. Returns null when nothing is billable.
+ */
+export async function createProrationInvoice(
+  client: PoolClient,
+  params: CreateProrationInvoiceParams
+): Promise<Invoice | null> {
+  const { application_id, subscription } = params;
+
+  const pendingItems = await takePendingItems(client, subscription.id, 0);
+  if (pendingItems.length === 0) {
+    return null;
+  }
+
+  const draft = await insertDraft(client, {
+    application_id,
+    subscription,
+    period_start: subscription.current_period_start,
+    period_end: subscription.current_period_end,
+    line_items: pendingItems,
+  });
+
+  await markPendingItemsInvoiced(client, draft.id, pendingItems);
+
+  logger.info('Proration invoice created', {
+    invoiceId: draft.id,
+    subscriptionId: subscription.id,
+    applicationId: application_id,
+  });
+  return finalizeDraft(client, draft);
+}
+
+/**
+ * Create a draft invoice for a subscription's current period
+ * Starts with the subscription's plan line item; more can be added while in draft.
+ */
+export async function createDraft(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateInvoiceInput
+): Promise<Invoice> {
+  if (!input.subscription_id) {
+    throw new ValidationError('subscription_id is required');
+  }
+  if (input.days_until_due !== undefined &&
+      (!Number.isInteger(input.days_until_due) || input.days_until_due < 0)) {
+    throw new ValidationError('days_until_due must be a non-negative integer');
+  }
+
+  const subscription = await subscriptionService.getById(applicationId, input.subscription_id, testMode);
+  const plan = await planService.getById(applicationId, subscription.plan_id, testMode, true);
+  // Starts empty for a plan billed only by usage
+  const planLineItem = buildPlanLineItem(
+    plan,
+    subscription.currency,
+    subscription.quantity,
+    subscription.current_period_start,
+    subscription.current_period_end
+  );
+
+  const invoice = await db.transaction((client) =>
+    insertDraft(client, {
+      application_id: applicationId,
+      subscription,
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      line_items: planLineItem ? [planLineItem] : [],
+      days_until_due: input.days_until_due,
+      metadata: input.metadata,
+    })
+  );
+
+  logger.info('Draft invoice created', { invoiceId: invoice.id, applicationId, testMode });
+  return invoice;
+}
+
+/**
+ * Add a line item to a draft invoice
+ * Without unit_amount_cents the amount is priced from plan_id (default: the
+ * subscription's plan) in the invoice currency.
+ */
+export async function addLineItem(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean,
+  input: AddLineItemInput
+): Promise<Invoice> {
+  const quantity = input.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ValidationError('quantity must be a positive integer');
+  }
+
+  const current = await getById(applicationId, invoiceId, testMode);
+  assertStatus(current, ['draft'], 'add line items to');
+
+  let lineItem: InvoiceLineItem;
+
+  if (input.unit_amount_cents !== undefined) {
+    if (!Number.isInteger(input.unit_amount_cents) || input.unit_amount_cents < 0) {
+      throw new ValidationError('unit_amount_cents must be a non-negative integer');
+    }
+    if (!input.description) {
+      throw new ValidationError('description is required for custom line items');
+    }
+
+    lineItem = {
+      id: uuidv4(),
+      type: 'invoiceitem',
+      description: input.description,
+      quantity,
+      unit_amount_cents: input.unit_amount_cents,
+      amount_cents: input.unit_amount_cents * quantity,
+      currency: current.currency,
+      plan_id: null,
+      period_start: input.period_start || null,
+      period_end: input.period_end || null,
+      metadata: input.metadata || {},
+    };
+  } else {
+    let planId = input.plan_id;
+    if (!planId) {
+      const subscription = await subscriptionService.getById(applicationId, current.subscription_id, testMode);
+      planId = subscription.plan_id;
+    }
+    const plan = await planService.getById(applicationId, planId, testMode, true);
+
+    const planLineItem = buildPlanLineItem(
+      plan,
+      current.currency,
+      quantity,
+      new Date(input.period_start || current.period_start),
+      new Date(input.period_end || current.period_end)
+    );
+    if (!planLineItem) {
+      throw new ValidationError(`Plan has no licensed price in currency: ${current.currency}`);
+    }
+
+    lineItem = planLineItem;
+    if (input.description) lineItem.description = input.description;
+    if (input.metadata) lineItem.metadata = input.metadata;
+  }
+
+  const invoice = await db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['draft'], 'add line items to');
+    return saveLineItems(client, invoiceId, [...locked.line_items, lineItem]);
+  });
+
+  logger.info('Invoice line item added', { invoiceId, lineItemId: lineItem.id, applicationId });
+  return invoice;
+}
+
+/**
+ * Remove a line item from a draft invoice
+ */
+export async function removeLineItem(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean,
+  lineItemId: string
+): Promise<Invoice> {
+  const invoice = await db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['draft'], 'remove line items from');
+
+    const remaining = locked.line_items.filter((item) => item.id !== lineItemId);
+    if (remaining.length === locked.line_items.length) {
+      throw new NotFoundError('Line item not found');
+    }
+
+    return saveLineItems(client, invoiceId, remaining);
+  });
+
+  logger.info('Invoice line item removed', { invoiceId, lineItemId, applicationId });
+  return invoice;
+}
+
+/**
+ * Finalize a draft invoice (draft → open)
+ */
+export async function finalize(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  return db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['draft'], 'finalize');
+
+    if (locked.line_items.length === 0) {
+      throw new ValidationError('Cannot finalize an invoice without line items');
+    }
+
+    return finalizeDraft(client, locked);
+  });
+}
+
+/**
+ * Apply a collected amount to an open/uncollectible invoice inside the
+ * caller's transaction. A partial amount leaves the invoice open with a
+ * reduced amount due; covering the balance marks it paid.
+ */
+export async function applyPayment(
+  client: PoolClient,
+  invoiceId: string,
+  amountCents: number
+): Promise<Invoice | null> {
+  const result = await client.query(
+    `UPDATE invoices
+     SET amount_paid_cents = LEAST(total_cents, amount_paid_cents + $1),
+         amount_due_cents = GREATEST(0, amount_due_cents - $1),
+         status = CASE WHEN amount_due_cents <= $1 THEN 'paid' ELSE status END,
+         paid_at = CASE WHEN amount_due_cents <= $1 THEN NOW() ELSE paid_at END,
+         updated_at = NOW()
+     WHERE id = $2 AND status IN ('open', 'uncollectible')
+     RETURNING *`,
+    [amountCents, invoiceId]
+  );
+
+  if (result.rows.length === 0) {
+    logger.warn('Payment received for an invoice that is no longer payable', { invoiceId, amountCents });
+    return null;
+  }
+
+  const invoice = formatInvoice(result.rows[0]);
+  if (invoice.status === 'paid') {
+    await publishInvoiceEvent(client, 'invoice.paid', invoice);
+  }
+
+  logger.info(invoice.status === 'paid' ? 'Invoice paid' : 'Invoice partially paid', {
+    invoiceId,
+    applicationId: invoice.application_id,
+    amountCents,
+    amountDueCents: invoice.amount_due_cents,
+  });
+  return invoice;
+}
+
+/**
+ * Mark an invoice as paid outside of XBS (open/uncollectible → paid)
+ */
+export async function pay(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  const invoice = await db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['open', 'uncollectible'], 'pay');
+
+    const result = await client.query(
+      `UPDATE invoices
+       SET status = 'paid', amount_paid_cents = total_cents, amount_due_cents = 0,
+           paid_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [invoiceId]
+    );
+
+    const paid = formatInvoice(result.rows[0]);
+    await publishInvoiceEvent(client, 'invoice.paid', paid, { status: locked.status });
+    return paid;
+  });
+
+  logger.info('Invoice marked paid', { invoiceId, applicationId });
+  return invoice;
+}
+
+/**
+ * Void an invoice (open/uncollectible → void)
+ */
+export async function voidInvoice(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  const invoice = await db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['open', 'uncollectible'], 'void');
+    return voidLocked(client, locked);
+  });
+
+  logger.info('Invoice voided', { invoiceId, applicationId });
+  return invoice;
+}
+
+/**
+ * Mark an invoice as uncollectible (open → uncollectible)
+ */
+export async function markUncollectible(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  const invoice = await db.transaction(async (client) => {
+    const locked = await lockInvoice(client, applicationId, invoiceId, testMode);
+    assertStatus(locked, ['open'], 'mark uncollectible');
+    return markLockedUncollectible(client, locked);
+  });
+
+  logger.info('Invoice marked uncollectible', { invoiceId, applicationId });
+  return invoice;
+}
+
+/**
+ * Get invoice by ID
+ */
+export async function getById(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<Invoice> {
+  const result = await db.query(
+    `SELECT * FROM invoices
+     WHERE id = $1 AND application_id = $2 AND test_mode = $3`,
+    [invoiceId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Invoice not found');
+  }
+
+  return formatInvoice(result.rows[0]);
+}
+
+/**
+ * List invoices with cursor pagination
+ */
+export async function list(params: ListInvoicesParams): Promise<ListInvoicesResult> {
+  const {
+    application_id,
+    test_mode,
+    limit = 10,
+    starting_after,
+    customer_id,
+    subscription_id,
+    status,
+  } = params;
+
+  if (status && !VALID_STATUSES.includes(status)) {
+    throw new ValidationError(`Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`);
+  }
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1', 'test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (customer_id) {
+    conditions.push(`customer_id = $${paramIndex}`);
+    values.push(customer_id);
+    paramIndex++;
+  }
+
+  if (subscription_id) {
+    conditions.push(`subscription_id = $${paramIndex}`);
+    values.push(subscription_id);
+    paramIndex++;
+  }
+
+  if (status) {
+    conditions.push(`status = $${paramIndex}`);
+    values.push(status);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(`created_at < (SELECT created_at FROM invoices WHERE id = $${paramIndex})`);
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM invoices
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatInvoice);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  formatInvoiceNumber,
+  allocateInvoiceNumber,
+  createSubscriptionInvoice,
+  createUsageInvoice,
+  createProrationInvoice,
+  buildProrationLineItems,
+  buildDiscountLineItem,
+  addPendingItems,
+  createDraft,
+  addLineItem,
+  removeLineItem,
+  finalize,
+  applyPayment,
+  pay,
+  void: voidInvoice,
+  markUncollectible,
+  getById,
+  list,
+};
@@ -0,0 +1,37 @@
+import { db } from '../config/database';
+import { ValidationError } from '../utils/errors';
+import { create } from './paymentProviderService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('create', () => {
+  it('rejects credential fields the provider does not use', async () => {
+    await expect(
+      create(APPLICATION_ID, {
+        provider: 'stripe',
+        credentials: { secret_key: 'sk_live_0000', base_url: 'http://169.254.169.254' },
+      })
+    ).rejects.toThrow(new ValidationError('Unknown credential: base_url. stripe accepts: secret_key, webhook_secret'));
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty credential values', async () => {
+    await expect(
+      create(APPLICATION_ID, { provider: 'paystack', credentials: { secret_key: '' } })
+    ).rejects.toThrow(new ValidationError('credentials.secret_key must be a non-empty string'));
+  });
+
+  it('rejects unsupported providers', async () => {
+    await expect(
+      create(APPLICATION_ID, { provider: 'fake' as any, credentials: { secret_key: 'x' } })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
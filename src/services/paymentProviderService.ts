@@ -0,0 +1,356 @@
+/**
+ * Payment Provider Service
+ * Manages per-application provider credentials, encrypted at rest with pgcrypto.
+ * Credentials are write-only: responses carry a fingerprint and masked hint.
+ */
+
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import logger from '../config/logger';
+import { createProvider } from '../providers';
+
+// Types
+export type ConfigurableProvider = 'xoropay' | 'stripe' | 'paystack' | 'flutterwave';
+
+export interface PaymentProviderConfig {
+  id: string;
+  object: 'payment_provider';
+  application_id: string;
+  provider: ConfigurableProvider;
+  is_default: boolean;
+  active: boolean;
+  credentials_fingerprint: string | null;
+  credentials_hint: string | null;
+  rotated_at: Date | null;
+  last_tested_at: Date | null;
+  last_test_ok: boolean | null;
+  last_test_message: string | null;
+  deactivated_at: Date | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePaymentProviderInput {
+  provider: ConfigurableProvider;
+  credentials: Record<string, string>;
+  is_default?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface TestPaymentProviderResult {
+  object: 'payment_provider_test';
+  provider: ConfigurableProvider;
+  ok: boolean;
+  message: string | null;
+  tested_at: Date;
+}
+
+// Validation constants
+const VALID_PROVIDERS: ConfigurableProvider[] = ['xoropay', 'stripe', 'paystack', 'flutterwave'];
+const MAX_CREDENTIAL_LENGTH = 1000;
+// API hosts are fixed per adapter, so credentials cannot redirect requests elsewhere
+const CREDENTIAL_FIELDS: Record<ConfigurableProvider, string[]> = {
+  xoropay: ['secret_key', 'webhook_secret'],
+  stripe: ['secret_key', 'webhook_secret'],
+  paystack: ['secret_key'],
+  flutterwave: ['secret_key', 'webhook_hash'],
+};
+
+/**
+ * Validate provider name and credential shape (the adapter checks required keys)
+ */
+function validateCredentials(provider: string, credentials: Record<string, string>): void {
+  if (!VALID_PROVIDERS.includes(provider as ConfigurableProvider)) {
+    throw new ValidationError(`Invalid provider. Must be one of: ${VALID_PROVIDERS.join(', ')}`);
+  }
+
+  if (!credentials || typeof credentials !== 'object' || Array.isArray(credentials)) {
+    throw new ValidationError('credentials must be an object');
+  }
+
+  const allowedFields = CREDENTIAL_FIELDS[provider as ConfigurableProvider];
+  for (const [key, value] of Object.entries(credentials)) {
+    if (!allowedFields.includes(key)) {
+      throw new ValidationError(
+        `Unknown credential: ${key}. ${provider} accepts: ${allowedFields.join(', ')}`
+      );
+    }
+    if (typeof value !== 'string' || value.length === 0 || value.length > MAX_CREDENTIAL_LENGTH) {
+      throw new ValidationError(`credentials.${key} must be a non-empty string`);
+    }
+  }
+
+  createProvider(provider, credentials);
+}
+
+/**
+ * Fingerprint credentials without revealing them (stable across key order)
+ */
+function fingerprintCredentials(credentials: Record<string, string>): string {
+  const canonical = JSON.stringify(
+    Object.keys(credentials).sort().map((key) => [key, credentials[key]])
+  );
+  return `fp_${crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Mask the secret key, keeping its mode prefix (e.g. sk_live_) and last 4 characters
+ */
+function maskSecret(secret: string | undefined): string | null {
+  if (!secret) return null;
+
+  const prefix = secret.match(/^[A-Za-z]+_(test|live)_/)?.[0] || secret.match(/^[A-Za-z]+_/)?.[0] || '';
+  return `${prefix}…${secret.slice(-4)}`;
+}
+
+/**
+ * Format provider config for API response (never includes credentials)
+ */
+function formatProviderConfig(row: any): PaymentProviderConfig {
+  return {
+    id: row.id,
+    object: 'payment_provider',
+    application_id: row.application_id,
+    provider: row.provider_name,
+    is_default: row.is_default,
+    active: row.active,
+    credentials_fingerprint: row.credentials_fingerprint,
+    credentials_hint: row.credentials_hint,
+    rotated_at: row.rotated_at,
+    last_tested_at: row.last_tested_at,
+    last_test_ok: row.last_test_ok,
+    last_test_message: row.last_test_message,
+    deactivated_at: row.deactivated_at,
+    metadata: row.metadata || {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Add provider credentials
+ * The application's first active provider becomes its default.
+ */
+export async function create(
+  applicationId: string,
+  input: CreatePaymentProviderInput
+): Promise<PaymentProviderConfig> {
+  validateCredentials(input.provider, input.credentials);
+
+  const existing = await db.query(
+    'SELECT id, active FROM payment_provider_configs WHERE application_id = $1 AND provider_name = $2',
+    [applicationId, input.provider]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(
+      `Provider '${input.provider}' is already configured; rotate its credentials instead`
+    );
+  }
+
+  const activeCount = await db.query(
+    'SELECT COUNT(*)::int AS count FROM payment_provider_configs WHERE application_id = $1 AND active = true',
+    [applicationId]
+  );
+  const isDefault = input.is_default === true || activeCount.rows[0].count === 0;
+
+  const id = uuidv4();
+  const result = await db.query(
+    `INSERT INTO payment_provider_configs (
+      id, application_id, provider_name, credentials_encrypted,
+      credentials_fingerprint, credentials_hint, is_default, metadata
+    ) VALUES ($1, $2, $3, armor(pgp_sym_encrypt($4, $5)), $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      id,
+      applicationId,
+      input.provider,
+      JSON.stringify(input.credentials),
+      env.ENCRYPTION_KEY,
+      fingerprintCredentials(input.credentials),
+      maskSecret(input.credentials.secret_key),
+      isDefault,
+      JSON.stringify(input.metadata || {}),
+    ]
+  );
+
+  logger.info('Payment provider configured', { configId: id, applicationId, provider: input.provider });
+  return formatProviderConfig(result.rows[0]);
+}
+
+/**
+ * Get provider config by ID
+ */
+export async function getById(applicationId: string, configId: string): Promise<PaymentProviderConfig> {
+  const result = await db.query(
+    'SELECT * FROM payment_provider_configs WHERE id = $1 AND application_id = $2',
+    [configId, applicationId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Payment provider not found');
+  }
+
+  return formatProviderConfig(result.rows[0]);
+}
+
+/**
+ * List the application's provider configs
+ */
+export async function list(
+  applicationId: string
+): Promise<{ data: PaymentProviderConfig[]; has_more: boolean }> {
+  const result = await db.query(
+    `SELECT * FROM payment_provider_configs
+     WHERE application_id = $1
+     ORDER BY is_default DESC, created_at ASC`,
+    [applicationId]
+  );
+
+  return { data: result.rows.map(formatProviderConfig), has_more: false };
+}
+
+/**
+ * Replace a provider's credentials
+ * Reactivating is explicit (set-default); rotation keeps the current state.
+ */
+export async function rotate(
+  applicationId: string,
+  configId: string,
+  credentials: Record<string, string>
+): Promise<PaymentProviderConfig> {
+  const existing = await getById(applicationId, configId);
+  validateCredentials(existing.provider, credentials);
+
+  const fingerprint = fingerprintCredentials(credentials);
+  if (fingerprint === existing.credentials_fingerprint) {
+    throw new ValidationError('New credentials are identical to the current ones');
+  }
+
+  const result = await db.query(
+    `UPDATE payment_provider_configs
+     SET credentials_encrypted = armor(pgp_sym_encrypt($1, $2)),
+         credentials_fingerprint = $3, credentials_hint = $4, rotated_at = NOW(),
+         last_tested_at = NULL, last_test_ok = NULL, last_test_message = NULL,
+         updated_at = NOW()
+     WHERE id = $5 AND application_id = $6
+     RETURNING *`,
+    [
+      JSON.stringify(credentials),
+      env.ENCRYPTION_KEY,
+      fingerprint,
+      maskSecret(credentials.secret_key),
+      configId,
+      applicationId,
+    ]
+  );
+
+  logger.info('Payment provider credentials rotated', {
+    configId,
+    applicationId,
+    provider: existing.provider,
+    previousFingerprint: existing.credentials_fingerprint,
+    fingerprint,
+  });
+  return formatProviderConfig(result.rows[0]);
+}
+
+/**
+ * Check the stored credentials against the provider and record the outcome
+ */
+export async function test(applicationId: string, configId: string): Promise<TestPaymentProviderResult> {
+  const result = await db.query(
+    `SELECT provider_name,
+       pgp_sym_decrypt(dearmor(credentials_encrypted), $3)::jsonb AS credentials
+     FROM payment_provider_configs
+     WHERE id = $1 AND application_id = $2`,
+    [configId, applicationId, env.ENCRYPTION_KEY]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Payment provider not found');
+  }
+
+  const row = result.rows[0];
+  let outcome: { ok: boolean; message: string | null };
+  try {
+    outcome = await createProvider(row.provider_name, row.credentials).testConnection();
+  } catch (error) {
+    outcome = { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const updated = await db.query(
+    `UPDATE payment_provider_configs
+     SET last_tested_at = NOW(), last_test_ok = $1, last_test_message = $2
+     WHERE id = $3
+     RETURNING last_tested_at`,
+    [outcome.ok, outcome.message, configId]
+  );
+
+  logger.info('Payment provider tested', { configId, applicationId, ok: outcome.ok });
+  return {
+    object: 'payment_provider_test',
+    provider: row.provider_name,
+    ok: outcome.ok,
+    message: outcome.message,
+    tested_at: updated.rows[0].last_tested_at,
+  };
+}
+
+/**
+ * Make a provider the application's default (reactivating it if needed)
+ */
+export async function setDefault(applicationId: string, configId: string): Promise<PaymentProviderConfig> {
+  await getById(applicationId, configId);
+
+  // ensure_default_payment_provider clears the previous default
+  const result = await db.query(
+    `UPDATE payment_provider_configs
+     SET is_default = true, active = true, deactivated_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND application_id = $2
+     RETURNING *`,
+    [configId, applicationId]
+  );
+
+  logger.info('Default payment provider changed', { configId, applicationId });
+  return formatProviderConfig(result.rows[0]);
+}
+
+/**
+ * Deactivate a provider; it stops being used for charges and cannot be default
+ */
+export async function deactivate(applicationId: string, configId: string): Promise<PaymentProviderConfig> {
+  const existing = await getById(applicationId, configId);
+
+  if (!existing.active) {
+    return existing;
+  }
+
+  const result = await db.query(
+    `UPDATE payment_provider_configs
+     SET active = false, is_default = false, deactivated_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND application_id = $2
+     RETURNING *`,
+    [configId, applicationId]
+  );
+
+  if (existing.is_default) {
+    logger.warn('Default payment provider deactivated', { configId, applicationId });
+  } else {
+    logger.info('Payment provider deactivated', { configId, applicationId });
+  }
+  return formatProviderConfig(result.rows[0]);
+}
+
+export default {
+  create,
+  getById,
+  list,
+  rotate,
+  test,
+  setDefault,
+  deactivate,
+};
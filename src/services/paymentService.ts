@@ -0,0 +1,411 @@
+/**
+ * Payment Service
+ * Collects open invoices by charging the customer's payment method through
+ * the application's provider. Every attempt is recorded in payment_transactions
+ * before the provider is called, and the provider call itself happens outside
+ * any database transaction.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import providers, { ChargeResult, TEST_MODE_PROVIDER } from '../providers';
+import invoiceService, { formatInvoice, Invoice, lockInvoice } from './invoiceService';
+import eventService from './eventService';
+
+// Types
+export type PaymentTransactionStatus =
+  | 'pending'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'refunded'
+  | 'partially_refunded';
+
+export interface PaymentTransaction {
+  id: string;
+  object: 'payment_transaction';
+  invoice_id: string;
+  payment_method_id: string | null;
+  amount_cents: number;
+  currency: string;
+  status: PaymentTransactionStatus;
+  provider: string;
+  provider_transaction_id: string | null;
+  failure_code: string | null;
+  failure_message: string | null;
+  attempted_at: Date | null;
+  succeeded_at: Date | null;
+  failed_at: Date | null;
+  idempotency_key: string | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CollectInvoiceInput {
+  payment_method_id?: string;
+}
+
+export interface CollectInvoiceResult {
+  invoice: Invoice;
+  payment: PaymentTransaction;
+}
+
+interface StartedAttempt {
+  invoice: Invoice;
+  transaction: PaymentTransaction;
+  paymentMethod: any;
+  customer: any;
+}
+
+// An attempt still 'processing' after this long was abandoned mid-charge
+// (e.g. the process died); provider webhooks reconcile it by reference
+const STALE_ATTEMPT_MINUTES = 10;
+
+/**
+ * Format payment transaction for API response (raw provider response omitted)
+ */
+export function formatPaymentTransaction(row: any): PaymentTransaction {
+  return {
+    id: row.id,
+    object: 'payment_transaction',
+    invoice_id: row.invoice_id,
+    payment_method_id: row.payment_method_id,
+    amount_cents: row.amount_cents,
+    currency: row.currency,
+    status: row.status,
+    provider: row.provider,
+    provider_transaction_id: row.provider_transaction_id,
+    failure_code: row.failure_code,
+    failure_message: row.failure_message,
+    attempted_at: row.attempted_at,
+    succeeded_at: row.succeeded_at,
+    failed_at: row.failed_at,
+    idempotency_key: row.idempotency_key,
+    metadata: row.metadata || {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Reference sent to the provider; stable per attempt so a retried request
+ * can never charge twice
+ */
+function attemptReference(invoiceId: string, attempt: number): string {
+  return `inv_${invoiceId}_${attempt}`;
+}
+
+/**
+ * Fail in-flight attempts that were abandoned, then refuse if one is still live
+ */
+async function assertNoAttemptInFlight(client: PoolClient, invoiceId: string): Promise<void> {
+  await client.query(
+    `UPDATE payment_transactions
+     SET status = 'failed', failure_code = 'attempt_abandoned',
+         failure_message = 'Attempt did not complete', failed_at = NOW()
+     WHERE invoice_id = $1 AND status = 'processing'
+       AND attempted_at < NOW() - INTERVAL '${STALE_ATTEMPT_MINUTES} minutes'`,
+    [invoiceId]
+  );
+
+  const inFlight = await client.query(
+    `SELECT id FROM payment_transactions
+     WHERE invoice_id = $1 AND status IN ('pending', 'processing')`,
+    [invoiceId]
+  );
+
+  if (inFlight.rows.length > 0) {
+    throw new ConflictError(
+      'A payment attempt for this invoice is already in progress',
+      'PAYMENT_IN_PROGRESS'
+    );
+  }
+}
+
+/**
+ * Resolve the payment method to charge: the given one, or the customer's default
+ */
+async function loadPaymentMethod(
+  client: PoolClient,
+  customerId: string,
+  paymentMethodId?: string
+): Promise<any> {
+  const result = paymentMethodId
+    ? await client.query(
+      'SELECT * FROM payment_methods WHERE id = $1 AND customer_id = $2',
+      [paymentMethodId, customerId]
+    )
+    : await client.query(
+      `SELECT * FROM payment_methods
+       WHERE customer_id = $1 AND is_default = true
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [customerId]
+    );
+
+  if (result.rows.length === 0) {
+    if (paymentMethodId) {
+      throw new NotFoundError('Payment method not found');
+    }
+    throw new ValidationError('Customer has no default payment method', 'NO_PAYMENT_METHOD');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Lock the invoice, bump its attempt count and record a 'processing' attempt
+ */
+async function startAttempt(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean,
+  input: CollectInvoiceInput
+): Promise<StartedAttempt> {
+  return db.transaction(async (client) => {
+    const invoice = await lockInvoice(client, applicationId, invoiceId, testMode);
+
+    if (!['open', 'uncollectible'].includes(invoice.status)) {
+      throw new ValidationError(`Cannot collect an invoice with status '${invoice.status}'`);
+    }
+    if (invoice.amount_due_cents <= 0) {
+      throw new ValidationError('Invoice has no amount due');
+    }
+
+    await assertNoAttemptInFlight(client, invoiceId);
+
+    const paymentMethod = await loadPaymentMethod(client, invoice.customer_id, input.payment_method_id);
+    const customerResult = await client.query(
+      'SELECT id, email, name FROM customers WHERE id = $1',
+      [invoice.customer_id]
+    );
+
+    const attempt = invoice.attempt_count + 1;
+    const updated = await client.query(
+      `UPDATE invoices
+       SET attempt_count = $1, last_payment_attempt_at = NOW(), updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [attempt, invoiceId]
+    );
+
+    const transaction = await client.query(
+      `INSERT INTO payment_transactions (
+        invoice_id, payment_method_id, amount_cents, currency, status,
+        provider, attempted_at, idempotency_key, metadata
+      ) VALUES ($1, $2, $3, $4, 'processing', $5, NOW(), $6, $7)
+      RETURNING *`,
+      [
+        invoiceId,
+        paymentMethod.id,
+        invoice.amount_due_cents,
+        invoice.currency,
+        invoice.test_mode ? TEST_MODE_PROVIDER : paymentMethod.provider,
+        attemptReference(invoiceId, attempt),
+        JSON.stringify({ attempt }),
+      ]
+    );
+
+    return {
+      invoice: formatInvoice(updated.rows[0]),
+      transaction: formatPaymentTransaction(transaction.rows[0]),
+      paymentMethod,
+      customer: customerResult.rows[0],
+    };
+  });
+}
+
+/**
+ * Charge through the payment method's provider, or the test-mode provider for
+ * a test-mode invoice. Provider and configuration errors become a failed
+ * result so the attempt is always closed out.
+ */
+async function charge(applicationId: string, started: StartedAttempt): Promise<ChargeResult> {
+  const { invoice, transaction, paymentMethod, customer } = started;
+
+  try {
+    const provider = await providers.getProviderForMode(
+      applicationId,
+      paymentMethod.provider,
+      invoice.test_mode
+    );
+    return await provider.charge({
+      amount_cents: transaction.amount_cents,
+      currency: transaction.currency,
+      customer: { id: customer.id, email: customer.email, name: customer.name || undefined },
+      payment_method: {
+        provider_payment_method_id: paymentMethod.provider_payment_method_id,
+        type: paymentMethod.type,
+        metadata: paymentMethod.metadata || {},
+      },
+      reference: transaction.idempotency_key!,
+      description: invoice.invoice_number ? `Invoice ${invoice.invoice_number}` : undefined,
+      metadata: { xbs_invoice_id: invoice.id, xbs_transaction_id: transaction.id },
+    });
+  } catch (error) {
+    const appError = error as { code?: string; message?: string };
+    return {
+      status: 'failed',
+      provider_transaction_id: null,
+      amount_cents: transaction.amount_cents,
+      currency: transaction.currency,
+      failure_code: (appError.code || 'provider_error').toLowerCase(),
+      failure_message: appError.message || 'Payment provider error',
+      raw: null,
+    };
+  }
+}
+
+/**
+ * Write a charge outcome onto an attempt inside the caller's transaction,
+ * applying any collected amount to the invoice and publishing the result.
+ * Shared by collection and provider webhooks (which settle pending attempts);
+ * an attempt not in `fromStatuses` is left untouched.
+ */
+export async function settleTransaction(
+  client: PoolClient,
+  transactionId: string,
+  result: ChargeResult,
+  fromStatuses: PaymentTransactionStatus[] = ['pending', 'processing']
+): Promise<CollectInvoiceResult> {
+  const transaction = await client.query(
+    `UPDATE payment_transactions
+     SET status = $1::payment_status,
+         provider_transaction_id = COALESCE($2, provider_transaction_id),
+         provider_response = $3, failure_code = $4, failure_message = $5,
+         amount_cents = COALESCE($6, amount_cents),
+         succeeded_at = CASE WHEN $1::payment_status = 'succeeded' THEN NOW() END,
+         failed_at = CASE WHEN $1::payment_status = 'failed' THEN NOW() END
+     WHERE id = $7 AND status = ANY($8::payment_status[])
+     RETURNING *`,
+    [
+      result.status,
+      result.provider_transaction_id,
+      result.raw === null ? null : JSON.stringify(result.raw),
+      result.failure_code,
+      result.failure_message,
+      result.status === 'succeeded' ? result.amount_cents : null,
+      transactionId,
+      fromStatuses,
+    ]
+  );
+
+  // Already settled elsewhere (e.g. a provider webhook beat the charge response)
+  if (transaction.rows.length === 0) {
+    const current = await client.query('SELECT * FROM payment_transactions WHERE id = $1', [transactionId]);
+    const payment = formatPaymentTransaction(current.rows[0]);
+    const invoiceResult = await client.query('SELECT * FROM invoices WHERE id = $1', [payment.invoice_id]);
+    return { invoice: formatInvoice(invoiceResult.rows[0]), payment };
+  }
+
+  const payment = formatPaymentTransaction(transaction.rows[0]);
+  const invoiceResult = await client.query('SELECT * FROM invoices WHERE id = $1', [payment.invoice_id]);
+  let invoice = formatInvoice(invoiceResult.rows[0]);
+
+  if (result.status === 'succeeded') {
+    invoice = (await invoiceService.applyPayment(client, invoice.id, result.amount_cents)) || invoice;
+  }
+
+  if (result.status !== 'pending') {
+    await eventService.publish(client, {
+      application_id: invoice.application_id,
+      test_mode: invoice.test_mode,
+      type: result.status === 'succeeded' ? 'payment_transaction.succeeded' : 'payment_transaction.failed',
+      object: payment,
+    });
+  }
+
+  return { invoice, payment };
+}
+
+/**
+ * Close out an attempt with the provider's result
+ */
+async function recordResult(
+  started: StartedAttempt,
+  result: ChargeResult
+): Promise<CollectInvoiceResult> {
+  return db.transaction((client) => settleTransaction(client, started.transaction.id, result));
+}
+
+/**
+ * Attempt to collect an invoice's amount due.
+ * A decline is a normal outcome: the failed attempt is returned, not thrown.
+ */
+export async function collectInvoice(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean,
+  input: CollectInvoiceInput = {}
+): Promise<CollectInvoiceResult> {
+  const started = await startAttempt(applicationId, invoiceId, testMode, input);
+  const result = await charge(applicationId, started);
+  const collected = await recordResult(started, result);
+
+  const logContext = {
+    invoiceId,
+    applicationId,
+    transactionId: collected.payment.id,
+    provider: collected.payment.provider,
+    attempt: collected.invoice.attempt_count,
+  };
+  if (result.status === 'failed') {
+    logger.warn('Invoice payment failed', { ...logContext, failureCode: result.failure_code });
+  } else {
+    logger.info('Invoice payment attempted', { ...logContext, status: result.status });
+  }
+
+  return collected;
+}
+
+/**
+ * Automatic collection after finalization; never throws, so a missing payment
+ * method or provider outage does not undo the finalize/renewal that preceded it
+ */
+export async function attemptCollection(invoice: Invoice): Promise<Invoice> {
+  if (invoice.status !== 'open' || invoice.amount_due_cents <= 0) {
+    return invoice;
+  }
+
+  try {
+    const result = await collectInvoice(invoice.application_id, invoice.id, invoice.test_mode);
+    return result.invoice;
+  } catch (error) {
+    logger.warn('Automatic invoice collection skipped', {
+      invoiceId: invoice.id,
+      applicationId: invoice.application_id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return invoice;
+  }
+}
+
+/**
+ * List payment attempts for an invoice, newest first
+ */
+export async function listForInvoice(
+  applicationId: string,
+  invoiceId: string,
+  testMode: boolean
+): Promise<{ data: PaymentTransaction[]; has_more: boolean }> {
+  await invoiceService.getById(applicationId, invoiceId, testMode);
+
+  const result = await db.query(
+    `SELECT * FROM payment_transactions
+     WHERE invoice_id = $1
+     ORDER BY created_at DESC`,
+    [invoiceId]
+  );
+
+  return { data: result.rows.map(formatPaymentTransaction), has_more: false };
+}
+
+export default {
+  collectInvoice,
+  attemptCollection,
+  settleTransaction,
+  listForInvoice,
+};
@@ -0,0 +1,228 @@
+/**
+ * Plan Change Service
+ * Moves subscriptions between plans, either immediately with prorations for
+ * the rest of the current period or at the end of the period
+ */
+
+import { db } from '../config/database';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import planService, { Plan } from './planService';
+import subscriptionService, {
+  formatSubscription,
+  Subscription,
+  TERMINAL_STATUSES,
+  validateQuantity,
+} from './subscriptionService';
+import invoiceService, { Invoice } from './invoiceService';
+import subscriptionScheduleService from './subscriptionScheduleService';
+import paymentService from './paymentService';
+import eventService from './eventService';
+
+// Types
+export type ProrationBehavior = 'create_prorations' | 'none' | 'always_invoice';
+
+export interface ChangePlanInput {
+  plan_id: string;
+  quantity?: number;
+  proration_behavior?: ProrationBehavior;
+  at_period_end?: boolean;
+}
+
+export interface ChangePlanResult {
+  subscription: Subscription;
+  invoice: Invoice | null;
+}
+
+// Validation constants
+const PRORATION_BEHAVIORS: ProrationBehavior[] = ['create_prorations', 'none', 'always_invoice'];
+
+/**
+ * Validate the target plan: active and priced in the subscription currency
+ */
+async function getTargetPlan(
+  applicationId: string,
+  testMode: boolean,
+  subscription: Subscription,
+  planId: string
+): Promise<Plan> {
+  const plan = await planService.getById(applicationId, planId, testMode);
+
+  if (plan.status !== 'active') {
+    throw new ValidationError('Cannot change to a plan that is not active');
+  }
+  if (!planService.hasPriceInCurrency(plan, subscription.currency)) {
+    throw new ValidationError(`Plan has no price in currency: ${subscription.currency}`);
+  }
+
+  return plan;
+}
+
+/**
+ * Schedule a plan change for the end of the current period. Scheduling the
+ * current plan and quantity clears a previously scheduled change.
+ */
+async function schedulePlanChange(
+  applicationId: string,
+  testMode: boolean,
+  existing: Subscription,
+  plan: Plan,
+  quantity: number
+): Promise<Subscription> {
+  if (existing.cancel_at_period_end) {
+    throw new ValidationError('Subscription is set to cancel at the end of the period');
+  }
+
+  const unchanged = plan.id === existing.plan_id && quantity === existing.quantity;
+
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE subscriptions
+       SET scheduled_plan_id = $1, scheduled_quantity = $2, updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [unchanged ? null : plan.id, unchanged ? null : quantity, existing.id]
+    );
+
+    const updated = formatSubscription(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription.updated',
+      object: updated,
+      previous_attributes: { scheduled_change: existing.scheduled_change },
+    });
+    return updated;
+  });
+}
+
+/**
+ * Change a subscription's plan and/or quantity
+ * Immediate changes prorate the unused part of the current period (credit for
+ * the old plan, charge for the new one) unless proration_behavior is 'none'.
+ * Prorations go on the next invoice, or on an invoice issued and collected
+ * right away with 'always_invoice'. Trials are not prorated. With at_period_end
+ * the change is applied by the renewal engine when the period ends.
+ */
+export async function changePlan(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: ChangePlanInput
+): Promise<ChangePlanResult> {
+  if (!input.plan_id) {
+    throw new ValidationError('plan_id is required');
+  }
+  validateQuantity(input.quantity);
+
+  const prorationBehavior = input.proration_behavior ?? 'create_prorations';
+  if (!PRORATION_BEHAVIORS.includes(prorationBehavior)) {
+    throw new ValidationError(
+      `Invalid proration_behavior. Must be one of: ${PRORATION_BEHAVIORS.join(', ')}`
+    );
+  }
+
+  const existing = await subscriptionService.getById(applicationId, subscriptionId, testMode);
+  if (TERMINAL_STATUSES.includes(existing.status)) {
+    throw new ValidationError(`Cannot change the plan of a subscription with status '${existing.status}'`);
+  }
+
+  if (await subscriptionScheduleService.hasActiveSchedule(existing.id)) {
+    throw new ValidationError('Subscription is managed by a schedule. Release the schedule first');
+  }
+
+  const plan = await getTargetPlan(applicationId, testMode, existing, input.plan_id);
+  const quantity = input.quantity ?? existing.quantity;
+
+  if (input.at_period_end) {
+    const scheduled = await schedulePlanChange(applicationId, testMode, existing, plan, quantity);
+    logger.info('Subscription plan change scheduled', {
+      subscriptionId,
+      applicationId,
+      planId: scheduled.scheduled_change?.plan_id ?? null,
+    });
+    return { subscription: scheduled, invoice: null };
+  }
+
+  if (plan.id === existing.plan_id && quantity === existing.quantity) {
+    throw new ValidationError('Subscription is already on this plan and quantity');
+  }
+
+  const currentPlan = await planService.getById(applicationId, existing.plan_id, testMode, true);
+
+  const result = await db.transaction(async (client) => {
+    // Lock so a concurrent renewal cannot move the period under the proration
+    const locked = await client.query('SELECT * FROM subscriptions WHERE id = $1 FOR UPDATE', [
+      subscriptionId,
+    ]);
+    if (locked.rows.length === 0) {
+      throw new NotFoundError('Subscription not found');
+    }
+    const current = formatSubscription(locked.rows[0]);
+    if (current.plan_id !== currentPlan.id) {
+      throw new ValidationError('Subscription plan changed concurrently. Please retry');
+    }
+
+    const prorations =
+      prorationBehavior !== 'none' && current.status !== 'trialing'
+        ? invoiceService.buildProrationLineItems({
+            subscription: current,
+            from_plan: currentPlan,
+            from_quantity: current.quantity,
+            to_plan: plan,
+            to_quantity: quantity,
+            proration_date: new Date(),
+          })
+        : [];
+
+    const updatedResult = await client.query(
+      `UPDATE subscriptions
+       SET plan_id = $1, quantity = $2, scheduled_plan_id = NULL, scheduled_quantity = NULL,
+           updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [plan.id, quantity, subscriptionId]
+    );
+
+    const updated = formatSubscription(updatedResult.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription.updated',
+      object: updated,
+      previous_attributes: eventService.previousAttributes(current, [
+        'plan_id',
+        'quantity',
+        'scheduled_change',
+      ]),
+    });
+
+    await invoiceService.addPendingItems(client, updated, prorations);
+
+    const invoice = prorationBehavior === 'always_invoice'
+      ? await invoiceService.createProrationInvoice(client, {
+          application_id: applicationId,
+          subscription: updated,
+        })
+      : null;
+
+    return { subscription: updated, invoice, prorations: prorations.length };
+  });
+
+  logger.info('Subscription plan changed', {
+    subscriptionId,
+    applicationId,
+    fromPlanId: currentPlan.id,
+    toPlanId: plan.id,
+    prorationBehavior,
+    prorations: result.prorations,
+  });
+
+  // Collect outside the transaction so the provider call holds no locks
+  const invoice = result.invoice ? await paymentService.attemptCollection(result.invoice) : null;
+  return { subscription: result.subscription, invoice };
+}
+
+export default {
+  changePlan,
+};
@@ -7,6 +7,7 @@ import { db } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
 import logger from '../config/logger';
+import eventService, { EventType } from './eventService';
 
 // Types
 export type BillingInterval = 'day' | 'week' | 'month' | 'year';
@@ -27,6 +28,7 @@ export interface PlanPrice {
   pricing_model: PricingModel;
   tiers?: PriceTier[];
   tier_mode?: TierMode;
+  metric_name?: string; // Metered price: billed from this usage metric at period close
 }
 
 export interface Plan {
@@ -61,6 +63,7 @@ export interface CreatePlanInput {
     pricing_model?: PricingModel;
     tiers?: PriceTier[];
     tier_mode?: TierMode;
+    metric_name?: string;
   }[];
   trial_period_days?: number;
   features?: Record<string, any>;
@@ -138,6 +141,22 @@ function validatePlanInput(input: CreatePlanInput): void {
       }
       validateTiers(price.tiers);
     }
+
+    if (price.metric_name !== undefined) {
+      if (typeof price.metric_name !== 'string' || price.metric_name.length === 0) {
+        throw new ValidationError('metric_name must be a non-empty string');
+      }
+      if (!price.pricing_model || price.pricing_model === 'flat') {
+        throw new ValidationError('Metered prices must use per_unit, tiered or volume pricing');
+      }
+    }
+  }
+
+  const meteredKeys = input.prices
+    .filter((p) => p.metric_name)
+    .map((p) => `${p.currency.toUpperCase()}:${p.metric_name}`);
+  if (new Set(meteredKeys).size !== meteredKeys.length) {
+    throw new ValidationError('Only one metered price per metric and currency is allowed');
   }
 
   if (input.trial_period_days !== undefined && input.trial_period_days < 0) {
@@ -173,10 +192,32 @@ function validateTiers(tiers: PriceTier[]): void {
   }
 }
 
+/**
+ * Ensure metered prices reference the application's registered usage metrics
+ */
+async function validateMetricNames(
+  applicationId: string,
+  prices: CreatePlanInput['prices']
+): Promise<void> {
+  const metricNames = prices.filter((p) => p.metric_name).map((p) => p.metric_name as string);
+  if (metricNames.length === 0) return;
+
+  const result = await db.query(
+    'SELECT metric_name FROM usage_metrics WHERE application_id = $1 AND metric_name = ANY($2)',
+    [applicationId, metricNames]
+  );
+  const registered = new Set(result.rows.map((row) => row.metric_name));
+
+  const unknown = metricNames.filter((name) => !registered.has(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown usage metric: ${unknown.join(', ')}`);
+  }
+}
+
 /**
  * Format plan for API response
  */
-function formatPlan(row: any): Plan {
+export function formatPlan(row: any): Plan {
   return {
     id: row.id,
     object: 'plan',
@@ -207,6 +248,7 @@ export async function create(
   input: CreatePlanInput
 ): Promise<Plan> {
   validatePlanInput(input);
+  await validateMetricNames(applicationId, input.prices);
 
   // Check for duplicate external_id
   if (input.external_id) {
@@ -228,36 +270,48 @@ export async function create(
     pricing_model: p.pricing_model || 'flat',
     tiers: p.tiers,
     tier_mode: p.tier_mode,
+    metric_name: p.metric_name,
   }));
 
   const id = uuidv4();
-  const result = await db.query(
-    `INSERT INTO plans (
-      id, application_id, external_id, name, description,
-      billing_interval, billing_interval_count, prices,
-      trial_period_days, features, metadata, status, test_mode,
-      created_at, updated_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
-    RETURNING *`,
-    [
-      id,
-      applicationId,
-      input.external_id || null,
-      input.name.trim(),
-      input.description || null,
-      input.billing_interval,
-      input.billing_interval_count || 1,
-      JSON.stringify(prices),
-      input.trial_period_days || 0,
-      JSON.stringify(input.features || {}),
-      JSON.stringify(input.metadata || {}),
-      input.status || 'active',
-      testMode,
-    ]
-  );
+  const plan = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO plans (
+        id, application_id, external_id, name, description,
+        billing_interval, billing_interval_count, prices,
+        trial_period_days, features, metadata, status, test_mode,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
+      RETURNING *`,
+      [
+        id,
+        applicationId,
+        input.external_id || null,
+        input.name.trim(),
+        input.description || null,
+        input.billing_interval,
+        input.billing_interval_count || 1,
+        JSON.stringify(prices),
+        input.trial_period_days || 0,
+        JSON.stringify(input.features || {}),
+        JSON.stringify(input.metadata || {}),
+        input.status || 'active',
+        testMode,
+      ]
+    );
+
+    const created = formatPlan(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'plan.created',
+      object: created,
+    });
+    return created;
+  });
 
   logger.info('Plan created', { planId: id, applicationId, testMode });
-  return formatPlan(result.rows[0]);
+  return plan;
 }
 
 /**
@@ -376,15 +430,38 @@ export async function update(
 
   values.push(planId, applicationId, testMode);
 
-  const result = await db.query(
-    `UPDATE plans SET ${updates.join(', ')}
-     WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
-     RETURNING *`,
-    values
-  );
+  // Status transitions in and out of archived get their own event types
+  let eventType: EventType = 'plan.updated';
+  if (input.status === 'archived' && existing.status !== 'archived') {
+    eventType = 'plan.archived';
+  } else if (input.status && input.status !== 'archived' && existing.status === 'archived') {
+    eventType = 'plan.unarchived';
+  }
+
+  const plan = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE plans SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
+       RETURNING *`,
+      values
+    );
+
+    const updated = formatPlan(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: eventType,
+      object: updated,
+      previous_attributes: eventService.previousAttributes(
+        existing,
+        allowedFields.filter((field) => input[field] !== undefined)
+      ),
+    });
+    return updated;
+  });
 
   logger.info('Plan updated', { planId, applicationId });
-  return formatPlan(result.rows[0]);
+  return plan;
 }
 
 /**
@@ -401,16 +478,28 @@ export async function archive(
     throw new ValidationError('Plan is already archived');
   }
 
-  const result = await db.query(
-    `UPDATE plans
-     SET status = 'archived', archived_at = NOW(), updated_at = NOW()
-     WHERE id = $1 AND application_id = $2 AND test_mode = $3
-     RETURNING *`,
-    [planId, applicationId, testMode]
-  );
+  const plan = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE plans
+       SET status = 'archived', archived_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3
+       RETURNING *`,
+      [planId, applicationId, testMode]
+    );
+
+    const archived = formatPlan(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'plan.archived',
+      object: archived,
+      previous_attributes: { status: existing.status },
+    });
+    return archived;
+  });
 
   logger.info('Plan archived', { planId, applicationId });
-  return formatPlan(result.rows[0]);
+  return plan;
 }
 
 /**
@@ -421,20 +510,32 @@ export async function unarchive(
   planId: string,
   testMode: boolean
 ): Promise<Plan> {
-  const result = await db.query(
-    `UPDATE plans
-     SET status = 'active', archived_at = NULL, updated_at = NOW()
-     WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND status = 'archived'
-     RETURNING *`,
-    [planId, applicationId, testMode]
-  );
+  const plan = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE plans
+       SET status = 'active', archived_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND status = 'archived'
+       RETURNING *`,
+      [planId, applicationId, testMode]
+    );
 
-  if (result.rows.length === 0) {
-    throw new NotFoundError('Archived plan not found');
-  }
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Archived plan not found');
+    }
+
+    const unarchived = formatPlan(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'plan.unarchived',
+      object: unarchived,
+      previous_attributes: { status: 'archived' },
+    });
+    return unarchived;
+  });
 
   logger.info('Plan unarchived', { planId, applicationId });
-  return formatPlan(result.rows[0]);
+  return plan;
 }
 
 /**
@@ -486,10 +587,24 @@ export async function list(params: ListPlansParams): Promise<ListPlansResult> {
 }
 
 /**
- * Get price for a specific currency
+ * Get the licensed (non-metered) price for a specific currency
  */
 export function getPriceForCurrency(plan: Plan, currency: string): PlanPrice | null {
-  return plan.prices.find((p) => p.currency === currency.toUpperCase()) || null;
+  return plan.prices.find((p) => p.currency === currency.toUpperCase() && !p.metric_name) || null;
+}
+
+/**
+ * Whether a plan can bill in a currency: a licensed price, metered prices, or both
+ */
+export function hasPriceInCurrency(plan: Plan, currency: string): boolean {
+  return plan.prices.some((p) => p.currency === currency.toUpperCase());
+}
+
+/**
+ * Get the metered prices for a specific currency
+ */
+export function getMeteredPrices(plan: Plan, currency: string): PlanPrice[] {
+  return plan.prices.filter((p) => p.currency === currency.toUpperCase() && !!p.metric_name);
 }
 
 /**
@@ -564,6 +679,7 @@ export async function clone(
       pricing_model: p.pricing_model,
       tiers: p.tiers,
       tier_mode: p.tier_mode,
+      metric_name: p.metric_name,
     })),
     trial_period_days: overrides.trial_period_days ?? existing.trial_period_days,
     features: overrides.features || existing.features,
@@ -583,6 +699,8 @@ export default {
   unarchive,
   list,
   getPriceForCurrency,
+  hasPriceInCurrency,
+  getMeteredPrices,
   calculatePrice,
   clone,
 };
@@ -0,0 +1,403 @@
+/**
+ * Promotion Code Service
+ * Customer-facing codes that redeem a coupon, optionally limited to one
+ * customer, a number of redemptions, or an expiry date
+ */
+
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import couponService, { Coupon, formatCoupon } from './couponService';
+import customerService from './customerService';
+import eventService from './eventService';
+
+// Types
+export interface PromotionCode {
+  id: string;
+  object: 'promotion_code';
+  code: string;
+  coupon_id: string;
+  customer_id: string | null;
+  active: boolean;
+  max_redemptions: number | null;
+  times_redeemed: number;
+  expires_at: Date | null;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePromotionCodeInput {
+  coupon_id: string;
+  code?: string;
+  customer_id?: string;
+  max_redemptions?: number;
+  expires_at?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdatePromotionCodeInput {
+  active?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface ListPromotionCodesParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  coupon_id?: string;
+  code?: string;
+  active?: boolean;
+}
+
+export interface ListPromotionCodesResult {
+  data: PromotionCode[];
+  has_more: boolean;
+}
+
+export interface RedeemablePromotionCode {
+  promotion_code: PromotionCode;
+  coupon: Coupon;
+}
+
+// Validation constants
+const CODE_REGEX = /^[A-Z0-9_-]{3,50}$/;
+const GENERATED_CODE_LENGTH = 8;
+// No 0/O or 1/I, so generated codes survive being read out or typed
+const GENERATED_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Format promotion code for API response
+ */
+function formatPromotionCode(row: any): PromotionCode {
+  return {
+    id: row.id,
+    object: 'promotion_code',
+    code: row.code,
+    coupon_id: row.coupon_id,
+    customer_id: row.customer_id,
+    active: row.active,
+    max_redemptions: row.max_redemptions,
+    times_redeemed: row.times_redeemed,
+    expires_at: row.expires_at,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < GENERATED_CODE_LENGTH; i++) {
+    code += GENERATED_CODE_ALPHABET[crypto.randomInt(GENERATED_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Check that a promotion code and its coupon can be redeemed now, by
+ * `customerId` when the code is restricted to a customer
+ */
+function assertRedeemable(promotionCode: PromotionCode, coupon: Coupon, customerId: string | null): void {
+  if (!promotionCode.active || !coupon.active) {
+    throw new ValidationError('Promotion code is not active');
+  }
+  if (promotionCode.expires_at && new Date(promotionCode.expires_at) <= new Date()) {
+    throw new ValidationError('Promotion code has expired');
+  }
+  if (promotionCode.max_redemptions !== null &&
+      promotionCode.times_redeemed >= promotionCode.max_redemptions) {
+    throw new ValidationError('Promotion code has reached its redemption limit');
+  }
+  if (promotionCode.customer_id && promotionCode.customer_id !== customerId) {
+    throw new ValidationError('Promotion code cannot be redeemed by this customer');
+  }
+}
+
+export async function create(
+  applicationId: string,
+  testMode: boolean,
+  input: CreatePromotionCodeInput
+): Promise<PromotionCode> {
+  if (!input.coupon_id) {
+    throw new ValidationError('coupon_id is required');
+  }
+
+  const code = input.code !== undefined ? String(input.code).toUpperCase() : generateCode();
+  if (!CODE_REGEX.test(code)) {
+    throw new ValidationError('code must be 3-50 letters, digits, dashes or underscores');
+  }
+  if (input.max_redemptions !== undefined &&
+      (!Number.isInteger(input.max_redemptions) || input.max_redemptions < 1)) {
+    throw new ValidationError('max_redemptions must be a positive integer');
+  }
+
+  let expiresAt: Date | null = null;
+  if (input.expires_at !== undefined) {
+    expiresAt = new Date(input.expires_at);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      throw new ValidationError('expires_at must be a valid date in the future');
+    }
+  }
+
+  const coupon = await couponService.getById(applicationId, input.coupon_id, testMode);
+  if (!coupon.active) {
+    throw new ValidationError('Cannot create a promotion code for an inactive coupon');
+  }
+  if (input.customer_id) {
+    await customerService.getById(applicationId, input.customer_id, testMode);
+  }
+
+  const existing = await db.query(
+    `SELECT id FROM promotion_codes
+     WHERE application_id = $1 AND test_mode = $2 AND code = $3`,
+    [applicationId, testMode, code]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(`Promotion code '${code}' already exists`);
+  }
+
+  const id = uuidv4();
+  const promotionCode = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO promotion_codes (
+        id, application_id, coupon_id, code, customer_id,
+        max_redemptions, expires_at, metadata, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        id,
+        applicationId,
+        coupon.id,
+        code,
+        input.customer_id || null,
+        input.max_redemptions ?? null,
+        expiresAt,
+        JSON.stringify(input.metadata || {}),
+        testMode,
+      ]
+    );
+
+    const created = formatPromotionCode(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'promotion_code.created',
+      object: created,
+    });
+    return created;
+  });
+
+  logger.info('Promotion code created', { promotionCodeId: id, couponId: coupon.id, applicationId });
+  return promotionCode;
+}
+
+export async function getById(
+  applicationId: string,
+  promotionCodeId: string,
+  testMode: boolean
+): Promise<PromotionCode> {
+  const result = await db.query(
+    `SELECT * FROM promotion_codes
+     WHERE id = $1 AND application_id = $2 AND test_mode = $3`,
+    [promotionCodeId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Promotion code not found');
+  }
+
+  return formatPromotionCode(result.rows[0]);
+}
+
+/**
+ * Look up a code a customer entered and check it can be redeemed, e.g. to
+ * preview a price. Redeeming happens when the discount is applied.
+ */
+export async function getRedeemable(
+  applicationId: string,
+  testMode: boolean,
+  code: string,
+  customerId: string | null = null
+): Promise<RedeemablePromotionCode> {
+  const result = await db.query(
+    `SELECT pc.*, row_to_json(c.*) AS coupon
+     FROM promotion_codes pc
+     JOIN coupons c ON c.id = pc.coupon_id
+     WHERE pc.application_id = $1 AND pc.test_mode = $2 AND pc.code = $3`,
+    [applicationId, testMode, String(code).toUpperCase()]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Promotion code not found');
+  }
+
+  const promotionCode = formatPromotionCode(result.rows[0]);
+  const coupon = formatCoupon(result.rows[0].coupon);
+  assertRedeemable(promotionCode, coupon, customerId);
+
+  return { promotion_code: promotionCode, coupon };
+}
+
+/**
+ * Lock a code and its coupon and record a redemption, inside the caller's
+ * transaction. Throws if the code cannot be redeemed by `customerId`.
+ */
+export async function redeem(
+  client: PoolClient,
+  applicationId: string,
+  testMode: boolean,
+  code: string,
+  customerId: string
+): Promise<RedeemablePromotionCode> {
+  const result = await client.query(
+    `SELECT * FROM promotion_codes
+     WHERE application_id = $1 AND test_mode = $2 AND code = $3
+     FOR UPDATE`,
+    [applicationId, testMode, String(code).toUpperCase()]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Promotion code not found');
+  }
+
+  const promotionCode = formatPromotionCode(result.rows[0]);
+  const couponResult = await client.query('SELECT * FROM coupons WHERE id = $1', [promotionCode.coupon_id]);
+  const coupon = formatCoupon(couponResult.rows[0]);
+  assertRedeemable(promotionCode, coupon, customerId);
+
+  const updated = await client.query(
+    `UPDATE promotion_codes
+     SET times_redeemed = times_redeemed + 1, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [promotionCode.id]
+  );
+
+  return { promotion_code: formatPromotionCode(updated.rows[0]), coupon };
+}
+
+/**
+ * Activate or deactivate a promotion code, or replace its metadata
+ */
+export async function update(
+  applicationId: string,
+  promotionCodeId: string,
+  testMode: boolean,
+  input: UpdatePromotionCodeInput
+): Promise<PromotionCode> {
+  const existing = await getById(applicationId, promotionCodeId, testMode);
+
+  if (input.active !== undefined && typeof input.active !== 'boolean') {
+    throw new ValidationError('active must be a boolean');
+  }
+
+  const updates: string[] = ['updated_at = NOW()'];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  const fields: (keyof UpdatePromotionCodeInput)[] = ['active', 'metadata'];
+
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      updates.push(`${field} = $${paramIndex}`);
+      values.push(field === 'metadata' ? JSON.stringify(input[field]) : input[field]);
+      paramIndex++;
+    }
+  }
+
+  values.push(promotionCodeId, applicationId, testMode);
+
+  const promotionCode = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE promotion_codes SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
+       RETURNING *`,
+      values
+    );
+
+    const updated = formatPromotionCode(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'promotion_code.updated',
+      object: updated,
+      previous_attributes: eventService.previousAttributes(
+        existing,
+        fields.filter((field) => input[field] !== undefined)
+      ),
+    });
+    return updated;
+  });
+
+  logger.info('Promotion code updated', { promotionCodeId, applicationId });
+  return promotionCode;
+}
+
+/**
+ * List promotion codes with cursor pagination
+ */
+export async function list(params: ListPromotionCodesParams): Promise<ListPromotionCodesResult> {
+  const { application_id, test_mode, limit = 10, starting_after, coupon_id, code, active } = params;
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1', 'test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (coupon_id) {
+    conditions.push(`coupon_id = $${paramIndex}`);
+    values.push(coupon_id);
+    paramIndex++;
+  }
+
+  if (code) {
+    conditions.push(`code = $${paramIndex}`);
+    values.push(code.toUpperCase());
+    paramIndex++;
+  }
+
+  if (active !== undefined) {
+    conditions.push(`active = $${paramIndex}`);
+    values.push(active);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(
+      `(created_at, id) < (SELECT created_at, id FROM promotion_codes WHERE id = $${paramIndex})`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM promotion_codes
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatPromotionCode);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  create,
+  getById,
+  getRedeemable,
+  redeem,
+  update,
+  list,
+};
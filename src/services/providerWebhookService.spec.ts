@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { signFakeWebhook } from '../providers/fake';
+import { AuthenticationError, NotFoundError, ValidationError } from '../utils/errors';
+import { handleWebhook } from './providerWebhookService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+const STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
+
+function stripeEvent(type: string, object: Record<string, any>): Buffer {
+  return Buffer.from(JSON.stringify({ id: `evt_${crypto.randomBytes(4).toString('hex')}`, type, data: { object } }));
+}
+
+function stripeSignature(rawBody: Buffer, secret: string = STRIPE_WEBHOOK_SECRET): string {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody.toString('utf8')}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Run transactions against a client that records every statement and finds
+ * no matching payment
+ */
+function mockTransaction(recorded: boolean = true) {
+  const calls: { sql: string; values: any[] }[] = [];
+  const query = jest.fn(async (sql: string, values: any[] = []) => {
+    calls.push({ sql, values });
+    if (sql.includes('INSERT INTO processed_webhooks')) {
+      return { rows: recorded ? [{ webhook_id: values[0] }] : [] };
+    }
+    return { rows: [] };
+  });
+  (db.transaction as jest.Mock).mockImplementation(async (fn: any) => fn({ query }));
+  return calls;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  (db.query as jest.Mock).mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM applications')) return { rows: [{ id: APPLICATION_ID }] };
+    if (sql.includes('FROM payment_provider_configs')) {
+      return {
+        rows: [{
+          provider_name: 'stripe',
+          credentials: { secret_key: 'sk_live_0000', webhook_secret: STRIPE_WEBHOOK_SECRET },
+        }],
+      };
+    }
+    return { rows: [] };
+  });
+});
+
+describe('handleWebhook', () => {
+  it('refuses fake provider events while the fake provider is disabled', async () => {
+    const rawBody = Buffer.from(JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', data: {} }));
+
+    await expect(
+      handleWebhook('fake', APPLICATION_ID, rawBody, { 'x-fake-signature': signFakeWebhook(rawBody.toString()) })
+    ).rejects.toThrow(new ValidationError('The fake payment provider is disabled'));
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects events with a signature made with another secret', async () => {
+    const rawBody = stripeEvent('payment_intent.succeeded', { object: 'payment_intent', id: 'pi_1' });
+
+    await expect(
+      handleWebhook('stripe', APPLICATION_ID, rawBody, {
+        'stripe-signature': stripeSignature(rawBody, 'whsec_forged'),
+      })
+    ).rejects.toBeInstanceOf(AuthenticationError);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects events without a signature', async () => {
+    const rawBody = stripeEvent('payment_intent.succeeded', { object: 'payment_intent', id: 'pi_1' });
+
+    await expect(handleWebhook('stripe', APPLICATION_ID, rawBody, {})).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('rejects unknown applications before verifying anything', async () => {
+    await expect(
+      handleWebhook('stripe', 'not-a-uuid', Buffer.from('{}'), {})
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('only settles live-mode payments from a real provider', async () => {
+    const calls = mockTransaction();
+    const rawBody = stripeEvent('payment_intent.succeeded', {
+      object: 'payment_intent',
+      id: 'pi_1',
+      amount: 5000,
+      currency: 'ngn',
+      metadata: { xbs_reference: 'inv_1_attempt_1' },
+    });
+
+    const result = await handleWebhook('stripe', APPLICATION_ID, rawBody, {
+      'stripe-signature': stripeSignature(rawBody),
+    });
+
+    expect(result).toEqual({ received: true, duplicate: false, outcome: 'ignored' });
+    const lookup = calls.find((call) => call.sql.includes('FROM payment_transactions'));
+    expect(lookup!.sql).toContain('i.test_mode = ANY($5::boolean[])');
+    expect(lookup!.values[4]).toEqual([false]);
+  });
+
+  it('applies each provider event once', async () => {
+    const calls = mockTransaction(false);
+    const rawBody = stripeEvent('payment_intent.succeeded', { object: 'payment_intent', id: 'pi_1' });
+
+    const result = await handleWebhook('stripe', APPLICATION_ID, rawBody, {
+      'stripe-signature': stripeSignature(rawBody),
+    });
+
+    expect(result).toEqual({ received: true, duplicate: true, outcome: null });
+    expect(calls).toHaveLength(1);
+  });
+});
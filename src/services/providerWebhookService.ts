@@ -0,0 +1,427 @@
+/**
+ * Provider Webhook Service
+ * Applies asynchronous outcomes reported by payment providers: pending charges
+ * (bank transfer, mobile money) settling, refunds completing and disputes
+ * opening or closing. Each provider event is applied at most once per
+ * application, in the same transaction that records it in processed_webhooks,
+ * so a failure leaves the event unrecorded for the provider to retry.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { NotFoundError } from '../utils/errors';
+import logger from '../config/logger';
+import providers, { ChargeResult, ProviderWebhookEvent, WebhookHeaders } from '../providers';
+import paymentService, { formatPaymentTransaction } from './paymentService';
+import eventService from './eventService';
+
+// Types
+export type ProviderWebhookOutcome =
+  | 'payment_succeeded'
+  | 'payment_failed'
+  | 'refund_succeeded'
+  | 'refund_failed'
+  | 'dispute_opened'
+  | 'dispute_closed'
+  | 'ignored';
+
+export interface ProviderWebhookResult {
+  received: true;
+  duplicate: boolean;
+  outcome: ProviderWebhookOutcome | null;
+}
+
+export interface Dispute {
+  id: string;
+  object: 'dispute';
+  invoice_id: string;
+  payment_transaction_id: string | null;
+  customer_id: string;
+  amount_cents: number;
+  reason: string | null;
+  status: string;
+  provider: string | null;
+  provider_dispute_id: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Charges are settled from these states; a late success also overrides a failure
+const CHARGE_SUCCEEDED_FROM = ['pending', 'processing', 'failed'] as const;
+const CHARGE_FAILED_FROM = ['pending', 'processing'] as const;
+
+/**
+ * Format dispute for API/event payloads (raw provider response omitted)
+ */
+function formatDispute(row: any): Dispute {
+  return {
+    id: row.id,
+    object: 'dispute',
+    invoice_id: row.invoice_id,
+    payment_transaction_id: row.payment_transaction_id,
+    customer_id: row.customer_id,
+    amount_cents: row.amount_cents,
+    reason: row.reason,
+    status: row.status,
+    provider: row.provider,
+    provider_dispute_id: row.provider_dispute_id,
+    resolved_at: row.resolved_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Lock the application's payment attempt the event refers to, matched by the
+ * provider's transaction ID or the reference it was charged with, in one of
+ * the modes the provider handles
+ */
+async function findTransaction(
+  client: PoolClient,
+  applicationId: string,
+  modes: boolean[],
+  event: ProviderWebhookEvent
+): Promise<any | null> {
+  if (!event.provider_transaction_id && !event.reference) {
+    return null;
+  }
+
+  const result = await client.query(
+    `SELECT t.*, i.test_mode AS invoice_test_mode, i.customer_id AS invoice_customer_id
+     FROM payment_transactions t
+     JOIN invoices i ON i.id = t.invoice_id
+     WHERE i.application_id = $1 AND t.provider = $2
+       AND (t.provider_transaction_id = $3 OR t.idempotency_key = $4)
+       AND i.test_mode = ANY($5::boolean[])
+     ORDER BY t.created_at DESC
+     LIMIT 1
+     FOR UPDATE OF t`,
+    [applicationId, event.provider, event.provider_transaction_id, event.reference, modes]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Settle a pending (or abandoned) charge attempt
+ */
+async function applyCharge(
+  client: PoolClient,
+  applicationId: string,
+  modes: boolean[],
+  event: ProviderWebhookEvent
+): Promise<ProviderWebhookOutcome> {
+  const transaction = await findTransaction(client, applicationId, modes, event);
+  if (!transaction) {
+    return 'ignored';
+  }
+
+  const succeeded = event.type === 'charge.succeeded';
+  const fromStatuses = succeeded ? CHARGE_SUCCEEDED_FROM : CHARGE_FAILED_FROM;
+  if (!fromStatuses.includes(transaction.status)) {
+    return 'ignored';
+  }
+
+  const result: ChargeResult = {
+    status: succeeded ? 'succeeded' : 'failed',
+    provider_transaction_id: event.provider_transaction_id,
+    amount_cents: event.amount_cents ?? transaction.amount_cents,
+    currency: event.currency || transaction.currency,
+    failure_code: succeeded ? null : event.failure_code || 'charge_failed',
+    failure_message: succeeded ? null : event.failure_message,
+    raw: event.data,
+  };
+
+  await paymentService.settleTransaction(client, transaction.id, result, [...fromStatuses]);
+  return succeeded ? 'payment_succeeded' : 'payment_failed';
+}
+
+/**
+ * Record a refund outcome and roll succeeded refunds up into the payment's
+ * refunded / partially_refunded status. Refunds issued from the provider's
+ * dashboard are recorded when they succeed.
+ */
+async function applyRefund(
+  client: PoolClient,
+  applicationId: string,
+  modes: boolean[],
+  event: ProviderWebhookEvent
+): Promise<ProviderWebhookOutcome> {
+  const succeeded = event.type === 'refund.succeeded';
+
+  let refund: any = null;
+  if (event.provider_refund_id) {
+    const existing = await client.query(
+      `SELECT r.* FROM refunds r
+       JOIN payment_transactions t ON t.id = r.payment_transaction_id
+       JOIN invoices i ON i.id = t.invoice_id
+       WHERE i.application_id = $1 AND r.provider = $2 AND r.provider_refund_id = $3
+         AND i.test_mode = ANY($4::boolean[])
+       FOR UPDATE OF r`,
+      [applicationId, event.provider, event.provider_refund_id, modes]
+    );
+    refund = existing.rows[0] || null;
+  }
+
+  const transaction = refund
+    ? (await client.query(
+      `SELECT t.*, i.test_mode AS invoice_test_mode FROM payment_transactions t
+       JOIN invoices i ON i.id = t.invoice_id
+       WHERE t.id = $1
+       FOR UPDATE OF t`,
+      [refund.payment_transaction_id]
+    )).rows[0]
+    : await findTransaction(client, applicationId, modes, event);
+
+  if (!transaction) {
+    return 'ignored';
+  }
+
+  if (!refund) {
+    // A refund requested through XBS that the provider has not identified yet
+    const pending = await client.query(
+      `SELECT * FROM refunds
+       WHERE payment_transaction_id = $1 AND status = 'pending' AND provider_refund_id IS NULL
+       ORDER BY created_at ASC
+       LIMIT 1
+       FOR UPDATE`,
+      [transaction.id]
+    );
+    refund = pending.rows[0] || null;
+  }
+
+  if (!refund) {
+    if (!succeeded) {
+      return 'ignored';
+    }
+    const inserted = await client.query(
+      `INSERT INTO refunds (
+        payment_transaction_id, amount_cents, currency, reason, status,
+        provider, provider_refund_id, provider_response
+      ) VALUES ($1, $2, $3, $4, 'succeeded', $5, $6, $7)
+      RETURNING *`,
+      [
+        transaction.id,
+        event.amount_cents || transaction.amount_cents,
+        event.currency || transaction.currency,
+        'Refunded at provider',
+        event.provider,
+        event.provider_refund_id,
+        JSON.stringify(event.data),
+      ]
+    );
+    refund = inserted.rows[0];
+  } else {
+    if (refund.status !== 'pending') {
+      return 'ignored';
+    }
+    await client.query(
+      `UPDATE refunds
+       SET status = $1::payment_status, provider_refund_id = COALESCE($2, provider_refund_id),
+           provider_response = $3
+       WHERE id = $4`,
+      [succeeded ? 'succeeded' : 'failed', event.provider_refund_id, JSON.stringify(event.data), refund.id]
+    );
+  }
+
+  if (!succeeded) {
+    return 'refund_failed';
+  }
+
+  const updated = await client.query(
+    `UPDATE payment_transactions t
+     SET status = CASE WHEN refunded.total >= t.amount_cents
+                       THEN 'refunded'::payment_status
+                       ELSE 'partially_refunded'::payment_status END
+     FROM (
+       SELECT COALESCE(SUM(amount_cents), 0) AS total FROM refunds
+       WHERE payment_transaction_id = $1 AND status = 'succeeded'
+     ) refunded
+     WHERE t.id = $1 AND t.status IN ('succeeded', 'partially_refunded', 'refunded')
+     RETURNING t.*`,
+    [transaction.id]
+  );
+
+  if (updated.rows.length > 0) {
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: transaction.invoice_test_mode,
+      type: 'payment_transaction.refunded',
+      object: formatPaymentTransaction(updated.rows[0]),
+    });
+  }
+
+  return 'refund_succeeded';
+}
+
+/**
+ * Open or close a dispute against the payment it was raised on
+ */
+async function applyDispute(
+  client: PoolClient,
+  applicationId: string,
+  modes: boolean[],
+  event: ProviderWebhookEvent
+): Promise<ProviderWebhookOutcome> {
+  const closed = event.type === 'dispute.closed';
+  if (!event.provider_dispute_id || (closed && !event.dispute_outcome)) {
+    return 'ignored';
+  }
+
+  const existing = await client.query(
+    `SELECT d.*, i.test_mode AS invoice_test_mode FROM disputes d
+     JOIN invoices i ON i.id = d.invoice_id
+     WHERE i.application_id = $1 AND d.provider = $2 AND d.provider_dispute_id = $3
+       AND i.test_mode = ANY($4::boolean[])
+     FOR UPDATE OF d`,
+    [applicationId, event.provider, event.provider_dispute_id, modes]
+  );
+
+  let dispute: any;
+  let testMode: boolean;
+
+  if (existing.rows.length > 0) {
+    const current = existing.rows[0];
+    if (!closed || current.resolved_at) {
+      return 'ignored';
+    }
+
+    const result = await client.query(
+      `UPDATE disputes
+       SET status = $1::dispute_status, resolved_at = NOW(), provider_response = $2
+       WHERE id = $3
+       RETURNING *`,
+      [event.dispute_outcome, JSON.stringify(event.data), current.id]
+    );
+    dispute = result.rows[0];
+    testMode = current.invoice_test_mode;
+  } else {
+    const transaction = await findTransaction(client, applicationId, modes, event);
+    if (!transaction) {
+      return 'ignored';
+    }
+
+    // A dispute first seen when it closes is recorded already resolved
+    const result = await client.query(
+      `INSERT INTO disputes (
+        invoice_id, payment_transaction_id, customer_id, amount_cents, reason, status,
+        provider, provider_dispute_id, provider_response, resolved_at
+      ) VALUES ($1, $2, $3, $4, $5, $6::dispute_status, $7, $8, $9,
+        CASE WHEN $6::dispute_status IN ('won', 'lost') THEN NOW() END)
+      RETURNING *`,
+      [
+        transaction.invoice_id,
+        transaction.id,
+        transaction.invoice_customer_id,
+        event.amount_cents || transaction.amount_cents,
+        event.dispute_reason,
+        closed ? event.dispute_outcome : 'evidence_required',
+        event.provider,
+        event.provider_dispute_id,
+        JSON.stringify(event.data),
+      ]
+    );
+    dispute = result.rows[0];
+    testMode = transaction.invoice_test_mode;
+  }
+
+  await eventService.publish(client, {
+    application_id: applicationId,
+    test_mode: testMode,
+    type: closed ? 'dispute.closed' : 'dispute.created',
+    object: formatDispute(dispute),
+  });
+
+  return closed ? 'dispute_closed' : 'dispute_opened';
+}
+
+/**
+ * Apply a verified event inside the caller's transaction
+ */
+async function applyEvent(
+  client: PoolClient,
+  applicationId: string,
+  modes: boolean[],
+  event: ProviderWebhookEvent
+): Promise<ProviderWebhookOutcome> {
+  switch (event.type) {
+    case 'charge.succeeded':
+    case 'charge.failed':
+      return applyCharge(client, applicationId, modes, event);
+    case 'refund.succeeded':
+    case 'refund.failed':
+      return applyRefund(client, applicationId, modes, event);
+    case 'dispute.created':
+    case 'dispute.closed':
+      return applyDispute(client, applicationId, modes, event);
+    default:
+      return 'ignored';
+  }
+}
+
+/**
+ * Verify, deduplicate and apply an inbound provider webhook.
+ * Throws AuthenticationError when the signature does not match.
+ */
+export async function handleWebhook(
+  providerName: string,
+  applicationId: string,
+  rawBody: Buffer,
+  headers: WebhookHeaders
+): Promise<ProviderWebhookResult> {
+  if (!UUID_PATTERN.test(applicationId)) {
+    throw new NotFoundError('Application not found');
+  }
+  const application = await db.query('SELECT id FROM applications WHERE id = $1', [applicationId]);
+  if (application.rows.length === 0) {
+    throw new NotFoundError('Application not found');
+  }
+
+  // getProvider refuses the fake provider unless it is enabled (never in
+  // production). Real providers only carry live-mode payments (test mode
+  // charges through the fake provider), so their events never touch test-mode invoices.
+  const provider = await providers.getProvider(applicationId, providerName);
+  const modes = providers.webhookModes(providerName);
+  const event = provider.parseWebhook(rawBody, headers);
+  const webhookId = `${event.provider}:${event.provider_event_id}`;
+
+  const outcome = await db.transaction(async (client) => {
+    const recorded = await client.query(
+      `INSERT INTO processed_webhooks (webhook_id, application_id, provider, event_type)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (application_id, webhook_id) DO NOTHING
+       RETURNING webhook_id`,
+      [webhookId, applicationId, event.provider, event.provider_event_type]
+    );
+    if (recorded.rows.length === 0) {
+      return null;
+    }
+
+    const applied = await applyEvent(client, applicationId, modes, event);
+    await client.query(
+      'UPDATE processed_webhooks SET outcome = $1 WHERE application_id = $2 AND webhook_id = $3',
+      [applied, applicationId, webhookId]
+    );
+    return applied;
+  });
+
+  if (outcome === null) {
+    logger.info('Duplicate provider webhook ignored', { applicationId, webhookId });
+    return { received: true, duplicate: true, outcome: null };
+  }
+
+  logger.info('Provider webhook processed', {
+    applicationId,
+    webhookId,
+    eventType: event.provider_event_type,
+    outcome,
+  });
+  return { received: true, duplicate: false, outcome };
+}
+
+export default {
+  handleWebhook,
+};
@@ -0,0 +1,305 @@
+/**
+ * Renewal Service
+ * Rolls subscription billing periods forward and generates renewal invoices.
+ * Safe to run from several processes at once: each subscription is claimed
+ * with FOR UPDATE SKIP LOCKED inside its own transaction.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import logger from '../config/logger';
+import { formatPlan } from './planService';
+import {
+  addInterval,
+  cancelActiveSchedule,
+  formatSubscription,
+  resumeInTransaction,
+  setStateChangeReason,
+  SubscriptionStatus,
+} from './subscriptionService';
+import invoiceService, { Invoice } from './invoiceService';
+import subscriptionScheduleService from './subscriptionScheduleService';
+import paymentService from './paymentService';
+import eventService from './eventService';
+
+export interface RenewalResult {
+  subscription_id: string;
+  action: 'renewed' | 'cancelled';
+  invoice: Invoice | null;
+}
+
+export interface ProcessDueRenewalsResult {
+  processed: number;
+  failed: number;
+  results: RenewalResult[];
+}
+
+export interface ProcessDueResumesResult {
+  resumed: number;
+  failed: number;
+}
+
+/**
+ * Claim the next due subscription, skipping rows locked by other workers.
+ * Paused subscriptions keep renewing so their invoices can be handled per
+ * pause_behavior; the status list matches idx_subscriptions_period_end as
+ * recreated by migration 039.
+ */
+async function claimNextDue(
+  client: PoolClient,
+  excludeIds: string[]
+): Promise<any | null> {
+  const result = await client.query(
+    `SELECT s.*, c.application_id
+     FROM subscriptions s
+     JOIN customers c ON c.id = s.customer_id
+     WHERE s.status IN ('active', 'trialing', 'paused')
+       AND s.current_period_end <= NOW()
+       AND NOT (s.id = ANY($1::uuid[]))
+     ORDER BY s.current_period_end
+     LIMIT 1
+     FOR UPDATE OF s SKIP LOCKED`,
+    [excludeIds]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Renew a single claimed subscription inside the caller's transaction
+ */
+async function renewSubscription(client: PoolClient, row: any): Promise<RenewalResult> {
+  const subscription = formatSubscription(row);
+  const applicationId: string = row.application_id;
+
+  const planResult = await client.query('SELECT * FROM plans WHERE id = $1', [subscription.plan_id]);
+  const plan = formatPlan(planResult.rows[0]);
+
+  // A schedule moves to its next phase (or ends) with the new period
+  const phase = subscription.cancel_at_period_end
+    ? null
+    : await subscriptionScheduleService.advance(
+        client,
+        applicationId,
+        subscription,
+        subscription.current_period_end
+      );
+
+  // Scheduled cancellation takes effect instead of a renewal; usage from the
+  // final period is still billed
+  if (subscription.cancel_at_period_end || phase?.cancel) {
+    await setStateChangeReason(client, phase?.cancel ? 'schedule_ended' : 'cancel_at_period_end');
+    await cancelActiveSchedule(client, subscription.id);
+    const cancelled = await client.query(
+      `UPDATE subscriptions
+       SET status = 'cancelled', cancelled_at = current_period_end,
+           cancel_at_period_end = false, pause_behavior = NULL, paused_at = NULL,
+           resumes_at = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [subscription.id]
+    );
+
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: subscription.test_mode,
+      type: 'subscription.cancelled',
+      object: formatSubscription(cancelled.rows[0]),
+      previous_attributes: {
+        status: subscription.status,
+        ...(subscription.cancel_at_period_end && { cancel_at_period_end: true }),
+      },
+    });
+
+    const invoice = await invoiceService.createUsageInvoice(client, {
+      application_id: applicationId,
+      subscription,
+      plan,
+    });
+
+    logger.info('Subscription cancelled at period end', {
+      subscriptionId: subscription.id,
+      applicationId,
+    });
+    return { subscription_id: subscription.id, action: 'cancelled', invoice };
+  }
+
+  let status: SubscriptionStatus = subscription.status;
+  if (status === 'trialing' && subscription.trial_end && subscription.trial_end <= new Date()) {
+    status = 'active';
+    await setStateChangeReason(client, 'trial_ended');
+  }
+
+  // A scheduled plan change or schedule phase takes effect with the new
+  // period; the closing period's usage is still priced on the old plan
+  const change = phase || subscription.scheduled_change;
+  let nextPlan = plan;
+  let quantity = subscription.quantity;
+  if (change) {
+    if (change.plan_id !== plan.id) {
+      const scheduledResult = await client.query('SELECT * FROM plans WHERE id = $1', [change.plan_id]);
+      nextPlan = formatPlan(scheduledResult.rows[0]);
+    }
+    quantity = change.quantity;
+  }
+
+  const periodStart = subscription.current_period_end;
+  const periodEnd = addInterval(periodStart, nextPlan.billing_interval, nextPlan.billing_interval_count);
+
+  const updated = await client.query(
+    `UPDATE subscriptions
+     SET status = $1, current_period_start = $2, current_period_end = $3,
+         plan_id = $4, quantity = $5, scheduled_plan_id = NULL, scheduled_quantity = NULL,
+         updated_at = NOW()
+     WHERE id = $6
+     RETURNING *`,
+    [status, periodStart, periodEnd, nextPlan.id, quantity, subscription.id]
+  );
+
+  const renewed = formatSubscription(updated.rows[0]);
+  await eventService.publish(client, {
+    application_id: applicationId,
+    test_mode: subscription.test_mode,
+    type: 'subscription.renewed',
+    object: renewed,
+    previous_attributes: {
+      status: subscription.status,
+      current_period_start: subscription.current_period_start,
+      current_period_end: subscription.current_period_end,
+      ...(subscription.scheduled_change && {
+        scheduled_change: subscription.scheduled_change,
+      }),
+      ...((nextPlan.id !== plan.id || quantity !== subscription.quantity) && {
+        plan_id: subscription.plan_id,
+        quantity: subscription.quantity,
+      }),
+    },
+  });
+
+  const invoice = await invoiceService.createSubscriptionInvoice(client, {
+    application_id: applicationId,
+    subscription: renewed,
+    plan: nextPlan,
+    period_start: periodStart,
+    period_end: periodEnd,
+    usage_plan: plan,
+    pause_behavior: renewed.pause?.behavior,
+    discount: phase?.discount,
+  });
+
+  logger.info('Subscription renewed', {
+    subscriptionId: subscription.id,
+    applicationId,
+    status,
+    periodEnd,
+  });
+  return { subscription_id: subscription.id, action: 'renewed', invoice };
+}
+
+/**
+ * Process up to `batchSize` due subscriptions, one transaction each.
+ * A subscription that fails is skipped for the rest of this run.
+ */
+export async function processDueRenewals(batchSize: number = 50): Promise<ProcessDueRenewalsResult> {
+  const results: RenewalResult[] = [];
+  const failedIds: string[] = [];
+
+  while (results.length + failedIds.length < batchSize) {
+    let claimedId: string | null = null;
+
+    let result: RenewalResult | null;
+    try {
+      result = await db.transaction(async (client) => {
+        const row = await claimNextDue(client, failedIds);
+        if (!row) return null;
+
+        claimedId = row.id;
+        return renewSubscription(client, row);
+      });
+    } catch (error) {
+      if (!claimedId) throw error;
+
+      failedIds.push(claimedId);
+      logger.error('Subscription renewal failed', {
+        subscriptionId: claimedId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      continue;
+    }
+
+    if (!result) break;
+
+    // Collect outside the renewal transaction so the provider call holds no
+    // locks. The renewal has committed either way, so a collection error is
+    // not a renewal failure; the invoice stays open.
+    if (result.invoice) {
+      try {
+        result.invoice = await paymentService.attemptCollection(result.invoice);
+      } catch (error) {
+        logger.error('Renewal invoice collection failed', {
+          subscriptionId: result.subscription_id,
+          invoiceId: result.invoice.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    results.push(result);
+  }
+
+  return { processed: results.length, failed: failedIds.length, results };
+}
+
+/**
+ * Resume paused subscriptions whose resumes_at has passed, one transaction each
+ */
+export async function processDueResumes(batchSize: number = 50): Promise<ProcessDueResumesResult> {
+  const failedIds: string[] = [];
+  let resumed = 0;
+
+  while (resumed + failedIds.length < batchSize) {
+    let claimedId: string | null = null;
+
+    try {
+      const subscriptionId = await db.transaction(async (client) => {
+        const result = await client.query(
+          `SELECT s.*, c.application_id
+           FROM subscriptions s
+           JOIN customers c ON c.id = s.customer_id
+           WHERE s.status = 'paused'
+             AND s.resumes_at <= NOW()
+             AND NOT (s.id = ANY($1::uuid[]))
+           ORDER BY s.resumes_at
+           LIMIT 1
+           FOR UPDATE OF s SKIP LOCKED`,
+          [failedIds]
+        );
+        const row = result.rows[0];
+        if (!row) return null;
+
+        claimedId = row.id;
+        await resumeInTransaction(client, row.application_id, formatSubscription(row), 'resumes_at_reached');
+        return row.id as string;
+      });
+
+      if (!subscriptionId) break;
+
+      resumed++;
+      logger.info('Subscription resumed at resumes_at', { subscriptionId });
+    } catch (error) {
+      if (!claimedId) throw error;
+
+      failedIds.push(claimedId);
+      logger.error('Subscription resume failed', {
+        subscriptionId: claimedId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { resumed, failed: failedIds.length };
+}
+
+export default {
+  processDueRenewals,
+  processDueResumes,
+};
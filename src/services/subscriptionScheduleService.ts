@@ -0,0 +1,584 @@
+/**
+ * Subscription Schedule Service
+ * Ordered phases (plan, quantity, duration, discount) for a subscription.
+ * The renewal engine moves the subscription to the next phase at each phase
+ * boundary; a released schedule leaves the subscription to continue on its own.
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import planService, { formatPlan, Plan } from './planService';
+import subscriptionService, {
+  addInterval,
+  Subscription,
+  TERMINAL_STATUSES,
+  validateQuantity,
+} from './subscriptionService';
+import { InvoiceDiscount } from './invoiceService';
+import eventService from './eventService';
+
+// Types
+export type ScheduleStatus = 'active' | 'completed' | 'released' | 'cancelled';
+export type ScheduleEndBehavior = 'release' | 'cancel';
+
+export interface PhaseDiscount {
+  percent_off: number | null;
+  amount_off: number | null; // In the subscription currency's smallest unit
+}
+
+export interface SchedulePhase {
+  plan_id: string;
+  quantity: number;
+  iterations: number; // Billing periods of the phase's plan
+  discount: PhaseDiscount | null;
+}
+
+export interface SubscriptionSchedule {
+  id: string;
+  object: 'subscription_schedule';
+  subscription_id: string;
+  status: ScheduleStatus;
+  end_behavior: ScheduleEndBehavior;
+  phases: SchedulePhase[];
+  current_phase: {
+    index: number;
+    start_date: Date;
+    end_date: Date;
+  } | null;
+  completed_at: Date | null;
+  released_at: Date | null;
+  cancelled_at: Date | null;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SchedulePhaseInput {
+  plan_id: string;
+  quantity?: number;
+  iterations: number;
+  discount?: {
+    percent_off?: number;
+    amount_off?: number;
+  };
+}
+
+export interface CreateScheduleInput {
+  from_subscription?: string;
+  customer_id?: string;
+  currency?: string;
+  phases: SchedulePhaseInput[];
+  end_behavior?: ScheduleEndBehavior;
+  metadata?: Record<string, any>;
+}
+
+export interface ListSchedulesParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  subscription_id?: string;
+  status?: ScheduleStatus;
+}
+
+export interface ListSchedulesResult {
+  data: SubscriptionSchedule[];
+  has_more: boolean;
+}
+
+// What the renewal engine applies for the period it is starting
+export interface PhaseTransition {
+  plan_id: string;
+  quantity: number;
+  discount: InvoiceDiscount | null;
+  cancel: boolean; // Last phase ended with end_behavior 'cancel'
+}
+
+// Validation constants
+const VALID_STATUSES: ScheduleStatus[] = ['active', 'completed', 'released', 'cancelled'];
+const END_BEHAVIORS: ScheduleEndBehavior[] = ['release', 'cancel'];
+const MAX_PHASES = 10;
+const MAX_ITERATIONS = 120;
+
+/**
+ * Format schedule for API response
+ */
+function formatSchedule(row: any): SubscriptionSchedule {
+  return {
+    id: row.id,
+    object: 'subscription_schedule',
+    subscription_id: row.subscription_id,
+    status: row.status,
+    end_behavior: row.end_behavior,
+    phases: row.phases,
+    current_phase: row.status === 'active'
+      ? { index: row.current_phase, start_date: row.current_phase_start, end_date: row.current_phase_end }
+      : null,
+    completed_at: row.completed_at,
+    released_at: row.released_at,
+    cancelled_at: row.cancelled_at,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Validate a phase discount: exactly one of percent_off (0-100] or a positive
+ * integer amount_off
+ */
+function validateDiscount(discount: SchedulePhaseInput['discount'], index: number): PhaseDiscount | null {
+  if (discount === undefined || discount === null) {
+    return null;
+  }
+
+  const percentOff = discount.percent_off ?? null;
+  const amountOff = discount.amount_off ?? null;
+
+  if ((percentOff === null) === (amountOff === null)) {
+    throw new ValidationError(`phases[${index}].discount must have exactly one of percent_off or amount_off`);
+  }
+  if (percentOff !== null && (typeof percentOff !== 'number' || percentOff <= 0 || percentOff > 100)) {
+    throw new ValidationError(`phases[${index}].discount.percent_off must be greater than 0 and at most 100`);
+  }
+  if (amountOff !== null && (!Number.isInteger(amountOff) || amountOff < 1)) {
+    throw new ValidationError(`phases[${index}].discount.amount_off must be a positive integer`);
+  }
+
+  return { percent_off: percentOff, amount_off: amountOff };
+}
+
+/**
+ * Validate phases and load their plans, which must be active and priced in
+ * `currency` (when known)
+ */
+async function validatePhases(
+  applicationId: string,
+  testMode: boolean,
+  phases: SchedulePhaseInput[],
+  currency: string | null
+): Promise<{ phases: SchedulePhase[]; plans: Plan[] }> {
+  if (!Array.isArray(phases) || phases.length === 0) {
+    throw new ValidationError('phases must be a non-empty array');
+  }
+  if (phases.length > MAX_PHASES) {
+    throw new ValidationError(`A schedule can have at most ${MAX_PHASES} phases`);
+  }
+
+  const validated: SchedulePhase[] = [];
+  const plans: Plan[] = [];
+
+  for (const [index, phase] of phases.entries()) {
+    if (!phase || !phase.plan_id) {
+      throw new ValidationError(`phases[${index}].plan_id is required`);
+    }
+    validateQuantity(phase.quantity);
+    if (!Number.isInteger(phase.iterations) || phase.iterations < 1 || phase.iterations > MAX_ITERATIONS) {
+      throw new ValidationError(`phases[${index}].iterations must be an integer from 1 to ${MAX_ITERATIONS}`);
+    }
+
+    const plan = await planService.getById(applicationId, phase.plan_id, testMode);
+    if (plan.status !== 'active') {
+      throw new ValidationError(`phases[${index}]: plan is not active`);
+    }
+    if (currency && !planService.hasPriceInCurrency(plan, currency)) {
+      throw new ValidationError(`phases[${index}]: plan has no price in currency: ${currency}`);
+    }
+
+    plans.push(plan);
+    validated.push({
+      plan_id: plan.id,
+      quantity: phase.quantity ?? 1,
+      iterations: phase.iterations,
+      discount: validateDiscount(phase.discount, index),
+    });
+  }
+
+  return { phases: validated, plans };
+}
+
+/**
+ * Build the invoice discount for a phase
+ */
+function phaseDiscount(scheduleId: string, index: number, phase: SchedulePhase): InvoiceDiscount | null {
+  if (!phase.discount) {
+    return null;
+  }
+
+  return {
+    description: phase.discount.percent_off !== null
+      ? `Discount (${phase.discount.percent_off}% off)`
+      : 'Discount',
+    percent_off: phase.discount.percent_off,
+    amount_off: phase.discount.amount_off,
+    metadata: { subscription_schedule_id: scheduleId, phase: index },
+  };
+}
+
+/**
+ * Create a schedule, either for an existing subscription (from_subscription)
+ * or with a new subscription for customer_id on the first phase.
+ * The first phase starts with the subscription's current period, so for an
+ * existing subscription it must match its current plan and quantity.
+ */
+export async function create(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateScheduleInput
+): Promise<SubscriptionSchedule> {
+  if (!input.from_subscription === !input.customer_id) {
+    throw new ValidationError('Exactly one of from_subscription or customer_id is required');
+  }
+
+  const endBehavior = input.end_behavior ?? 'release';
+  if (!END_BEHAVIORS.includes(endBehavior)) {
+    throw new ValidationError(`Invalid end_behavior. Must be one of: ${END_BEHAVIORS.join(', ')}`);
+  }
+
+  let subscription: Subscription;
+  let validated: { phases: SchedulePhase[]; plans: Plan[] };
+
+  if (input.from_subscription) {
+    subscription = await subscriptionService.getById(applicationId, input.from_subscription, testMode);
+    if (TERMINAL_STATUSES.includes(subscription.status)) {
+      throw new ValidationError(`Cannot schedule a subscription with status '${subscription.status}'`);
+    }
+    if (subscription.cancel_at_period_end || subscription.scheduled_change) {
+      throw new ValidationError('Subscription already has a cancellation or plan change scheduled');
+    }
+
+    validated = await validatePhases(applicationId, testMode, input.phases, subscription.currency);
+    const first = validated.phases[0];
+    if (first.plan_id !== subscription.plan_id || first.quantity !== subscription.quantity) {
+      throw new ValidationError("The first phase must match the subscription's current plan and quantity");
+    }
+  } else {
+    // Same currency default as subscriptionService.create, resolved up front
+    // so every phase can be checked before the subscription is created
+    let currency = input.currency?.toUpperCase();
+    if (!currency) {
+      const appResult = await db.query(
+        'SELECT default_currency FROM applications WHERE id = $1',
+        [applicationId]
+      );
+      currency = appResult.rows[0]?.default_currency as string;
+    }
+
+    validated = await validatePhases(applicationId, testMode, input.phases, currency);
+    subscription = await subscriptionService.create(applicationId, testMode, {
+      customer_id: input.customer_id as string,
+      plan_id: validated.phases[0].plan_id,
+      quantity: validated.phases[0].quantity,
+      currency,
+      trial_period_days: 0,
+    });
+  }
+
+  // Invoices are created at renewal, so the period already underway is never
+  // billed through the schedule. Phase 0's iterations count from the first
+  // renewal, like every later phase, so it gets as many discounted invoices.
+  const firstPlan = validated.plans[0];
+  const phaseStart = new Date(subscription.current_period_start);
+  const phaseEnd = addInterval(
+    new Date(subscription.current_period_end),
+    firstPlan.billing_interval,
+    firstPlan.billing_interval_count * validated.phases[0].iterations
+  );
+
+  const id = uuidv4();
+  const schedule = await db.transaction(async (client) => {
+    // Serializes schedule creation per subscription
+    await client.query('SELECT id FROM subscriptions WHERE id = $1 FOR UPDATE', [subscription.id]);
+
+    const existing = await client.query(
+      `SELECT id FROM subscription_schedules WHERE subscription_id = $1 AND status = 'active'`,
+      [subscription.id]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError('Subscription already has an active schedule');
+    }
+
+    const result = await client.query(
+      `INSERT INTO subscription_schedules (
+        id, application_id, subscription_id, end_behavior, phases,
+        current_phase, current_phase_start, current_phase_end, metadata, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, 0, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        id,
+        applicationId,
+        subscription.id,
+        endBehavior,
+        JSON.stringify(validated.phases),
+        phaseStart,
+        phaseEnd,
+        JSON.stringify(input.metadata || {}),
+        testMode,
+      ]
+    );
+
+    const created = formatSchedule(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription_schedule.created',
+      object: created,
+    });
+    return created;
+  });
+
+  logger.info('Subscription schedule created', {
+    scheduleId: id,
+    subscriptionId: subscription.id,
+    applicationId,
+    phases: validated.phases.length,
+  });
+  return schedule;
+}
+
+/**
+ * Get schedule by ID
+ */
+export async function getById(
+  applicationId: string,
+  scheduleId: string,
+  testMode: boolean
+): Promise<SubscriptionSchedule> {
+  const result = await db.query(
+    `SELECT * FROM subscription_schedules
+     WHERE id = $1 AND application_id = $2 AND test_mode = $3`,
+    [scheduleId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Subscription schedule not found');
+  }
+
+  return formatSchedule(result.rows[0]);
+}
+
+/**
+ * Whether a subscription is currently managed by a schedule
+ */
+export async function hasActiveSchedule(subscriptionId: string): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM subscription_schedules WHERE subscription_id = $1 AND status = 'active'`,
+    [subscriptionId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Release a schedule: the subscription keeps its current plan and quantity
+ * and continues on its own
+ */
+export async function release(
+  applicationId: string,
+  scheduleId: string,
+  testMode: boolean
+): Promise<SubscriptionSchedule> {
+  const schedule = await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE subscription_schedules
+       SET status = 'released', released_at = NOW()
+       WHERE id = $1 AND application_id = $2 AND test_mode = $3 AND status = 'active'
+       RETURNING *`,
+      [scheduleId, applicationId, testMode]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await client.query(
+        `SELECT status FROM subscription_schedules
+         WHERE id = $1 AND application_id = $2 AND test_mode = $3`,
+        [scheduleId, applicationId, testMode]
+      );
+      if (existing.rows.length === 0) {
+        throw new NotFoundError('Subscription schedule not found');
+      }
+      throw new ValidationError(`Cannot release a schedule with status '${existing.rows[0].status}'`);
+    }
+
+    const released = formatSchedule(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription_schedule.released',
+      object: released,
+      previous_attributes: { status: 'active' },
+    });
+    return released;
+  });
+
+  logger.info('Subscription schedule released', { scheduleId, applicationId });
+  return schedule;
+}
+
+/**
+ * Apply the subscription's schedule to the period starting at `periodStart`,
+ * inside the renewal transaction. Moves to the next phase once the current
+ * one has ended, and completes the schedule after the last phase.
+ * Returns null when no schedule applies (none, or completed with 'release').
+ */
+export async function advance(
+  client: PoolClient,
+  applicationId: string,
+  subscription: Subscription,
+  periodStart: Date
+): Promise<PhaseTransition | null> {
+  const result = await client.query(
+    `SELECT * FROM subscription_schedules
+     WHERE subscription_id = $1 AND status = 'active'
+     FOR UPDATE`,
+    [subscription.id]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const phases: SchedulePhase[] = row.phases;
+  const index: number = row.current_phase;
+
+  if (periodStart < new Date(row.current_phase_end)) {
+    const phase = phases[index];
+    return {
+      plan_id: phase.plan_id,
+      quantity: phase.quantity,
+      discount: phaseDiscount(row.id, index, phase),
+      cancel: false,
+    };
+  }
+
+  if (index + 1 < phases.length) {
+    const next = phases[index + 1];
+    const planResult = await client.query('SELECT * FROM plans WHERE id = $1', [next.plan_id]);
+    const plan = formatPlan(planResult.rows[0]);
+    const phaseEnd = addInterval(
+      periodStart,
+      plan.billing_interval,
+      plan.billing_interval_count * next.iterations
+    );
+
+    const updated = await client.query(
+      `UPDATE subscription_schedules
+       SET current_phase = $1, current_phase_start = $2, current_phase_end = $3
+       WHERE id = $4
+       RETURNING *`,
+      [index + 1, periodStart, phaseEnd, row.id]
+    );
+
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: row.test_mode,
+      type: 'subscription_schedule.updated',
+      object: formatSchedule(updated.rows[0]),
+      previous_attributes: { current_phase: formatSchedule(row).current_phase },
+    });
+
+    logger.info('Subscription schedule phase started', {
+      scheduleId: row.id,
+      subscriptionId: subscription.id,
+      phase: index + 1,
+    });
+    return {
+      plan_id: next.plan_id,
+      quantity: next.quantity,
+      discount: phaseDiscount(row.id, index + 1, next),
+      cancel: false,
+    };
+  }
+
+  const completed = await client.query(
+    `UPDATE subscription_schedules
+     SET status = 'completed', completed_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [row.id]
+  );
+
+  await eventService.publish(client, {
+    application_id: applicationId,
+    test_mode: row.test_mode,
+    type: 'subscription_schedule.completed',
+    object: formatSchedule(completed.rows[0]),
+    previous_attributes: { status: 'active' },
+  });
+
+  logger.info('Subscription schedule completed', {
+    scheduleId: row.id,
+    subscriptionId: subscription.id,
+    endBehavior: row.end_behavior,
+  });
+
+  if (row.end_behavior !== 'cancel') {
+    return null;
+  }
+
+  const last = phases[index];
+  return { plan_id: last.plan_id, quantity: last.quantity, discount: null, cancel: true };
+}
+
+/**
+ * List schedules with cursor pagination
+ */
+export async function list(params: ListSchedulesParams): Promise<ListSchedulesResult> {
+  const { application_id, test_mode, limit = 10, starting_after, subscription_id, status } = params;
+
+  if (status && !VALID_STATUSES.includes(status)) {
+    throw new ValidationError(`Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`);
+  }
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['application_id = $1', 'test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (subscription_id) {
+    conditions.push(`subscription_id = $${paramIndex}`);
+    values.push(subscription_id);
+    paramIndex++;
+  }
+
+  if (status) {
+    conditions.push(`status = $${paramIndex}`);
+    values.push(status);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(
+      `(created_at, id) < (SELECT created_at, id FROM subscription_schedules WHERE id = $${paramIndex})`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM subscription_schedules
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatSchedule);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  create,
+  getById,
+  hasActiveSchedule,
+  release,
+  advance,
+  list,
+};
@@ -0,0 +1,112 @@
+import { db } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { cancel, getById, update } from './subscriptionService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+const SUBSCRIPTION_ID = '22222222-2222-2222-2222-222222222222';
+
+function subscriptionRow(overrides: Record<string, any> = {}) {
+  return {
+    id: SUBSCRIPTION_ID,
+    customer_id: '33333333-3333-3333-3333-333333333333',
+    plan_id: '44444444-4444-4444-4444-444444444444',
+    status: 'active',
+    currency: 'NGN',
+    quantity: 1,
+    current_period_start: new Date('2026-01-01T00:00:00Z'),
+    current_period_end: new Date('2026-02-01T00:00:00Z'),
+    cancel_at_period_end: false,
+    metadata: {},
+    test_mode: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Run transactions against a client whose row lock returns `locked`; every
+ * statement is recorded in `statements`
+ */
+function mockTransaction(locked: Record<string, any>) {
+  const statements: string[] = [];
+  const query = jest.fn(async (sql: string) => {
+    statements.push(sql);
+    if (sql.includes('FOR UPDATE')) return { rows: [locked] };
+    if (sql.startsWith('UPDATE subscriptions')) return { rows: [{ ...locked, updated_at: new Date() }] };
+    return { rows: [] };
+  });
+  (db.transaction as jest.Mock).mockImplementation(async (fn: any) => fn({ query }));
+  return statements;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  (db.query as jest.Mock).mockResolvedValue({ rows: [subscriptionRow()] });
+});
+
+describe('getById', () => {
+  it('scopes the lookup to the application and mode', async () => {
+    await getById(APPLICATION_ID, SUBSCRIPTION_ID, true);
+
+    const [sql, values] = (db.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('c.application_id = $2');
+    expect(sql).toContain('s.test_mode = $3');
+    expect(values).toEqual([SUBSCRIPTION_ID, APPLICATION_ID, true]);
+  });
+
+  it('throws NotFoundError for a subscription in another application or mode', async () => {
+    (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(getById(APPLICATION_ID, SUBSCRIPTION_ID, false)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('update', () => {
+  it('rejects a non-boolean cancel_at_period_end', async () => {
+    await expect(
+      update(APPLICATION_ID, SUBSCRIPTION_ID, true, { cancel_at_period_end: 'yes' as any })
+    ).rejects.toThrow(new ValidationError('cancel_at_period_end must be a boolean'));
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects metadata that is not an object', async () => {
+    for (const metadata of [null, [], 'tag']) {
+      await expect(
+        update(APPLICATION_ID, SUBSCRIPTION_ID, true, { metadata: metadata as any })
+      ).rejects.toThrow(new ValidationError('metadata must be an object'));
+    }
+  });
+
+  it('locks the row and refuses to update one cancelled since it was read', async () => {
+    const statements = mockTransaction(subscriptionRow({ status: 'cancelled' }));
+
+    await expect(
+      update(APPLICATION_ID, SUBSCRIPTION_ID, true, { metadata: { plan: 'gold' } })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(statements[0]).toContain('FOR UPDATE');
+    expect(statements.some((sql) => sql.startsWith('UPDATE subscriptions'))).toBe(false);
+  });
+
+  it('updates a locked active subscription', async () => {
+    const statements = mockTransaction(subscriptionRow());
+
+    const updated = await update(APPLICATION_ID, SUBSCRIPTION_ID, true, { cancel_at_period_end: true });
+
+    expect(updated.id).toBe(SUBSCRIPTION_ID);
+    expect(statements[0]).toContain('FOR UPDATE');
+    expect(statements.some((sql) => sql.startsWith('UPDATE subscriptions'))).toBe(true);
+  });
+});
+
+describe('cancel', () => {
+  it('locks the row and refuses to cancel one that ended since it was read', async () => {
+    const statements = mockTransaction(subscriptionRow({ status: 'unpaid' }));
+
+    await expect(cancel(APPLICATION_ID, SUBSCRIPTION_ID, true)).rejects.toBeInstanceOf(ConflictError);
+    expect(statements[0]).toContain('FOR UPDATE');
+    expect(statements.some((sql) => sql.includes("status = 'cancelled'"))).toBe(false);
+  });
+});
@@ -0,0 +1,687 @@
+/**
+ * Subscription Service
+ * Handles subscription lifecycle (create, update, cancel) with multi-tenant isolation
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import eventService from './eventService';
+import customerService from './customerService';
+import planService, { BillingInterval } from './planService';
+
+// Types
+export type SubscriptionStatus =
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'suspended'
+  | 'paused'
+  | 'cancelled'
+  | 'unpaid';
+
+export type PauseBehavior = 'keep_as_draft' | 'mark_uncollectible' | 'void';
+
+// Recorded with each status transition in subscription_state_changes
+export type StateChangeReason =
+  | 'cancellation_requested'
+  | 'cancel_at_period_end'
+  | 'schedule_ended'
+  | 'trial_ended'
+  | 'pause_requested'
+  | 'resume_requested'
+  | 'resumes_at_reached'
+  | 'payment_failed'
+  | 'payment_retries_exhausted'
+  | 'payment_recovered'
+  | 'dunning_ended';
+
+export interface Subscription {
+  id: string;
+  object: 'subscription';
+  customer_id: string;
+  plan_id: string;
+  status: SubscriptionStatus;
+  currency: string;
+  quantity: number;
+  current_period_start: Date;
+  current_period_end: Date;
+  trial_start: Date | null;
+  trial_end: Date | null;
+  cancel_at_period_end: boolean;
+  cancelled_at: Date | null;
+  cancellation_reason: string | null;
+  scheduled_change: ScheduledPlanChange | null;
+  pause: SubscriptionPause | null;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Plan change that takes effect when the current period ends
+export interface ScheduledPlanChange {
+  plan_id: string;
+  quantity: number;
+}
+
+// Set while the subscription is paused
+export interface SubscriptionPause {
+  behavior: PauseBehavior;
+  paused_at: Date;
+  resumes_at: Date | null;
+}
+
+export interface CreateSubscriptionInput {
+  customer_id: string;
+  plan_id: string;
+  currency?: string;
+  quantity?: number;
+  trial_period_days?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateSubscriptionInput {
+  quantity?: number;
+  cancel_at_period_end?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface CancelSubscriptionInput {
+  at_period_end?: boolean;
+  reason?: string;
+}
+
+export interface PauseSubscriptionInput {
+  behavior?: PauseBehavior;
+  resumes_at?: string;
+}
+
+export interface ListSubscriptionsParams {
+  application_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  customer_id?: string;
+  plan_id?: string;
+  status?: SubscriptionStatus;
+}
+
+export interface ListSubscriptionsResult {
+  data: Subscription[];
+  has_more: boolean;
+}
+
+// Validation constants
+const VALID_STATUSES: SubscriptionStatus[] = [
+  'trialing', 'active', 'past_due', 'suspended', 'paused', 'cancelled', 'unpaid',
+];
+const PAUSE_BEHAVIORS: PauseBehavior[] = ['keep_as_draft', 'mark_uncollectible', 'void'];
+const PAUSABLE_STATUSES: SubscriptionStatus[] = ['active', 'trialing'];
+export const TERMINAL_STATUSES: SubscriptionStatus[] = ['cancelled', 'unpaid'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add a number of billing intervals to a date.
+ * Month/year arithmetic clamps to the last day of the target month (Jan 31 + 1 month = Feb 28/29).
+ */
+export function addInterval(date: Date, interval: BillingInterval, count: number = 1): Date {
+  const result = new Date(date.getTime());
+
+  if (interval === 'day') {
+    result.setUTCDate(result.getUTCDate() + count);
+    return result;
+  }
+
+  if (interval === 'week') {
+    result.setUTCDate(result.getUTCDate() + 7 * count);
+    return result;
+  }
+
+  const months = interval === 'year' ? 12 * count : count;
+  const dayOfMonth = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDayOfMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(dayOfMonth, lastDayOfMonth));
+
+  return result;
+}
+
+/**
+ * Format subscription for API response
+ */
+export function formatSubscription(row: any): Subscription {
+  return {
+    id: row.id,
+    object: 'subscription',
+    customer_id: row.customer_id,
+    plan_id: row.plan_id,
+    status: row.status,
+    currency: row.currency,
+    quantity: row.quantity,
+    current_period_start: row.current_period_start,
+    current_period_end: row.current_period_end,
+    trial_start: row.trial_start,
+    trial_end: row.trial_end,
+    cancel_at_period_end: row.cancel_at_period_end,
+    cancelled_at: row.cancelled_at,
+    cancellation_reason: row.cancellation_reason,
+    scheduled_change: row.scheduled_plan_id
+      ? { plan_id: row.scheduled_plan_id, quantity: row.scheduled_quantity }
+      : null,
+    pause: row.paused_at
+      ? { behavior: row.pause_behavior, paused_at: row.paused_at, resumes_at: row.resumes_at }
+      : null,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Set the reason recorded for the next status change in the caller's
+ * transaction (read and cleared by the state change trigger)
+ */
+export async function setStateChangeReason(client: PoolClient, reason: StateChangeReason): Promise<void> {
+  await client.query("SELECT set_config('xbs.state_change_reason', $1, true)", [reason]);
+}
+
+/**
+ * Mark the subscription's active schedule (if any) cancelled, inside the
+ * transaction that ends the subscription
+ */
+export async function cancelActiveSchedule(client: PoolClient, subscriptionId: string): Promise<void> {
+  await client.query(
+    `UPDATE subscription_schedules
+     SET status = 'cancelled', cancelled_at = NOW()
+     WHERE subscription_id = $1 AND status = 'active'`,
+    [subscriptionId]
+  );
+}
+
+export function validateQuantity(quantity: number | undefined): void {
+  if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1)) {
+    throw new ValidationError('quantity must be a positive integer');
+  }
+}
+
+/**
+ * Create a new subscription
+ * Trial dates come from the plan's trial_period_days (overridable); the first
+ * billing period comes from the plan's billing interval.
+ */
+export async function create(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateSubscriptionInput
+): Promise<Subscription> {
+  if (!input.customer_id) {
+    throw new ValidationError('customer_id is required');
+  }
+  if (!input.plan_id) {
+    throw new ValidationError('plan_id is required');
+  }
+  validateQuantity(input.quantity);
+  if (input.trial_period_days !== undefined &&
+      (!Number.isInteger(input.trial_period_days) || input.trial_period_days < 0)) {
+    throw new ValidationError('trial_period_days must be a non-negative integer');
+  }
+
+  // Both lookups are scoped to the same application and mode
+  const customer = await customerService.getById(applicationId, input.customer_id, testMode);
+  const plan = await planService.getById(applicationId, input.plan_id, testMode);
+
+  if (plan.status !== 'active') {
+    throw new ValidationError('Cannot subscribe to a plan that is not active');
+  }
+
+  let currency = input.currency?.toUpperCase();
+  if (!currency) {
+    const appResult = await db.query(
+      'SELECT default_currency FROM applications WHERE id = $1',
+      [applicationId]
+    );
+    currency = appResult.rows[0]?.default_currency || plan.prices[0]?.currency;
+  }
+
+  if (!currency || !planService.hasPriceInCurrency(plan, currency)) {
+    throw new ValidationError(`Plan has no price in currency: ${currency}`);
+  }
+
+  const now = new Date();
+  const trialDays = input.trial_period_days ?? plan.trial_period_days;
+
+  let status: SubscriptionStatus = 'active';
+  let trialStart: Date | null = null;
+  let trialEnd: Date | null = null;
+  let periodEnd = addInterval(now, plan.billing_interval, plan.billing_interval_count);
+
+  // During a trial the current period is the trial itself
+  if (trialDays > 0) {
+    status = 'trialing';
+    trialStart = now;
+    trialEnd = new Date(now.getTime() + trialDays * DAY_MS);
+    periodEnd = trialEnd;
+  }
+
+  const id = uuidv4();
+  const subscription = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO subscriptions (
+        id, customer_id, plan_id, status, currency, quantity,
+        current_period_start, current_period_end, trial_start, trial_end,
+        metadata, test_mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        id,
+        customer.id,
+        plan.id,
+        status,
+        currency,
+        input.quantity || 1,
+        now,
+        periodEnd,
+        trialStart,
+        trialEnd,
+        JSON.stringify(input.metadata || {}),
+        testMode,
+      ]
+    );
+
+    const created = formatSubscription(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription.created',
+      object: created,
+    });
+    return created;
+  });
+
+  logger.info('Subscription created', { subscriptionId: id, applicationId, testMode, status });
+  return subscription;
+}
+
+/**
+ * Get subscription by ID (scoped to the application through its customer)
+ */
+export async function getById(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean
+): Promise<Subscription> {
+  const result = await db.query(
+    `SELECT s.* FROM subscriptions s
+     JOIN customers c ON c.id = s.customer_id
+     WHERE s.id = $1 AND c.application_id = $2 AND s.test_mode = $3`,
+    [subscriptionId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Subscription not found');
+  }
+
+  return formatSubscription(result.rows[0]);
+}
+
+/**
+ * Lock a subscription row for the rest of the caller's transaction
+ */
+async function lockSubscription(client: PoolClient, subscriptionId: string): Promise<Subscription> {
+  const result = await client.query('SELECT * FROM subscriptions WHERE id = $1 FOR UPDATE', [
+    subscriptionId,
+  ]);
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Subscription not found');
+  }
+  return formatSubscription(result.rows[0]);
+}
+
+/**
+ * Update subscription (quantity, cancel_at_period_end, metadata)
+ */
+export async function update(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: UpdateSubscriptionInput
+): Promise<Subscription> {
+  const existing = await getById(applicationId, subscriptionId, testMode);
+
+  if (TERMINAL_STATUSES.includes(existing.status)) {
+    throw new ValidationError(`Cannot update a subscription with status '${existing.status}'`);
+  }
+
+  validateQuantity(input.quantity);
+  if (input.cancel_at_period_end !== undefined && typeof input.cancel_at_period_end !== 'boolean') {
+    throw new ValidationError('cancel_at_period_end must be a boolean');
+  }
+  if (input.metadata !== undefined &&
+      (!input.metadata || typeof input.metadata !== 'object' || Array.isArray(input.metadata))) {
+    throw new ValidationError('metadata must be an object');
+  }
+
+  const updates: string[] = ['updated_at = NOW()'];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  const fields: (keyof UpdateSubscriptionInput)[] = ['quantity', 'cancel_at_period_end', 'metadata'];
+
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      updates.push(`${field} = $${paramIndex}`);
+      values.push(field === 'metadata' ? JSON.stringify(input[field]) : input[field]);
+      paramIndex++;
+    }
+  }
+
+  values.push(subscriptionId);
+
+  const subscription = await db.transaction(async (client) => {
+    // Lock and re-check: a renewal or cancel may have ended the subscription
+    const current = await lockSubscription(client, subscriptionId);
+    if (TERMINAL_STATUSES.includes(current.status)) {
+      throw new ConflictError(`Cannot update a subscription with status '${current.status}'`);
+    }
+
+    const result = await client.query(
+      `UPDATE subscriptions SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+
+    const updated = formatSubscription(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription.updated',
+      object: updated,
+      previous_attributes: eventService.previousAttributes(
+        current,
+        fields.filter((field) => input[field] !== undefined)
+      ),
+    });
+    return updated;
+  });
+
+  logger.info('Subscription updated', { subscriptionId, applicationId });
+  return subscription;
+}
+
+/**
+ * Cancel subscription immediately or at the end of the current period
+ */
+export async function cancel(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: CancelSubscriptionInput = {}
+): Promise<Subscription> {
+  const existing = await getById(applicationId, subscriptionId, testMode);
+
+  if (TERMINAL_STATUSES.includes(existing.status)) {
+    throw new ValidationError(`Subscription is already ${existing.status}`);
+  }
+
+  const subscription = await db.transaction(async (client) => {
+    // Lock and re-check: a renewal may have ended it in the meantime
+    const current = await lockSubscription(client, subscriptionId);
+    if (TERMINAL_STATUSES.includes(current.status)) {
+      throw new ConflictError(`Subscription is already ${current.status}`);
+    }
+
+    if (!input.at_period_end) {
+      await setStateChangeReason(client, 'cancellation_requested');
+      await cancelActiveSchedule(client, subscriptionId);
+    }
+
+    const result = input.at_period_end
+      ? await client.query(
+          `UPDATE subscriptions
+           SET cancel_at_period_end = true, cancellation_reason = $1, updated_at = NOW()
+           WHERE id = $2
+           RETURNING *`,
+          [input.reason || null, subscriptionId]
+        )
+      : await client.query(
+          `UPDATE subscriptions
+           SET status = 'cancelled', cancelled_at = NOW(), cancellation_reason = $1,
+               cancel_at_period_end = false, pause_behavior = NULL, paused_at = NULL,
+               resumes_at = NULL, updated_at = NOW()
+           WHERE id = $2
+           RETURNING *`,
+          [input.reason || null, subscriptionId]
+        );
+
+    // A scheduled cancellation is an update until the renewal engine applies it
+    const cancelled = formatSubscription(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: input.at_period_end ? 'subscription.updated' : 'subscription.cancelled',
+      object: cancelled,
+      previous_attributes: input.at_period_end
+        ? { cancel_at_period_end: current.cancel_at_period_end }
+        : { status: current.status },
+    });
+    return cancelled;
+  });
+
+  logger.info('Subscription cancelled', {
+    subscriptionId,
+    applicationId,
+    atPeriodEnd: input.at_period_end === true,
+  });
+  return subscription;
+}
+
+/**
+ * Pause a subscription
+ * Billing periods keep rolling over while paused and `behavior` decides what
+ * happens to the invoices they generate (default: keep_as_draft). With
+ * resumes_at the subscription resumes automatically at that time.
+ */
+export async function pause(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: PauseSubscriptionInput = {}
+): Promise<Subscription> {
+  const behavior = input.behavior ?? 'keep_as_draft';
+  if (!PAUSE_BEHAVIORS.includes(behavior)) {
+    throw new ValidationError(`Invalid behavior. Must be one of: ${PAUSE_BEHAVIORS.join(', ')}`);
+  }
+
+  let resumesAt: Date | null = null;
+  if (input.resumes_at !== undefined && input.resumes_at !== null) {
+    resumesAt = new Date(input.resumes_at);
+    if (isNaN(resumesAt.getTime()) || resumesAt <= new Date()) {
+      throw new ValidationError('resumes_at must be a date in the future');
+    }
+  }
+
+  const existing = await getById(applicationId, subscriptionId, testMode);
+  if (!PAUSABLE_STATUSES.includes(existing.status)) {
+    throw new ValidationError(`Cannot pause a subscription with status '${existing.status}'`);
+  }
+
+  const subscription = await db.transaction(async (client) => {
+    // Lock and re-check: a renewal, cancel or another pause may have moved the status
+    const current = await lockSubscription(client, subscriptionId);
+    if (!PAUSABLE_STATUSES.includes(current.status)) {
+      throw new ConflictError(`Cannot pause a subscription with status '${current.status}'`);
+    }
+
+    await setStateChangeReason(client, 'pause_requested');
+
+    const result = await client.query(
+      `UPDATE subscriptions
+       SET status = 'paused', pause_behavior = $1, paused_at = NOW(), resumes_at = $2,
+           updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [behavior, resumesAt, subscriptionId]
+    );
+
+    const paused = formatSubscription(result.rows[0]);
+    await eventService.publish(client, {
+      application_id: applicationId,
+      test_mode: testMode,
+      type: 'subscription.paused',
+      object: paused,
+      previous_attributes: { status: current.status, pause: null },
+    });
+    return paused;
+  });
+
+  logger.info('Subscription paused', { subscriptionId, applicationId, behavior, resumesAt });
+  return subscription;
+}
+
+/**
+ * Resume a paused subscription inside the caller's transaction; it returns to
+ * trialing if its trial has not ended yet, otherwise to active. The caller
+ * must hold the row lock (see lockSubscription).
+ */
+export async function resumeInTransaction(
+  client: PoolClient,
+  applicationId: string,
+  existing: Subscription,
+  reason: StateChangeReason
+): Promise<Subscription> {
+  const status: SubscriptionStatus =
+    existing.trial_end && new Date(existing.trial_end) > new Date() ? 'trialing' : 'active';
+
+  await setStateChangeReason(client, reason);
+
+  const result = await client.query(
+    `UPDATE subscriptions
+     SET status = $1, pause_behavior = NULL, paused_at = NULL, resumes_at = NULL, updated_at = NOW()
+     WHERE id = $2 AND status = 'paused'
+     RETURNING *`,
+    [status, existing.id]
+  );
+  if (result.rows.length === 0) {
+    throw new ConflictError('Subscription is no longer paused');
+  }
+
+  const resumed = formatSubscription(result.rows[0]);
+  await eventService.publish(client, {
+    application_id: applicationId,
+    test_mode: existing.test_mode,
+    type: 'subscription.resumed',
+    object: resumed,
+    previous_attributes: { status: existing.status, pause: existing.pause },
+  });
+  return resumed;
+}
+
+/**
+ * Resume a paused subscription
+ */
+export async function resume(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean
+): Promise<Subscription> {
+  const existing = await getById(applicationId, subscriptionId, testMode);
+  if (existing.status !== 'paused') {
+    throw new ValidationError('Subscription is not paused');
+  }
+
+  const subscription = await db.transaction(async (client) => {
+    const current = await lockSubscription(client, subscriptionId);
+    if (current.status !== 'paused') {
+      throw new ConflictError('Subscription is not paused');
+    }
+    return resumeInTransaction(client, applicationId, current, 'resume_requested');
+  });
+
+  logger.info('Subscription resumed', { subscriptionId, applicationId, status: subscription.status });
+  return subscription;
+}
+
+/**
+ * List subscriptions with cursor pagination
+ */
+export async function list(params: ListSubscriptionsParams): Promise<ListSubscriptionsResult> {
+  const {
+    application_id,
+    test_mode,
+    limit = 10,
+    starting_after,
+    customer_id,
+    plan_id,
+    status,
+  } = params;
+
+  if (status && !VALID_STATUSES.includes(status)) {
+    throw new ValidationError(`Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`);
+  }
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['c.application_id = $1', 's.test_mode = $2'];
+  const values: any[] = [application_id, test_mode];
+  let paramIndex = 3;
+
+  if (customer_id) {
+    conditions.push(`s.customer_id = $${paramIndex}`);
+    values.push(customer_id);
+    paramIndex++;
+  }
+
+  if (plan_id) {
+    conditions.push(`s.plan_id = $${paramIndex}`);
+    values.push(plan_id);
+    paramIndex++;
+  }
+
+  if (status) {
+    conditions.push(`s.status = $${paramIndex}`);
+    values.push(status);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(
+      `s.created_at < (SELECT created_at FROM subscriptions WHERE id = $${paramIndex})`
+    );
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT s.* FROM subscriptions s
+     JOIN customers c ON c.id = s.customer_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY s.created_at DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatSubscription);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  create,
+  getById,
+  update,
+  cancel,
+  pause,
+  resume,
+  list,
+  addInterval,
+};
@@ -0,0 +1,232 @@
+/**
+ * Usage Metric Service
+ * Manages the metric types an application can record usage for
+ */
+
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import logger from '../config/logger';
+
+// Types
+export type UsageAggregation = 'sum' | 'max' | 'last_during_period' | 'unique_count';
+
+export interface UsageMetric {
+  id: string;
+  object: 'usage_metric';
+  application_id: string;
+  metric_name: string;
+  display_name: string;
+  unit: string;
+  description: string | null;
+  aggregation: UsageAggregation;
+  unique_property: string | null;
+  created_at: Date;
+}
+
+export interface CreateUsageMetricInput {
+  metric_name: string;
+  display_name: string;
+  unit: string;
+  description?: string;
+  aggregation?: UsageAggregation;
+  unique_property?: string;
+}
+
+export interface UpdateUsageMetricInput {
+  display_name?: string;
+  unit?: string;
+  description?: string;
+  aggregation?: UsageAggregation;
+  unique_property?: string | null;
+}
+
+// Validation constants
+const VALID_AGGREGATIONS: UsageAggregation[] = ['sum', 'max', 'last_during_period', 'unique_count'];
+const METRIC_NAME_PATTERN = /^[a-z][a-z0-9_]{0,99}$/;
+
+/**
+ * Validate aggregation settings
+ */
+function validateAggregation(aggregation: UsageAggregation, uniqueProperty: string | null | undefined): void {
+  if (!VALID_AGGREGATIONS.includes(aggregation)) {
+    throw new ValidationError(`Invalid aggregation. Must be one of: ${VALID_AGGREGATIONS.join(', ')}`);
+  }
+
+  if (aggregation === 'unique_count' && !uniqueProperty) {
+    throw new ValidationError('unique_property is required for unique_count aggregation');
+  }
+}
+
+/**
+ * Format usage metric for API response
+ */
+function formatUsageMetric(row: any): UsageMetric {
+  return {
+    id: row.id,
+    object: 'usage_metric',
+    application_id: row.application_id,
+    metric_name: row.metric_name,
+    display_name: row.display_name,
+    unit: row.unit,
+    description: row.description,
+    aggregation: row.aggregation,
+    unique_property: row.unique_property,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Register a new usage metric
+ */
+export async function create(
+  applicationId: string,
+  input: CreateUsageMetricInput
+): Promise<UsageMetric> {
+  if (!input.metric_name || !METRIC_NAME_PATTERN.test(input.metric_name)) {
+    throw new ValidationError(
+      'metric_name must start with a letter and contain only lowercase letters, digits and underscores'
+    );
+  }
+  if (!input.display_name || input.display_name.trim().length === 0) {
+    throw new ValidationError('display_name is required');
+  }
+  if (!input.unit || input.unit.trim().length === 0) {
+    throw new ValidationError('unit is required');
+  }
+
+  const aggregation = input.aggregation || 'sum';
+  validateAggregation(aggregation, input.unique_property);
+
+  const existing = await db.query(
+    'SELECT id FROM usage_metrics WHERE application_id = $1 AND metric_name = $2',
+    [applicationId, input.metric_name]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(`Usage metric '${input.metric_name}' already exists`);
+  }
+
+  const id = uuidv4();
+  const result = await db.query(
+    `INSERT INTO usage_metrics (
+      id, application_id, metric_name, display_name, unit, description,
+      aggregation, unique_property
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *`,
+    [
+      id,
+      applicationId,
+      input.metric_name,
+      input.display_name.trim(),
+      input.unit.trim(),
+      input.description || null,
+      aggregation,
+      aggregation === 'unique_count' ? input.unique_property : null,
+    ]
+  );
+
+  logger.info('Usage metric created', { metricId: id, applicationId, metricName: input.metric_name });
+  return formatUsageMetric(result.rows[0]);
+}
+
+/**
+ * Get usage metric by ID
+ */
+export async function getById(applicationId: string, metricId: string): Promise<UsageMetric> {
+  const result = await db.query(
+    'SELECT * FROM usage_metrics WHERE id = $1 AND application_id = $2',
+    [metricId, applicationId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Usage metric not found');
+  }
+
+  return formatUsageMetric(result.rows[0]);
+}
+
+/**
+ * Update a usage metric
+ * Aggregation changes apply from the next period close; metric_name is immutable.
+ */
+export async function update(
+  applicationId: string,
+  metricId: string,
+  input: UpdateUsageMetricInput
+): Promise<UsageMetric> {
+  const existing = await getById(applicationId, metricId);
+
+  const aggregation = input.aggregation ?? existing.aggregation;
+  const uniqueProperty = input.unique_property !== undefined
+    ? input.unique_property
+    : existing.unique_property;
+  validateAggregation(aggregation, uniqueProperty);
+
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  if (input.display_name !== undefined) {
+    if (input.display_name.trim().length === 0) {
+      throw new ValidationError('display_name cannot be empty');
+    }
+    updates.push(`display_name = $${paramIndex++}`);
+    values.push(input.display_name.trim());
+  }
+
+  if (input.unit !== undefined) {
+    if (input.unit.trim().length === 0) {
+      throw new ValidationError('unit cannot be empty');
+    }
+    updates.push(`unit = $${paramIndex++}`);
+    values.push(input.unit.trim());
+  }
+
+  if (input.description !== undefined) {
+    updates.push(`description = $${paramIndex++}`);
+    values.push(input.description || null);
+  }
+
+  if (input.aggregation !== undefined || input.unique_property !== undefined) {
+    updates.push(`aggregation = $${paramIndex++}`);
+    values.push(aggregation);
+    updates.push(`unique_property = $${paramIndex++}`);
+    values.push(aggregation === 'unique_count' ? uniqueProperty : null);
+  }
+
+  if (updates.length === 0) {
+    return existing;
+  }
+
+  values.push(metricId, applicationId);
+
+  const result = await db.query(
+    `UPDATE usage_metrics
+     SET ${updates.join(', ')}
+     WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1}
+     RETURNING *`,
+    values
+  );
+
+  logger.info('Usage metric updated', { metricId, applicationId });
+  return formatUsageMetric(result.rows[0]);
+}
+
+/**
+ * List the application's usage metrics
+ */
+export async function list(applicationId: string): Promise<{ data: UsageMetric[]; has_more: boolean }> {
+  const result = await db.query(
+    'SELECT * FROM usage_metrics WHERE application_id = $1 ORDER BY metric_name',
+    [applicationId]
+  );
+
+  return { data: result.rows.map(formatUsageMetric), has_more: false };
+}
+
+export default {
+  create,
+  getById,
+  update,
+  list,
+};
@@ -0,0 +1,449 @@
+/**
+ * Usage Service
+ * Records metered usage against subscriptions with per-subscription idempotency
+ */
+
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import subscriptionService, { formatSubscription, Subscription } from './subscriptionService';
+import { UsageAggregation } from './usageMetricService';
+
+// Types
+export interface UsageRecord {
+  id: string;
+  object: 'usage_record';
+  subscription_id: string;
+  metric_name: string;
+  quantity: number;
+  timestamp: Date;
+  period_start: Date;
+  period_end: Date;
+  invoiced: boolean;
+  invoice_id: string | null;
+  idempotency_key: string;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+}
+
+export interface RecordUsageInput {
+  metric_name: string;
+  quantity?: number;
+  timestamp?: string;
+  idempotency_key?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RecordUsageBatchResult {
+  object: 'usage_batch';
+  received: number;
+  recorded: number;
+  duplicates: number;
+}
+
+export interface ListUsageParams {
+  application_id: string;
+  subscription_id: string;
+  test_mode: boolean;
+  limit?: number;
+  starting_after?: string;
+  metric_name?: string;
+}
+
+export interface ListUsageResult {
+  data: UsageRecord[];
+  has_more: boolean;
+}
+
+export interface UsageAggregate {
+  metric_name: string;
+  display_name: string;
+  aggregation: UsageAggregation;
+  period_start: Date;
+  period_end: Date;
+  quantity: number;
+}
+
+interface NormalizedUsage {
+  metric_name: string;
+  quantity: number;
+  timestamp: Date;
+  idempotency_key: string;
+  metadata: Record<string, any>;
+}
+
+// Constants
+const MAX_BATCH_SIZE = 5000;
+const INSERT_CHUNK_SIZE = 1000;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 500;
+const MAX_QUANTITY = 2147483647;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const NON_BILLABLE_STATUSES = ['cancelled', 'unpaid'];
+
+/**
+ * Format usage record for API response
+ */
+function formatUsageRecord(row: any): UsageRecord {
+  return {
+    id: row.id,
+    object: 'usage_record',
+    subscription_id: row.subscription_id,
+    metric_name: row.metric_name,
+    quantity: row.quantity,
+    timestamp: row.timestamp,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    invoiced: row.invoiced,
+    invoice_id: row.invoice_id,
+    idempotency_key: row.idempotency_key,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Lock the subscription for the duration of an ingestion transaction.
+ * FOR SHARE lets ingestion run concurrently but waits for a renewal in
+ * progress, so usage always lands in the period that is still open.
+ */
+async function lockSubscription(
+  client: PoolClient,
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean
+): Promise<Subscription> {
+  const result = await client.query(
+    `SELECT s.* FROM subscriptions s
+     JOIN customers c ON c.id = s.customer_id
+     WHERE s.id = $1 AND c.application_id = $2 AND s.test_mode = $3
+     FOR SHARE OF s`,
+    [subscriptionId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Subscription not found');
+  }
+
+  const subscription = formatSubscription(result.rows[0]);
+
+  if (NON_BILLABLE_STATUSES.includes(subscription.status)) {
+    throw new ValidationError(`Cannot record usage for a subscription with status '${subscription.status}'`);
+  }
+
+  return subscription;
+}
+
+/**
+ * Load the application's registered metric names
+ */
+async function loadMetricNames(client: PoolClient, applicationId: string): Promise<Set<string>> {
+  const result = await client.query(
+    'SELECT metric_name FROM usage_metrics WHERE application_id = $1',
+    [applicationId]
+  );
+
+  return new Set(result.rows.map((row) => row.metric_name));
+}
+
+/**
+ * Validate one usage input and fill in defaults
+ * `label` prefixes error messages so batch callers can find the bad record.
+ */
+function normalizeUsage(
+  input: RecordUsageInput,
+  subscription: Subscription,
+  metricNames: Set<string>,
+  label: string
+): NormalizedUsage {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError(`${label} must be an object`);
+  }
+
+  if (!input.metric_name) {
+    throw new ValidationError(`${label}.metric_name is required`);
+  }
+  if (!metricNames.has(input.metric_name)) {
+    throw new ValidationError(`${label}.metric_name is not a registered usage metric: ${input.metric_name}`);
+  }
+
+  const quantity = input.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+    throw new ValidationError(`${label}.quantity must be a positive integer`);
+  }
+
+  let timestamp = new Date();
+  if (input.timestamp !== undefined) {
+    timestamp = new Date(input.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      throw new ValidationError(`${label}.timestamp must be a valid date`);
+    }
+    if (timestamp.getTime() > Date.now() + CLOCK_SKEW_MS) {
+      throw new ValidationError(`${label}.timestamp cannot be in the future`);
+    }
+    if (timestamp < subscription.current_period_start) {
+      throw new ValidationError(`${label}.timestamp is before the subscription's current period`);
+    }
+  }
+
+  if (input.idempotency_key !== undefined &&
+      (typeof input.idempotency_key !== 'string' || input.idempotency_key.length === 0 ||
+       input.idempotency_key.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+    throw new ValidationError(
+      `${label}.idempotency_key must be a string of 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+    );
+  }
+
+  return {
+    metric_name: input.metric_name,
+    quantity,
+    timestamp,
+    idempotency_key: input.idempotency_key || uuidv4(),
+    metadata: input.metadata || {},
+  };
+}
+
+/**
+ * Insert usage rows for the subscription's current period, skipping
+ * idempotency keys that were already recorded. Returns the inserted rows.
+ */
+async function insertUsage(
+  client: PoolClient,
+  subscription: Subscription,
+  records: NormalizedUsage[]
+): Promise<any[]> {
+  const result = await client.query(
+    `INSERT INTO usage_records (
+      subscription_id, metric_name, quantity, timestamp,
+      period_start, period_end, idempotency_key, metadata, test_mode
+    )
+    SELECT $1, u.metric_name, u.quantity, u.timestamp, $2, $3, u.idempotency_key, u.metadata::jsonb, $4
+    FROM unnest($5::varchar[], $6::integer[], $7::timestamp[], $8::varchar[], $9::text[])
+      AS u(metric_name, quantity, timestamp, idempotency_key, metadata)
+    ON CONFLICT (subscription_id, idempotency_key) DO NOTHING
+    RETURNING *`,
+    [
+      subscription.id,
+      subscription.current_period_start,
+      subscription.current_period_end,
+      subscription.test_mode,
+      records.map((r) => r.metric_name),
+      records.map((r) => r.quantity),
+      records.map((r) => r.timestamp),
+      records.map((r) => r.idempotency_key),
+      records.map((r) => JSON.stringify(r.metadata)),
+    ]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Record a single usage event
+ * A repeated idempotency key returns the originally recorded event.
+ */
+export async function recordUsage(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  input: RecordUsageInput
+): Promise<UsageRecord> {
+  return db.transaction(async (client) => {
+    const subscription = await lockSubscription(client, applicationId, subscriptionId, testMode);
+    const metricNames = await loadMetricNames(client, applicationId);
+    const record = normalizeUsage(input, subscription, metricNames, 'usage');
+
+    const inserted = await insertUsage(client, subscription, [record]);
+    if (inserted.length > 0) {
+      return formatUsageRecord(inserted[0]);
+    }
+
+    const existing = await client.query(
+      'SELECT * FROM usage_records WHERE subscription_id = $1 AND idempotency_key = $2',
+      [subscription.id, record.idempotency_key]
+    );
+
+    logger.info('Duplicate usage ignored', {
+      subscriptionId: subscription.id,
+      idempotencyKey: record.idempotency_key,
+    });
+    return formatUsageRecord(existing.rows[0]);
+  });
+}
+
+/**
+ * Record a batch of usage events atomically
+ * Every record is validated before anything is written; duplicates are skipped.
+ */
+export async function recordUsageBatch(
+  applicationId: string,
+  subscriptionId: string,
+  testMode: boolean,
+  records: RecordUsageInput[]
+): Promise<RecordUsageBatchResult> {
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new ValidationError('records must be a non-empty array');
+  }
+  if (records.length > MAX_BATCH_SIZE) {
+    throw new ValidationError(`A batch can contain at most ${MAX_BATCH_SIZE} records`);
+  }
+
+  const recorded = await db.transaction(async (client) => {
+    const subscription = await lockSubscription(client, applicationId, subscriptionId, testMode);
+    const metricNames = await loadMetricNames(client, applicationId);
+    const normalized = records.map((input, index) =>
+      normalizeUsage(input, subscription, metricNames, `records[${index}]`)
+    );
+
+    let count = 0;
+    for (let i = 0; i < normalized.length; i += INSERT_CHUNK_SIZE) {
+      const inserted = await insertUsage(client, subscription, normalized.slice(i, i + INSERT_CHUNK_SIZE));
+      count += inserted.length;
+    }
+    return count;
+  });
+
+  logger.info('Usage batch recorded', {
+    subscriptionId,
+    applicationId,
+    received: records.length,
+    recorded,
+  });
+
+  return {
+    object: 'usage_batch',
+    received: records.length,
+    recorded,
+    duplicates: records.length - recorded,
+  };
+}
+
+/**
+ * Aggregate uninvoiced usage per metric and period, for periods ending on or
+ * before `periodEnd`. Each metric is combined with its configured aggregation.
+ * Runs inside the invoicing transaction, which holds the subscription lock.
+ */
+export async function aggregateUninvoiced(
+  client: PoolClient,
+  applicationId: string,
+  subscriptionId: string,
+  metricNames: string[],
+  periodEnd: Date
+): Promise<UsageAggregate[]> {
+  if (metricNames.length === 0) return [];
+
+  const result = await client.query(
+    `SELECT u.metric_name, m.display_name, m.aggregation, u.period_start, u.period_end,
+       (CASE m.aggregation
+         WHEN 'max' THEN MAX(u.quantity)
+         WHEN 'last_during_period' THEN
+           (ARRAY_AGG(u.quantity ORDER BY u.timestamp DESC, u.created_at DESC))[1]
+         WHEN 'unique_count' THEN COUNT(DISTINCT u.metadata->>m.unique_property)
+         ELSE SUM(u.quantity)
+       END)::bigint AS quantity
+     FROM usage_records u
+     JOIN usage_metrics m ON m.application_id = $2 AND m.metric_name = u.metric_name
+     WHERE u.subscription_id = $1
+       AND u.invoiced = false
+       AND u.metric_name = ANY($3)
+       AND u.period_end <= $4
+     GROUP BY u.metric_name, m.display_name, m.aggregation, m.unique_property,
+       u.period_start, u.period_end
+     ORDER BY u.period_start, u.metric_name`,
+    [subscriptionId, applicationId, metricNames, periodEnd]
+  );
+
+  return result.rows.map((row) => ({
+    metric_name: row.metric_name,
+    display_name: row.display_name,
+    aggregation: row.aggregation,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    quantity: Number(row.quantity),
+  }));
+}
+
+/**
+ * Link the usage covered by aggregateUninvoiced to the invoice that billed it
+ */
+export async function markInvoiced(
+  client: PoolClient,
+  subscriptionId: string,
+  invoiceId: string,
+  metricNames: string[],
+  periodEnd: Date
+): Promise<number> {
+  if (metricNames.length === 0) return 0;
+
+  const result = await client.query(
+    `UPDATE usage_records
+     SET invoiced = true, invoice_id = $1
+     WHERE subscription_id = $2
+       AND invoiced = false
+       AND metric_name = ANY($3)
+       AND period_end <= $4`,
+    [invoiceId, subscriptionId, metricNames, periodEnd]
+  );
+
+  return result.rowCount || 0;
+}
+
+/**
+ * List a subscription's usage records with cursor pagination
+ */
+export async function list(params: ListUsageParams): Promise<ListUsageResult> {
+  const {
+    application_id,
+    subscription_id,
+    test_mode,
+    limit = 10,
+    starting_after,
+    metric_name,
+  } = params;
+
+  // Verifies the subscription belongs to the application
+  await subscriptionService.getById(application_id, subscription_id, test_mode);
+
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const conditions: string[] = ['subscription_id = $1'];
+  const values: any[] = [subscription_id];
+  let paramIndex = 2;
+
+  if (metric_name) {
+    conditions.push(`metric_name = $${paramIndex}`);
+    values.push(metric_name);
+    paramIndex++;
+  }
+
+  if (starting_after) {
+    conditions.push(`created_at < (SELECT created_at FROM usage_records WHERE id = $${paramIndex})`);
+    values.push(starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM usage_records
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatUsageRecord);
+
+  return { data, has_more: hasMore };
+}
+
+export default {
+  recordUsage,
+  recordUsageBatch,
+  aggregateUninvoiced,
+  markInvoiced,
+  list,
+};
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { db } from '../config/database';
+import { processOutbox, SIGNATURE_HEADER } from './webhookDeliveryService';
+import webhookEndpointService from './webhookEndpointService';
+
+jest.mock('../config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+const APPLICATION_ID = '11111111-1111-1111-1111-111111111111';
+
+interface Endpoint {
+  id: string;
+  url: string;
+  secret: string;
+  previous_secret?: string | null;
+}
+
+function outboxEvent(testMode: boolean) {
+  const id = crypto.randomUUID();
+  return {
+    id,
+    application_id: APPLICATION_ID,
+    test_mode: testMode,
+    event_type: 'invoice.paid',
+    payload: { id, object: 'event', type: 'invoice.paid', livemode: !testMode, data: { object: {} } },
+    status: 'processing',
+    retry_count: 0,
+    max_retries: 5,
+    created_at: new Date(),
+  };
+}
+
+/**
+ * Answer the dispatcher's queries for one claimed event. Returns the logged
+ * deliveries and the mode the endpoints were loaded for.
+ */
+function mockDatabase(event: ReturnType<typeof outboxEvent>, endpoints: Endpoint[]) {
+  const deliveries: Record<string, any>[] = [];
+  const loaded: { endpointMode?: boolean; legacyQueried: boolean } = { legacyQueried: false };
+
+  (db.query as jest.Mock).mockImplementation(async (sql: string, values: any[] = []) => {
+    if (sql.includes('UPDATE outbox_events') && sql.includes('RETURNING')) {
+      return { rows: [event] };
+    }
+    if (sql.includes('FROM webhook_endpoints')) {
+      loaded.endpointMode = values[1];
+      return { rows: endpoints.map((endpoint) => ({ previous_secret: null, ...endpoint })) };
+    }
+    if (sql.includes('FROM applications')) {
+      loaded.legacyQueried = true;
+      return { rows: [{ webhook_url: `${serverUrl}?legacy`, webhook_secret: 'whsec_legacy' }] };
+    }
+    if (sql.includes('INSERT INTO webhook_deliveries')) {
+      const row = {
+        id: crypto.randomUUID(),
+        outbox_event_id: values[0],
+        webhook_endpoint_id: values[1],
+        url: values[2],
+        http_status: values[3],
+        request_headers: JSON.parse(values[4]),
+        response_body: values[6],
+        success: values[7],
+        error_message: values[8],
+      };
+      deliveries.push(row);
+      return { rows: [row] };
+    }
+    return { rows: [] };
+  });
+
+  return { deliveries, loaded };
+}
+
+let server: http.Server;
+let serverUrl: string;
+let received: { headers: http.IncomingHttpHeaders; body: string }[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.end('internal answer');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.restoreAllMocks();
+  received = [];
+  jest.spyOn(webhookEndpointService, 'recordDeliveryResult').mockResolvedValue(undefined as any);
+});
+
+describe('processOutbox', () => {
+  it('signs each delivery with every secret the endpoint accepts', async () => {
+    jest.spyOn(webhookEndpointService, 'allowsPrivateUrls').mockReturnValue(true);
+    const event = outboxEvent(true);
+    mockDatabase(event, [
+      { id: crypto.randomUUID(), url: serverUrl, secret: 'whsec_new', previous_secret: 'whsec_old' },
+    ]);
+
+    expect(await processOutbox(10)).toEqual({ delivered: 1, retrying: 0, exhausted: 0 });
+
+    const [{ headers, body }] = received;
+    const header = String(headers[SIGNATURE_HEADER.toLowerCase()]);
+    const timestamp = header.split(',')[0].replace('t=', '');
+    const sign = (secret: string) =>
+      `v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+    expect(header).toBe(`t=${timestamp},${sign('whsec_new')},${sign('whsec_old')}`);
+    expect(JSON.parse(body).id).toBe(event.id);
+  });
+
+  it('sends test-mode events only to test-mode endpoints, never to the legacy URL', async () => {
+    const event = outboxEvent(true);
+    const { deliveries, loaded } = mockDatabase(event, [
+      { id: crypto.randomUUID(), url: `${serverUrl}?test`, secret: 'whsec_test' },
+    ]);
+    jest.spyOn(webhookEndpointService, 'allowsPrivateUrls').mockReturnValue(true);
+
+    await processOutbox(10);
+
+    expect(loaded.endpointMode).toBe(true);
+    expect(loaded.legacyQueried).toBe(false);
+    expect(deliveries.map((delivery) => delivery.url)).toEqual([`${serverUrl}?test`]);
+  });
+
+  it('sends live-mode events to live endpoints and the legacy URL', async () => {
+    const event = outboxEvent(false);
+    const { deliveries, loaded } = mockDatabase(event, [
+      { id: crypto.randomUUID(), url: `${serverUrl}?live`, secret: 'whsec_live' },
+    ]);
+    jest.spyOn(webhookEndpointService, 'allowsPrivateUrls').mockReturnValue(true);
+
+    expect(await processOutbox(10)).toEqual({ delivered: 1, retrying: 0, exhausted: 0 });
+
+    expect(loaded.endpointMode).toBe(false);
+    expect(deliveries.map((delivery) => delivery.url)).toEqual([`${serverUrl}?live`, `${serverUrl}?legacy`]);
+  });
+
+  it('does not connect to private addresses or keep their responses', async () => {
+    const event = outboxEvent(false);
+    const { deliveries } = mockDatabase(event, [
+      { id: crypto.randomUUID(), url: serverUrl, secret: 'whsec_live' },
+    ]);
+    jest.spyOn(webhookEndpointService, 'allowsPrivateUrls').mockReturnValue(false);
+
+    expect(await processOutbox(10)).toEqual({ delivered: 0, retrying: 1, exhausted: 0 });
+
+    expect(received).toHaveLength(0);
+    expect(deliveries[0]).toMatchObject({
+      url: serverUrl,
+      success: false,
+      http_status: null,
+      response_body: null,
+      error_message: '127.0.0.1 is not a public address',
+    });
+  });
+});
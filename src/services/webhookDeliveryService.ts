@@ -0,0 +1,544 @@
+/**
+ * Webhook Delivery Service
+ * Dispatches outbox events to the application's webhook endpoints in the
+ * event's mode (and live-mode events to its legacy applications.webhook_url),
+ * logging every attempt in webhook_deliveries.
+ * Events that fail for any endpoint are retried with exponential backoff; a
+ * retry only goes to endpoints that have not yet accepted the event. Events can
+ * also be redelivered by hand, and their delivery log read back. Deliveries only
+ * connect to public addresses (see webhookEndpointService.allowsPrivateUrls).
+ *
+ * Deliveries are signed: XBS-Signature: t=<unix seconds>,v1=<hex>[,v1=<hex>]
+ * where each v1 is HMAC-SHA256(secret, "<t>.<raw body>") for every secret the
+ * endpoint currently accepts (two during a secret roll's overlap window).
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import { isPublicIp, publicLookup } from '../utils/ip';
+import eventService, { Event } from './eventService';
+import webhookEndpointService from './webhookEndpointService';
+
+// Types
+export interface DeliveryTarget {
+  webhook_endpoint_id: string | null;
+  url: string;
+  secrets: string[];
+}
+
+export interface DeliveryAttempt {
+  success: boolean;
+  http_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  object: 'webhook_delivery';
+  event_id: string;
+  webhook_endpoint_id: string | null;
+  url: string;
+  success: boolean;
+  http_status: number | null;
+  duration_ms: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  attempted_at: Date;
+}
+
+export interface ListDeliveriesParams {
+  limit?: number;
+  starting_after?: string;
+}
+
+export interface RedeliverInput {
+  webhook_endpoint_id?: string;
+}
+
+export interface WebhookEndpointTestResult extends DeliveryAttempt {
+  object: 'webhook_endpoint_test';
+  event_id: string;
+}
+
+export interface ProcessOutboxResult {
+  delivered: number;
+  retrying: number;
+  exhausted: number;
+}
+
+// A claimed event is re-claimable once its lease expires (worker crashed mid-run)
+const CLAIM_LEASE_SECONDS = 300;
+const BASE_BACKOFF_SECONDS = 60;
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+const USER_AGENT = 'XBS-Webhooks/1.0';
+export const SIGNATURE_HEADER = 'XBS-Signature';
+
+/**
+ * Format delivery log row for API response (request omitted; the body is the
+ * event itself and the headers carry signatures)
+ */
+function formatWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    object: 'webhook_delivery',
+    event_id: row.outbox_event_id,
+    webhook_endpoint_id: row.webhook_endpoint_id,
+    url: row.url,
+    success: row.success === true,
+    http_status: row.http_status,
+    duration_ms: row.duration_ms,
+    response_body: row.response_body,
+    error_message: row.error_message,
+    attempted_at: row.attempted_at,
+  };
+}
+
+/**
+ * Seconds to wait before the given retry (1-based): 1m, 2m, 4m, ... capped at 6h
+ */
+function backoffSeconds(retry: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** (retry - 1), MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * Endpoints in the event's mode subscribed to it; unless `includeDelivered`,
+ * only those that have not already accepted it
+ */
+async function loadTargets(event: any, includeDelivered: boolean = false): Promise<DeliveryTarget[]> {
+  const endpoints = await db.query(
+    `SELECT id, url, secret,
+       CASE WHEN previous_secret_expires_at > NOW() THEN previous_secret END AS previous_secret
+     FROM webhook_endpoints
+     WHERE application_id = $1 AND test_mode = $2 AND active = true
+       AND (enabled_events IS NULL OR $3 = ANY(enabled_events) OR '*' = ANY(enabled_events))`,
+    [event.application_id, event.test_mode, event.event_type]
+  );
+
+  const targets: DeliveryTarget[] = endpoints.rows.map((row) => ({
+    webhook_endpoint_id: row.id,
+    url: row.url,
+    secrets: row.previous_secret ? [row.secret, row.previous_secret] : [row.secret],
+  }));
+
+  // Single-URL configuration predating webhook_endpoints has no mode and one
+  // (live) secret, so it receives every live-mode event and no test-mode ones
+  if (!event.test_mode) {
+    const application = await db.query(
+      'SELECT webhook_url, webhook_secret FROM applications WHERE id = $1',
+      [event.application_id]
+    );
+    if (application.rows[0]?.webhook_url) {
+      targets.push({
+        webhook_endpoint_id: null,
+        url: application.rows[0].webhook_url,
+        secrets: application.rows[0].webhook_secret ? [application.rows[0].webhook_secret] : [],
+      });
+    }
+  }
+
+  if (includeDelivered) {
+    return targets;
+  }
+
+  const delivered = await db.query(
+    `SELECT webhook_endpoint_id, url FROM webhook_deliveries
+     WHERE outbox_event_id = $1 AND success = true`,
+    [event.id]
+  );
+
+  return targets.filter((target) => !delivered.rows.some((row) =>
+    target.webhook_endpoint_id
+      ? row.webhook_endpoint_id === target.webhook_endpoint_id
+      : row.webhook_endpoint_id === null && row.url === target.url
+  ));
+}
+
+/**
+ * Signature header value for a body, signed with each accepted secret
+ */
+function signatureHeader(body: string, secrets: string[], timestamp: number): string {
+  const signatures = secrets.map((secret) =>
+    `v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  );
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Headers sent with every delivery; unsigned only for a legacy URL without a secret
+ */
+function buildHeaders(payload: Event, body: string, secrets: string[]): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': USER_AGENT,
+    'XBS-Event-Id': payload.id,
+    'XBS-Event-Type': payload.type,
+  };
+
+  if (secrets.length > 0) {
+    headers[SIGNATURE_HEADER] = signatureHeader(body, secrets, Math.floor(Date.now() / 1000));
+  }
+
+  return headers;
+}
+
+/**
+ * POST a body and read back the status and the start of the response body.
+ * Redirects are not followed. Unless private URLs are allowed, the host must
+ * be a public IP literal or resolve only to public addresses when the socket
+ * connects, so no response is ever read from an internal host.
+ */
+function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  const parsed = new URL(url);
+  const checked = !webhookEndpointService.allowsPrivateUrls();
+  const literal = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (checked && net.isIP(literal) && !isPublicIp(literal)) {
+    return Promise.reject(new Error(`${literal} is not a public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const transport = parsed.protocol === 'https:' ? https : http;
+    const request = transport.request(
+      parsed,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: checked ? publicLookup : undefined,
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        let received = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (received.length < MAX_RESPONSE_BODY_LENGTH) received += chunk;
+        });
+        response.on('end', () => resolve({ status: response.statusCode || 0, body: received }));
+        response.on('error', reject);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POST a signed event to one target (never throws)
+ */
+async function send(
+  payload: Event,
+  target: DeliveryTarget
+): Promise<{ headers: Record<string, string>; body: string; attempt: DeliveryAttempt }> {
+  const body = JSON.stringify(payload);
+  const headers = buildHeaders(payload, body, target.secrets);
+  const start = Date.now();
+
+  let attempt: DeliveryAttempt;
+  try {
+    const response = await post(target.url, headers, body);
+    const success = response.status >= 200 && response.status < 300;
+
+    attempt = {
+      success,
+      http_status: response.status,
+      response_body: response.body.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      error_message: success ? null : `Endpoint responded with HTTP ${response.status}`,
+      duration_ms: Date.now() - start,
+    };
+  } catch (error) {
+    attempt = {
+      success: false,
+      http_status: null,
+      response_body: null,
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - start,
+    };
+  }
+
+  return { headers, body, attempt };
+}
+
+/**
+ * Deliver the event to one target, log the attempt and update the endpoint's
+ * failure streak
+ */
+async function deliver(event: any, target: DeliveryTarget): Promise<WebhookDelivery> {
+  const { headers, body, attempt } = await send(event.payload, target);
+
+  const result = await db.query(
+    `INSERT INTO webhook_deliveries (
+      outbox_event_id, webhook_endpoint_id, url, http_status, request_headers,
+      request_body, response_body, success, error_message, duration_ms
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *`,
+    [
+      event.id,
+      target.webhook_endpoint_id,
+      target.url,
+      attempt.http_status,
+      JSON.stringify(headers),
+      body,
+      attempt.response_body,
+      attempt.success,
+      attempt.error_message,
+      attempt.duration_ms,
+    ]
+  );
+
+  if (target.webhook_endpoint_id) {
+    await webhookEndpointService.recordDeliveryResult(
+      target.webhook_endpoint_id,
+      attempt.success,
+      event.test_mode
+    );
+  }
+
+  return formatWebhookDelivery(result.rows[0]);
+}
+
+/**
+ * Claim up to `batchSize` deliverable events, skipping rows locked by other workers
+ */
+async function claimEvents(batchSize: number): Promise<any[]> {
+  const result = await db.query(
+    `UPDATE outbox_events
+     SET status = 'processing', next_retry_at = NOW() + make_interval(secs => $2)
+     WHERE id IN (
+       SELECT id FROM outbox_events
+       WHERE (status = 'pending' AND (next_retry_at IS NULL OR next_retry_at <= NOW()))
+          OR (status IN ('failed', 'processing') AND next_retry_at <= NOW())
+       ORDER BY created_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [batchSize, CLAIM_LEASE_SECONDS]
+  );
+
+  return result.rows.sort((a, b) => a.created_at - b.created_at);
+}
+
+/**
+ * Deliver one claimed event to all outstanding targets and record the outcome
+ */
+async function dispatchEvent(event: any): Promise<'delivered' | 'retrying' | 'exhausted'> {
+  const targets = await loadTargets(event);
+
+  const errors: string[] = [];
+  for (const target of targets) {
+    const delivery = await deliver(event, target);
+    if (!delivery.success) {
+      errors.push(`${target.url}: ${delivery.error_message}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    await db.query(
+      `UPDATE outbox_events
+       SET status = 'delivered', processed_at = NOW(), next_retry_at = NULL, last_error = NULL
+       WHERE id = $1`,
+      [event.id]
+    );
+    return 'delivered';
+  }
+
+  const retryCount = (event.retry_count || 0) + 1;
+  const exhausted = retryCount > event.max_retries;
+
+  await db.query(
+    `UPDATE outbox_events
+     SET status = 'failed', retry_count = $1, last_error = $2,
+         next_retry_at = CASE WHEN $3 THEN NULL ELSE NOW() + make_interval(secs => $4) END,
+         processed_at = CASE WHEN $3 THEN NOW() ELSE processed_at END
+     WHERE id = $5`,
+    [retryCount, errors.join('; '), exhausted, backoffSeconds(retryCount), event.id]
+  );
+
+  if (exhausted) {
+    logger.warn('Webhook delivery exhausted retries', {
+      eventId: event.id,
+      eventType: event.event_type,
+      applicationId: event.application_id,
+      lastError: errors[0],
+    });
+    return 'exhausted';
+  }
+  return 'retrying';
+}
+
+/**
+ * Dispatch up to `batchSize` due outbox events
+ */
+export async function processOutbox(batchSize: number = 50): Promise<ProcessOutboxResult> {
+  const counts: ProcessOutboxResult = { delivered: 0, retrying: 0, exhausted: 0 };
+  const events = await claimEvents(batchSize);
+
+  for (const event of events) {
+    try {
+      counts[await dispatchEvent(event)]++;
+    } catch (error) {
+      // Left 'processing'; the claim lease makes it due again later
+      logger.error('Webhook dispatch failed', {
+        eventId: event.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Load an outbox row for the application's current mode
+ */
+async function findEvent(applicationId: string, eventId: string, testMode: boolean): Promise<any> {
+  const result = await db.query(
+    'SELECT * FROM outbox_events WHERE id = $1 AND application_id = $2 AND test_mode = $3',
+    [eventId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Event not found');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * List an event's delivery attempts, newest first
+ */
+export async function listDeliveries(
+  applicationId: string,
+  eventId: string,
+  testMode: boolean,
+  params: ListDeliveriesParams = {}
+): Promise<{ data: WebhookDelivery[]; has_more: boolean }> {
+  await findEvent(applicationId, eventId, testMode);
+
+  const safeLimit = Math.min(Math.max(1, params.limit || 10), 100);
+  const conditions: string[] = ['outbox_event_id = $1'];
+  const values: any[] = [eventId];
+  let paramIndex = 2;
+
+  if (params.starting_after) {
+    conditions.push(
+      `(attempted_at, id) < (SELECT attempted_at, id FROM webhook_deliveries WHERE id = $${paramIndex})`
+    );
+    values.push(params.starting_after);
+    paramIndex++;
+  }
+
+  values.push(safeLimit + 1);
+
+  const result = await db.query(
+    `SELECT * FROM webhook_deliveries
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY attempted_at DESC, id DESC
+     LIMIT $${paramIndex}`,
+    values
+  );
+
+  const hasMore = result.rows.length > safeLimit;
+  const data = result.rows.slice(0, safeLimit).map(formatWebhookDelivery);
+
+  return { data, has_more: hasMore };
+}
+
+/**
+ * Send an event again now, to one endpoint or to every endpoint currently
+ * subscribed to it (including those that already accepted it). A failed event
+ * that no longer has outstanding endpoints is marked delivered.
+ */
+export async function redeliver(
+  applicationId: string,
+  eventId: string,
+  testMode: boolean,
+  input: RedeliverInput = {}
+): Promise<{ data: WebhookDelivery[]; has_more: boolean }> {
+  const event = await findEvent(applicationId, eventId, testMode);
+
+  let targets: DeliveryTarget[];
+  if (input.webhook_endpoint_id) {
+    const target = await webhookEndpointService.getSigningTarget(
+      applicationId,
+      input.webhook_endpoint_id,
+      testMode
+    );
+    targets = [{ webhook_endpoint_id: target.endpoint.id, url: target.url, secrets: target.secrets }];
+  } else {
+    targets = await loadTargets(event, true);
+  }
+
+  if (targets.length === 0) {
+    throw new ValidationError('No webhook endpoints are subscribed to this event');
+  }
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const target of targets) {
+    deliveries.push(await deliver(event, target));
+  }
+
+  if (event.status === 'failed' && (await loadTargets(event)).length === 0) {
+    await db.query(
+      `UPDATE outbox_events
+       SET status = 'delivered', processed_at = NOW(), next_retry_at = NULL, last_error = NULL
+       WHERE id = $1 AND status = 'failed'`,
+      [event.id]
+    );
+  }
+
+  logger.info('Event redelivered', {
+    eventId,
+    applicationId,
+    targets: targets.length,
+    succeeded: deliveries.filter((delivery) => delivery.success).length,
+  });
+  return { data: deliveries, has_more: false };
+}
+
+/**
+ * Send a synthetic, signed webhook_endpoint.test event to an endpoint now,
+ * regardless of its event filters or active flag. Nothing is logged and the
+ * endpoint's failure streak is unaffected.
+ */
+export async function sendTestEvent(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean
+): Promise<WebhookEndpointTestResult> {
+  const target = await webhookEndpointService.getSigningTarget(applicationId, endpointId, testMode);
+
+  const event = eventService.buildEvent({
+    application_id: applicationId,
+    test_mode: testMode,
+    type: 'webhook_endpoint.test',
+    object: target.endpoint,
+  });
+
+  const { attempt } = await send(event, {
+    webhook_endpoint_id: endpointId,
+    url: target.url,
+    secrets: target.secrets,
+  });
+
+  logger.info('Webhook endpoint tested', { endpointId, applicationId, success: attempt.success });
+  return { object: 'webhook_endpoint_test', event_id: event.id, ...attempt };
+}
+
+export default {
+  processOutbox,
+  listDeliveries,
+  redeliver,
+  sendTestEvent,
+};
@@ -0,0 +1,456 @@
+/**
+ * Webhook Endpoint Service
+ * Manages the URLs an application receives events at. Signing secrets are
+ * generated here and only revealed when created or rolled. Endpoints that keep
+ * failing are disabled automatically (webhook_endpoint.disabled is published).
+ */
+
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { env, isProduction } from '../config/env';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../config/logger';
+import { resolvesToPublicIp } from '../utils/ip';
+import eventService, { EVENT_TYPES } from './eventService';
+
+// Types
+export interface WebhookEndpoint {
+  id: string;
+  object: 'webhook_endpoint';
+  application_id: string;
+  url: string;
+  description: string | null;
+  enabled_events: string[];
+  active: boolean;
+  disabled_at: Date | null;
+  disabled_reason: string | null;
+  secret_rolled_at: Date | null;
+  previous_secret_expires_at: Date | null;
+  metadata: Record<string, any>;
+  test_mode: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookEndpointWithSecret extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string;
+  enabled_events?: string[];
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  description?: string;
+  enabled_events?: string[];
+  active?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface RollSecretInput {
+  expires_in_hours?: number;
+}
+
+export interface SigningTarget {
+  endpoint: WebhookEndpoint;
+  url: string;
+  secrets: string[];
+}
+
+// Validation constants
+const MAX_ENDPOINTS_PER_APPLICATION = 16;
+const MAX_URL_LENGTH = 500;
+const DEFAULT_ROLL_OVERLAP_HOURS = 24;
+const MAX_ROLL_OVERLAP_HOURS = 7 * 24;
+const ALL_EVENTS = '*';
+
+// An endpoint is disabled once it has failed this many deliveries in a row
+// over at least this many hours (both, so a short outage under load is not enough)
+const AUTO_DISABLE_AFTER_FAILURES = 20;
+const AUTO_DISABLE_AFTER_HOURS = 24;
+
+/**
+ * Generate a signing secret
+ */
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Whether webhooks may be sent to loopback and private addresses (local
+ * development only)
+ */
+export function allowsPrivateUrls(): boolean {
+  return env.WEBHOOK_ALLOW_PRIVATE_URLS && !isProduction;
+}
+
+/**
+ * Validate endpoint URL (HTTPS required in production). The host must resolve
+ * to public addresses only; deliveries check again when they connect.
+ */
+async function validateUrl(url: unknown): Promise<string> {
+  if (typeof url !== 'string' || url.trim().length === 0) {
+    throw new ValidationError('url is required');
+  }
+  if (url.length > MAX_URL_LENGTH) {
+    throw new ValidationError(`url must be at most ${MAX_URL_LENGTH} characters`);
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new ValidationError('url must be a valid URL');
+  }
+
+  const allowedProtocols = isProduction ? ['https:'] : ['https:', 'http:'];
+  if (!allowedProtocols.includes(parsed.protocol)) {
+    throw new ValidationError(isProduction ? 'url must use https' : 'url must use http or https');
+  }
+
+  if (!allowsPrivateUrls() && !(await resolvesToPublicIp(parsed.hostname))) {
+    throw new ValidationError('url must resolve to a public IP address');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Validate event filters; '*' (or omitting the filter) subscribes to everything
+ */
+function validateEnabledEvents(enabledEvents: unknown): string[] | null {
+  if (enabledEvents === undefined || enabledEvents === null) {
+    return null;
+  }
+  if (!Array.isArray(enabledEvents) || enabledEvents.length === 0) {
+    throw new ValidationError('enabled_events must be a non-empty array');
+  }
+
+  const unknown = enabledEvents.filter(
+    (type) => type !== ALL_EVENTS && !EVENT_TYPES.includes(type)
+  );
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown event type: ${unknown.join(', ')}`);
+  }
+
+  return enabledEvents.includes(ALL_EVENTS) ? null : Array.from(new Set<string>(enabledEvents));
+}
+
+/**
+ * Format webhook endpoint for API response (secrets omitted)
+ */
+function formatWebhookEndpoint(row: any): WebhookEndpoint {
+  return {
+    id: row.id,
+    object: 'webhook_endpoint',
+    application_id: row.application_id,
+    url: row.url,
+    description: row.description,
+    enabled_events: row.enabled_events || [ALL_EVENTS],
+    active: row.active,
+    disabled_at: row.disabled_at,
+    disabled_reason: row.disabled_reason,
+    secret_rolled_at: row.secret_rolled_at,
+    previous_secret_expires_at: row.previous_secret ? row.previous_secret_expires_at : null,
+    metadata: row.metadata || {},
+    test_mode: row.test_mode,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Secrets deliveries to the endpoint are signed with (two during a roll's overlap)
+ */
+function activeSecrets(row: any): string[] {
+  const previousValid = row.previous_secret && row.previous_secret_expires_at > new Date();
+  return previousValid ? [row.secret, row.previous_secret] : [row.secret];
+}
+
+/**
+ * Load an endpoint row in the given mode, secrets included
+ */
+async function findEndpoint(applicationId: string, endpointId: string, testMode: boolean): Promise<any> {
+  const result = await db.query(
+    'SELECT * FROM webhook_endpoints WHERE id = $1 AND application_id = $2 AND test_mode = $3',
+    [endpointId, applicationId, testMode]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Webhook endpoint not found');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Create a webhook endpoint for the key's mode; the response is the only time
+ * its secret is shown
+ */
+export async function create(
+  applicationId: string,
+  testMode: boolean,
+  input: CreateWebhookEndpointInput
+): Promise<WebhookEndpointWithSecret> {
+  const url = await validateUrl(input.url);
+  const enabledEvents = validateEnabledEvents(input.enabled_events);
+
+  const count = await db.query(
+    'SELECT COUNT(*)::int AS count FROM webhook_endpoints WHERE application_id = $1 AND test_mode = $2',
+    [applicationId, testMode]
+  );
+  if (count.rows[0].count >= MAX_ENDPOINTS_PER_APPLICATION) {
+    throw new ValidationError(
+      `An application can have at most ${MAX_ENDPOINTS_PER_APPLICATION} webhook endpoints per mode`
+    );
+  }
+
+  const secret = generateSecret();
+  const result = await db.query(
+    `INSERT INTO webhook_endpoints (
+      application_id, url, secret, description, enabled_events, metadata, test_mode
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING *`,
+    [
+      applicationId,
+      url,
+      secret,
+      input.description || null,
+      enabledEvents,
+      JSON.stringify(input.metadata || {}),
+      testMode,
+    ]
+  );
+
+  const endpoint = formatWebhookEndpoint(result.rows[0]);
+  logger.info('Webhook endpoint created', { endpointId: endpoint.id, applicationId, testMode, url });
+  return { ...endpoint, secret };
+}
+
+/**
+ * Get webhook endpoint by ID
+ */
+export async function getById(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean
+): Promise<WebhookEndpoint> {
+  return formatWebhookEndpoint(await findEndpoint(applicationId, endpointId, testMode));
+}
+
+/**
+ * List the application's webhook endpoints in the given mode
+ */
+export async function list(
+  applicationId: string,
+  testMode: boolean
+): Promise<{ data: WebhookEndpoint[]; has_more: boolean }> {
+  const result = await db.query(
+    `SELECT * FROM webhook_endpoints
+     WHERE application_id = $1 AND test_mode = $2
+     ORDER BY created_at ASC`,
+    [applicationId, testMode]
+  );
+
+  return { data: result.rows.map(formatWebhookEndpoint), has_more: false };
+}
+
+/**
+ * Update URL, description, event filters, active flag or metadata.
+ * Re-enabling clears the failure streak.
+ */
+export async function update(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean,
+  input: UpdateWebhookEndpointInput
+): Promise<WebhookEndpoint> {
+  await findEndpoint(applicationId, endpointId, testMode);
+
+  const updates: string[] = ['updated_at = NOW()'];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  if (input.url !== undefined) {
+    updates.push(`url = $${paramIndex++}`);
+    values.push(await validateUrl(input.url));
+  }
+  if (input.description !== undefined) {
+    updates.push(`description = $${paramIndex++}`);
+    values.push(input.description || null);
+  }
+  if (input.enabled_events !== undefined) {
+    updates.push(`enabled_events = $${paramIndex++}`);
+    values.push(validateEnabledEvents(input.enabled_events));
+  }
+  if (input.active !== undefined) {
+    if (typeof input.active !== 'boolean') {
+      throw new ValidationError('active must be a boolean');
+    }
+    updates.push(`active = $${paramIndex++}`);
+    values.push(input.active);
+    if (input.active) {
+      updates.push(
+        'consecutive_failures = 0', 'failing_since = NULL', 'disabled_at = NULL', 'disabled_reason = NULL'
+      );
+    }
+  }
+  if (input.metadata !== undefined) {
+    updates.push(`metadata = $${paramIndex++}`);
+    values.push(JSON.stringify(input.metadata));
+  }
+
+  values.push(endpointId, applicationId, testMode);
+
+  const result = await db.query(
+    `UPDATE webhook_endpoints SET ${updates.join(', ')}
+     WHERE id = $${paramIndex} AND application_id = $${paramIndex + 1} AND test_mode = $${paramIndex + 2}
+     RETURNING *`,
+    values
+  );
+
+  logger.info('Webhook endpoint updated', { endpointId, applicationId });
+  return formatWebhookEndpoint(result.rows[0]);
+}
+
+/**
+ * Delete a webhook endpoint (its delivery log is kept)
+ */
+export async function deleteWebhookEndpoint(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean
+): Promise<WebhookEndpoint> {
+  const existing = await findEndpoint(applicationId, endpointId, testMode);
+
+  await db.query(
+    'DELETE FROM webhook_endpoints WHERE id = $1 AND application_id = $2 AND test_mode = $3',
+    [endpointId, applicationId, testMode]
+  );
+
+  logger.info('Webhook endpoint deleted', { endpointId, applicationId });
+  return formatWebhookEndpoint(existing);
+}
+
+/**
+ * Replace the signing secret. Deliveries are signed with both the new and the
+ * old secret until the overlap window ends, so receivers can switch over
+ * without rejecting events; expires_in_hours = 0 revokes the old one at once.
+ */
+export async function rollSecret(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean,
+  input: RollSecretInput = {}
+): Promise<WebhookEndpointWithSecret> {
+  const hours = input.expires_in_hours ?? DEFAULT_ROLL_OVERLAP_HOURS;
+  if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 0 || hours > MAX_ROLL_OVERLAP_HOURS) {
+    throw new ValidationError(
+      `expires_in_hours must be an integer between 0 and ${MAX_ROLL_OVERLAP_HOURS}`
+    );
+  }
+
+  await findEndpoint(applicationId, endpointId, testMode);
+
+  const secret = generateSecret();
+  const result = await db.query(
+    `UPDATE webhook_endpoints
+     SET previous_secret = CASE WHEN $1 > 0 THEN secret END,
+         previous_secret_expires_at = CASE WHEN $1 > 0 THEN NOW() + make_interval(hours => $1) END,
+         secret = $2, secret_rolled_at = NOW(), updated_at = NOW()
+     WHERE id = $3 AND application_id = $4 AND test_mode = $5
+     RETURNING *`,
+    [hours, secret, endpointId, applicationId, testMode]
+  );
+
+  logger.info('Webhook endpoint secret rolled', { endpointId, applicationId, overlapHours: hours });
+  return { ...formatWebhookEndpoint(result.rows[0]), secret };
+}
+
+/**
+ * URL and signing secrets for sending to an endpoint, regardless of its
+ * event filters or active flag (manual redelivery and test events)
+ */
+export async function getSigningTarget(
+  applicationId: string,
+  endpointId: string,
+  testMode: boolean
+): Promise<SigningTarget> {
+  const row = await findEndpoint(applicationId, endpointId, testMode);
+  return { endpoint: formatWebhookEndpoint(row), url: row.url, secrets: activeSecrets(row) };
+}
+
+/**
+ * Track the endpoint's failure streak after a logged delivery, disabling it
+ * once the streak is sustained
+ */
+export async function recordDeliveryResult(
+  endpointId: string,
+  success: boolean,
+  testMode: boolean
+): Promise<void> {
+  if (success) {
+    await db.query(
+      `UPDATE webhook_endpoints SET consecutive_failures = 0, failing_since = NULL
+       WHERE id = $1 AND consecutive_failures > 0`,
+      [endpointId]
+    );
+    return;
+  }
+
+  await db.transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE webhook_endpoints
+       SET consecutive_failures = consecutive_failures + 1,
+           failing_since = COALESCE(failing_since, NOW())
+       WHERE id = $1
+       RETURNING *, failing_since <= NOW() - make_interval(hours => $2) AS sustained`,
+      [endpointId, AUTO_DISABLE_AFTER_HOURS]
+    );
+
+    const row = result.rows[0];
+    if (!row || !row.active || !row.sustained || row.consecutive_failures < AUTO_DISABLE_AFTER_FAILURES) {
+      return;
+    }
+
+    const disabled = await client.query(
+      `UPDATE webhook_endpoints
+       SET active = false, disabled_at = NOW(), disabled_reason = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [
+        `Disabled after ${row.consecutive_failures} consecutive failed deliveries since ${row.failing_since.toISOString()}`,
+        endpointId,
+      ]
+    );
+
+    await eventService.publish(client, {
+      application_id: row.application_id,
+      test_mode: testMode,
+      type: 'webhook_endpoint.disabled',
+      object: formatWebhookEndpoint(disabled.rows[0]),
+    });
+
+    logger.warn('Webhook endpoint disabled', {
+      endpointId,
+      applicationId: row.application_id,
+      consecutiveFailures: row.consecutive_failures,
+    });
+  });
+}
+
+export default {
+  create,
+  getById,
+  list,
+  update,
+  delete: deleteWebhookEndpoint,
+  rollSecret,
+  getSigningTarget,
+  recordDeliveryResult,
+  allowsPrivateUrls,
+};
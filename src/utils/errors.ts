@@ -37,6 +37,12 @@ export class AuthorizationError extends AppError {
   }
 }
 
+export class PaymentError extends AppError {
+  constructor(message: string = 'Payment failed', code: string = 'PAYMENT_FAILED') {
+    super(message, 402, code);
+  }
+}
+
 export class NotFoundError extends AppError {
   constructor(message: string = 'Resource not found', code: string = 'NOT_FOUND') {
     super(message, 404, code);
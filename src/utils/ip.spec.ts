@@ -0,0 +1,138 @@
+import dns from 'dns';
+import { ipMatchesAny, isPublicIp, normalizeIp, normalizeIpRange, publicLookup, resolvesToPublicIp } from './ip';
+
+jest.mock('dns', () => {
+  const actual = jest.requireActual('dns');
+  return { ...actual, lookup: jest.fn(), promises: { ...actual.promises, lookup: jest.fn() } };
+});
+
+const RESOLVED: Record<string, { address: string; family: number }[]> = {
+  'hooks.example.com': [{ address: '93.184.216.34', family: 4 }],
+  'metadata.example.com': [{ address: '169.254.169.254', family: 4 }],
+  'mixed.example.com': [
+    { address: '93.184.216.34', family: 4 },
+    { address: '10.0.0.5', family: 4 },
+  ],
+};
+
+beforeEach(() => {
+  (dns.lookup as unknown as jest.Mock).mockImplementation((hostname: string, _options: any, callback: any) => {
+    const addresses = RESOLVED[hostname];
+    if (!addresses) return callback(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+    return callback(null, addresses);
+  });
+  (dns.promises.lookup as jest.Mock).mockImplementation(async (hostname: string) => {
+    const addresses = RESOLVED[hostname];
+    if (!addresses) throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' });
+    return addresses;
+  });
+});
+
+describe('normalizeIp', () => {
+  it('unwraps IPv4-mapped addresses, drops zone indexes and lowercases IPv6', () => {
+    expect(normalizeIp('::ffff:203.0.113.7')).toBe('203.0.113.7');
+    expect(normalizeIp('FE80::1%eth0')).toBe('fe80::1');
+    expect(normalizeIp(' 203.0.113.7 ')).toBe('203.0.113.7');
+    expect(normalizeIp('203.0.113.256')).toBeNull();
+  });
+});
+
+describe('normalizeIpRange', () => {
+  it('accepts addresses and CIDR ranges in canonical form', () => {
+    expect(normalizeIpRange('203.0.113.0/24')).toBe('203.0.113.0/24');
+    expect(normalizeIpRange('2001:DB8::/32')).toBe('2001:db8::/32');
+    expect(normalizeIpRange('203.0.113.0/024')).toBe('203.0.113.0/24');
+    expect(normalizeIpRange('203.0.113.7')).toBe('203.0.113.7');
+  });
+
+  it.each(['203.0.113.0/33', '2001:db8::/129', '203.0.113.0/', '203.0.113.0/24/8', '203.0.113.0/-1', 'example.com'])(
+    'rejects %s',
+    (entry) => {
+      expect(normalizeIpRange(entry)).toBeNull();
+    }
+  );
+});
+
+describe('ipMatchesAny', () => {
+  it('matches single addresses and CIDR ranges of both families', () => {
+    const ranges = ['198.51.100.7', '203.0.113.0/24', '2001:db8::/32'];
+
+    expect(ipMatchesAny('198.51.100.7', ranges)).toBe(true);
+    expect(ipMatchesAny('198.51.100.8', ranges)).toBe(false);
+    expect(ipMatchesAny('203.0.113.255', ranges)).toBe(true);
+    expect(ipMatchesAny('203.0.114.0', ranges)).toBe(false);
+    expect(ipMatchesAny('2001:db8:1::5', ranges)).toBe(true);
+    expect(ipMatchesAny('2001:db9::5', ranges)).toBe(false);
+  });
+
+  it('matches IPv4-mapped client addresses against IPv4 ranges', () => {
+    expect(ipMatchesAny('::ffff:203.0.113.7', ['203.0.113.0/24'])).toBe(true);
+  });
+
+  it('ignores invalid entries and never matches an invalid address', () => {
+    expect(ipMatchesAny('203.0.113.7', ['not-a-range', '203.0.113.7'])).toBe(true);
+    expect(ipMatchesAny('unknown', ['0.0.0.0/0'])).toBe(false);
+  });
+});
+
+describe('isPublicIp', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '100.64.0.1',
+    '169.254.169.254',
+    '0.0.0.0',
+    '::1',
+    '::ffff:127.0.0.1',
+    'fd00::1',
+    'fe80::1%eth0',
+    '64:ff9b::a9fe:a9fe',
+    'not-an-ip',
+  ])('rejects %s', (ip) => {
+    expect(isPublicIp(ip)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '::ffff:8.8.8.8', '2606:4700:4700::1111'])('accepts %s', (ip) => {
+    expect(isPublicIp(ip)).toBe(true);
+  });
+});
+
+describe('resolvesToPublicIp', () => {
+  it('checks IP literals, including bracketed IPv6, without resolving them', async () => {
+    expect(await resolvesToPublicIp('169.254.169.254')).toBe(false);
+    expect(await resolvesToPublicIp('[::1]')).toBe(false);
+    expect(await resolvesToPublicIp('8.8.8.8')).toBe(true);
+    expect(dns.promises.lookup).not.toHaveBeenCalled();
+  });
+
+  it('requires every resolved address to be public', async () => {
+    expect(await resolvesToPublicIp('hooks.example.com')).toBe(true);
+    expect(await resolvesToPublicIp('metadata.example.com')).toBe(false);
+    expect(await resolvesToPublicIp('mixed.example.com')).toBe(false);
+    expect(await resolvesToPublicIp('unknown.example.com')).toBe(false);
+  });
+});
+
+describe('publicLookup', () => {
+  function lookup(hostname: string, options: Record<string, any> = {}) {
+    return new Promise<{ error: NodeJS.ErrnoException | null; address: any; family?: number }>((resolve) => {
+      publicLookup(hostname, options as any, (error: NodeJS.ErrnoException | null, address: any, family?: number) =>
+        resolve({ error, address, family })
+      );
+    });
+  }
+
+  it('passes public answers through to the socket', async () => {
+    expect(await lookup('hooks.example.com')).toEqual({ error: null, address: '93.184.216.34', family: 4 });
+    expect((await lookup('hooks.example.com', { all: true })).address).toEqual(RESOLVED['hooks.example.com']);
+  });
+
+  it('fails the connection when any answer is not public', async () => {
+    for (const hostname of ['metadata.example.com', 'mixed.example.com']) {
+      const { error } = await lookup(hostname);
+      expect(error?.code).toBe('ENONPUBLIC');
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import dns from 'dns';
+import net from 'net';
+import { Request } from 'express';
+
+/**
+ * IP address utilities
+ * Normalization and CIDR matching for API key IP whitelists, and the public
+ * address checks that keep outbound webhooks off internal hosts
+ */
+
+// IPv4-mapped IPv6 form used by dual-stack sockets, e.g. ::ffff:203.0.113.7
+const IPV4_MAPPED_PREFIX = /^::ffff:/i;
+
+// Loopback, private, shared (CGNAT), link-local (including cloud metadata at
+// 169.254.169.254), unique-local, NAT64, multicast and reserved ranges
+const NON_PUBLIC_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+/**
+ * Normalize an address for comparison: strips the IPv6 zone index, unwraps
+ * IPv4-mapped IPv6 addresses and lowercases IPv6. Returns null if invalid.
+ */
+export function normalizeIp(ip: string): string | null {
+  let address = ip.trim();
+  const zoneIndex = address.indexOf('%');
+  if (zoneIndex !== -1) {
+    address = address.slice(0, zoneIndex);
+  }
+
+  if (IPV4_MAPPED_PREFIX.test(address) && net.isIPv4(address.replace(IPV4_MAPPED_PREFIX, ''))) {
+    return address.replace(IPV4_MAPPED_PREFIX, '');
+  }
+
+  switch (net.isIP(address)) {
+    case 4:
+      return address;
+    case 6:
+      return address.toLowerCase();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a whitelist entry (address or CIDR range, IPv4 or IPv6) into its
+ * canonical string form. Returns null if the entry is invalid.
+ */
+export function normalizeIpRange(entry: string): string | null {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const address = normalizeIp(rawAddress);
+  if (!address) return null;
+  if (rawPrefix === undefined) return address;
+
+  const maxPrefix = net.isIPv4(address) ? 32 : 128;
+  if (!/^\d{1,3}$/.test(rawPrefix) || parseInt(rawPrefix, 10) > maxPrefix) {
+    return null;
+  }
+
+  return `${address}/${parseInt(rawPrefix, 10)}`;
+}
+
+/**
+ * Whether an address falls within any of the given addresses or CIDR ranges
+ */
+export function ipMatchesAny(ip: string, ranges: string[]): boolean {
+  const address = normalizeIp(ip);
+  if (!address) return false;
+
+  const blockList = new net.BlockList();
+  for (const range of ranges) {
+    const normalized = normalizeIpRange(range);
+    if (!normalized) continue;
+
+    const [rangeAddress, prefix] = normalized.split('/');
+    const family = net.isIPv4(rangeAddress) ? 'ipv4' : 'ipv6';
+    if (prefix === undefined) {
+      blockList.addAddress(rangeAddress, family);
+    } else {
+      blockList.addSubnet(rangeAddress, parseInt(prefix, 10), family);
+    }
+  }
+
+  return blockList.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether an address is publicly routable (invalid addresses are not)
+ */
+export function isPublicIp(ip: string): boolean {
+  const address = normalizeIp(ip);
+  return address !== null && !ipMatchesAny(address, NON_PUBLIC_RANGES);
+}
+
+/**
+ * Whether a URL hostname (name or IP literal) resolves only to public addresses
+ */
+export async function resolvesToPublicIp(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host)) {
+    return isPublicIp(host);
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicIp(address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * dns.lookup for outbound sockets that fails unless every address is public.
+ * The check runs on the answer the socket connects to, so a second DNS answer
+ * cannot swap in an internal address after an earlier check passed.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '');
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicIp(address));
+    if (blocked || addresses.length === 0) {
+      const rejected: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to a non-public address`
+      );
+      rejected.code = 'ENONPUBLIC';
+      return callback(rejected, '');
+    }
+
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Get the client IP address
+ * X-Forwarded-For is only honoured when the connection comes from a trusted
+ * proxy (the app's `trust proxy` setting, driven by TRUSTED_PROXIES), so
+ * clients cannot spoof it
+ */
+export function getClientIp(req: Request): string {
+  const ip = req.ip || req.socket.remoteAddress;
+  return (ip && normalizeIp(ip)) || 'unknown';
+}
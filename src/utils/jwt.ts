@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { AuthenticationError } from './errors';
+
+/**
+ * JSON Web Tokens (HS256 only)
+ * Signs and verifies the access tokens issued to dashboard sessions
+ */
+
+export interface JwtClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(signingInput: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(signingInput).digest();
+}
+
+/**
+ * Sign claims into a compact JWT that expires after `expiresInSeconds`
+ */
+export function signJwt(
+  claims: Record<string, unknown> & { sub: string },
+  secret: string,
+  expiresInSeconds: number
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat: now, exp: now + expiresInSeconds }));
+  const signature = sign(`${HEADER}.${payload}`, secret);
+  return `${HEADER}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Verify signature and expiry, returning the claims
+ */
+export function verifyJwt(token: string, secret: string): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const [header, payload, signature] = parts;
+
+  // Only our own header is accepted, which rules out alg=none and key confusion
+  if (header !== HEADER) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const presented = Buffer.from(signature, 'base64url');
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  let claims: JwtClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new AuthenticationError('Token has expired', 'TOKEN_EXPIRED');
+  }
+
+  return claims;
+}
+
+/**
+ * Whether a bearer token looks like a JWT rather than an API key
+ */
+export function isJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
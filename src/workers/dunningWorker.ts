@@ -0,0 +1,23 @@
+/**
+ * Dunning Worker
+ * Periodically schedules and runs payment retries for failed invoices
+ */
+
+import { env } from '../config/env';
+import logger from '../config/logger';
+import dunningService from '../services/dunningService';
+import { createWorker } from './worker';
+
+export const dunningWorker = createWorker({
+  name: 'dunning',
+  intervalMs: env.DUNNING_WORKER_INTERVAL_MS,
+  run: async () => {
+    const result = await dunningService.processDunning(env.DUNNING_WORKER_BATCH_SIZE);
+
+    if (Object.values(result).some((count) => count > 0)) {
+      logger.info('Dunning run completed', result);
+    }
+  },
+});
+
+export default dunningWorker;
@@ -0,0 +1,18 @@
+/**
+ * Idempotency Worker
+ * Periodically purges expired Idempotency-Key records
+ */
+
+import { env } from '../config/env';
+import idempotencyService from '../services/idempotencyService';
+import { createWorker } from './worker';
+
+export const idempotencyWorker = createWorker({
+  name: 'idempotency',
+  intervalMs: env.IDEMPOTENCY_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    await idempotencyService.purgeExpired();
+  },
+});
+
+export default idempotencyWorker;
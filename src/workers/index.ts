@@ -0,0 +1,38 @@
+/**
+ * Background Workers
+ * Started alongside the HTTP server; every worker is safe to run on several pods
+ */
+
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { Worker } from './worker';
+import { renewalWorker } from './renewalWorker';
+import { dunningWorker } from './dunningWorker';
+import { webhookWorker } from './webhookWorker';
+import { idempotencyWorker } from './idempotencyWorker';
+
+const workers: Worker[] = [renewalWorker, dunningWorker, webhookWorker, idempotencyWorker];
+
+/**
+ * Start all background workers (no-op when WORKERS_ENABLED=false)
+ */
+export function startWorkers(): void {
+  if (!env.WORKERS_ENABLED) {
+    logger.info('Background workers disabled');
+    return;
+  }
+
+  workers.forEach((worker) => worker.start());
+}
+
+/**
+ * Stop all background workers, waiting for in-flight runs
+ */
+export async function stopWorkers(): Promise<void> {
+  await Promise.all(workers.map((worker) => worker.stop()));
+}
+
+export default {
+  startWorkers,
+  stopWorkers,
+};
@@ -0,0 +1,33 @@
+/**
+ * Renewal Worker
+ * Periodically resumes paused subscriptions whose resumes_at has passed and
+ * rolls due subscriptions into their next billing period
+ */
+
+import { env } from '../config/env';
+import logger from '../config/logger';
+import renewalService from '../services/renewalService';
+import { createWorker } from './worker';
+
+export const renewalWorker = createWorker({
+  name: 'renewal',
+  intervalMs: env.RENEWAL_WORKER_INTERVAL_MS,
+  run: async () => {
+    // Resume first so a subscription resuming at its period end renews normally
+    const resumes = await renewalService.processDueResumes(env.RENEWAL_WORKER_BATCH_SIZE);
+    if (resumes.resumed > 0 || resumes.failed > 0) {
+      logger.info('Resume run completed', { resumed: resumes.resumed, failed: resumes.failed });
+    }
+
+    const result = await renewalService.processDueRenewals(env.RENEWAL_WORKER_BATCH_SIZE);
+
+    if (result.processed > 0 || result.failed > 0) {
+      logger.info('Renewal run completed', {
+        processed: result.processed,
+        failed: result.failed,
+      });
+    }
+  },
+});
+
+export default renewalWorker;
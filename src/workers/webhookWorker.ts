@@ -0,0 +1,23 @@
+/**
+ * Webhook Worker
+ * Periodically delivers outbox events to webhook endpoints
+ */
+
+import { env } from '../config/env';
+import logger from '../config/logger';
+import webhookDeliveryService from '../services/webhookDeliveryService';
+import { createWorker } from './worker';
+
+export const webhookWorker = createWorker({
+  name: 'webhook',
+  intervalMs: env.WEBHOOK_WORKER_INTERVAL_MS,
+  run: async () => {
+    const result = await webhookDeliveryService.processOutbox(env.WEBHOOK_WORKER_BATCH_SIZE);
+
+    if (result.retrying > 0 || result.exhausted > 0) {
+      logger.info('Webhook run completed', result);
+    }
+  },
+});
+
+export default webhookWorker;
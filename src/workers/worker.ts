@@ -0,0 +1,76 @@
+/**
+ * Background Worker
+ * Runs a task on a fixed interval without overlapping runs
+ */
+
+import logger from '../config/logger';
+
+export interface WorkerOptions {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+export interface Worker {
+  name: string;
+  start(): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Create a polling worker.
+ * The next run is scheduled only after the current one finishes, and stop()
+ * waits for an in-flight run so shutdown never interrupts a transaction.
+ */
+export function createWorker(options: WorkerOptions): Worker {
+  const { name, intervalMs, run } = options;
+
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let stopped = true;
+
+  const tick = async (): Promise<void> => {
+    try {
+      await run();
+    } catch (error) {
+      logger.error('Worker run failed', {
+        worker: name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  const schedule = (): void => {
+    if (stopped) return;
+
+    timer = setTimeout(() => {
+      running = tick().finally(() => {
+        running = null;
+        schedule();
+      });
+    }, intervalMs);
+  };
+
+  return {
+    name,
+
+    start(): void {
+      if (!stopped) return;
+      stopped = false;
+      logger.info('Worker started', { worker: name, intervalMs });
+      schedule();
+    },
+
+    async stop(): Promise<void> {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (running) {
+        await running;
+      }
+      logger.info('Worker stopped', { worker: name });
+    },
+  };
+}